@@ -4,8 +4,14 @@
 
 import { useRef } from 'react';
 import { useGame } from './hooks/useGame';
-import { TitleScreen, HowToPlay, GameOver } from './ui/components';
+import { TitleScreen, HowToPlay, Controls, Rules, TouchControls, GameOver, RoundOver, Button } from './ui/components';
 import { CANVAS_WIDTH, CANVAS_HEIGHT } from './game/constants';
+import { getMoveStance } from './game/logic/moves';
+import { canPerformFinisher } from './game/logic/finishers';
+import { formatRounds, formatTagTeam, getMatchPreset } from './game/matchRules';
+import { getRoundsToWin } from './game/logic/gameState';
+import { canTag } from './game/logic/tagTeam';
+import { getFighter, getTeamName } from './game/logic/teams';
 import './theme/global.css';
 import styles from './App.module.css';
 
@@ -17,8 +23,26 @@ function App() {
     startGame,
     showHowToPlay,
     hideHowToPlay,
+    showControls,
+    hideControls,
+    keyBindings,
+    saveControls,
+    showRules,
+    hideRules,
+    matchPreset,
+    selectMatchPreset,
+    matchRounds,
+    selectMatchRounds,
+    matchTagTeam,
+    selectMatchTagTeam,
+    touchInput,
     restart,
+    nextRound,
     goToMainMenu,
+    watchReplay,
+    stopReplay,
+    downloadReplay,
+    loadReplay,
     toggleAudio,
     isAudioEnabled,
   } = useGame(canvasRef);
@@ -29,7 +53,8 @@ function App() {
       <canvas
         ref={canvasRef}
         className={`${styles.canvas} ${
-          state.scene === 'Playing' || state.scene === 'Countdown' || state.scene === 'Paused'
+          state.scene === 'Playing' || state.scene === 'Countdown' || state.scene === 'Paused' ||
+          state.scene === 'Overtime' || state.scene === 'Replay'
             ? styles.visible
             : styles.hidden
         }`}
@@ -37,30 +62,91 @@ function App() {
         height={CANVAS_HEIGHT}
       />
 
+      {/* Touch controls (only visible on touch screens) */}
+      {(state.scene === 'Playing' || state.scene === 'Countdown' || state.scene === 'Overtime') && (
+        <TouchControls
+          input={touchInput}
+          moveStance={getMoveStance(getFighter(state, 'player'))}
+          canFinish={canPerformFinisher(getFighter(state, 'player'), getFighter(state, 'opponent'))}
+          canTag={canTag(state, 'player')}
+        />
+      )}
+
       {/* Title Screen */}
       {state.scene === 'Title' && (
         <TitleScreen 
           onStart={startGame} 
           onHowToPlay={showHowToPlay}
+          onControls={showControls}
+          onRules={showRules}
+          rulesName={`${getMatchPreset(matchPreset).name} · ${formatRounds(matchRounds)} · ${formatTagTeam(matchTagTeam)}`}
           onToggleAudio={toggleAudio}
           isAudioEnabled={isAudioEnabled}
+          onLoadReplay={loadReplay}
         />
       )}
 
       {/* How to Play Overlay */}
       {state.scene === 'HowToPlay' && <HowToPlay onClose={hideHowToPlay} />}
 
+      {/* Controls Screen */}
+      {state.scene === 'Controls' && (
+        <Controls
+          bindings={keyBindings}
+          onSave={saveControls}
+          onClose={hideControls}
+        />
+      )}
+
+      {/* Rules Screen */}
+      {state.scene === 'Rules' && (
+        <Rules
+          selected={matchPreset}
+          onSelect={selectMatchPreset}
+          rounds={matchRounds}
+          onSelectRounds={selectMatchRounds}
+          tagTeam={matchTagTeam}
+          onSelectTagTeam={selectMatchTagTeam}
+          onClose={hideRules}
+        />
+      )}
+
+      {/* Between rounds of a best-of match */}
+      {state.scene === 'RoundOver' && (
+        <RoundOver
+          rounds={state.roundHistory}
+          roundWins={state.roundWins}
+          roundsToWin={getRoundsToWin(state.config)}
+          onNextRound={nextRound}
+          onMainMenu={goToMainMenu}
+          playerName={getTeamName(state, 'player')}
+          opponentName={getTeamName(state, 'opponent')}
+        />
+      )}
+
       {/* Game Over Screen */}
       {state.scene === 'GameOver' && state.result && (
         <GameOver
           result={state.result}
+          rounds={state.roundHistory}
           onPlayAgain={restart}
           onMainMenu={goToMainMenu}
-          playerName={state.player.name}
-          opponentName={state.opponent.name}
+          onWatchReplay={watchReplay}
+          onSaveReplay={downloadReplay}
+          playerName={getTeamName(state, 'player')}
+          opponentName={getTeamName(state, 'opponent')}
         />
       )}
 
+      {/* Replay controls */}
+      {state.scene === 'Replay' && (
+        <div className={styles.replayControls}>
+          <Button variant="secondary" size="small" onClick={stopReplay}>
+            Exit Replay
+          </Button>
+        </div>
+      )}
+
       {/* Pause indicator (could be expanded to full pause menu) */}
       {state.scene === 'Paused' && (
         <div className={styles.pauseOverlay}>
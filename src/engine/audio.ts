@@ -4,29 +4,9 @@
  */
 
 import { AUDIO_ENABLED_KEY, DEFAULT_AUDIO_ENABLED, MASTER_VOLUME } from '../game/constants';
+import type { SoundEffect } from '../game/types';
 
-export type SoundEffect =
-  | 'jump'
-  | 'land'
-  | 'stomp'
-  | 'grapple'
-  | 'pancake'
-  | 'scissors'
-  | 'guillotine'
-  | 'pin_start'
-  | 'pin_tick'
-  | 'pin_complete'
-  | 'countdown'
-  | 'match_start'
-  | 'victory'
-  | 'defeat'
-  | 'hit'
-  | 'block'
-  | 'fall'
-  | 'score'
-  | 'crowd_cheer'
-  | 'crowd_gasp'
-  | 'crowd_ooh';
+export type { SoundEffect };
 
 class AudioManager {
   private ctx: AudioContext | null = null;
@@ -121,6 +101,9 @@ class AudioManager {
       case 'guillotine':
         this.playGuillotine();
         break;
+      case 'finisher':
+        this.playFinisher();
+        break;
       case 'pin_start':
         this.playPinStart();
         break;
@@ -298,6 +281,25 @@ class AudioManager {
     setTimeout(() => this.playImpactSound(80, 0.5, 0.15), 250);
   }
 
+  private playFinisher(): void {
+    // Rising sweep into a huge slam and a fanfare sting
+    const osc = this.createOscillator('sawtooth');
+    const gain = this.createGain(0.3);
+    osc.frequency.setValueAtTime(150, this.ctx!.currentTime);
+    osc.frequency.exponentialRampToValueAtTime(1200, this.ctx!.currentTime + 0.4);
+    gain.gain.exponentialRampToValueAtTime(0.01, this.ctx!.currentTime + 0.45);
+    osc.connect(gain);
+    gain.connect(this.masterGain!);
+    osc.start();
+    osc.stop(this.ctx!.currentTime + 0.45);
+    
+    setTimeout(() => {
+      this.playImpactSound(60, 0.7, 0.4);
+      this.playNoiseHit(0.4, 0.2);
+      this.playChime([523, 659, 784, 1047], 0.3, 0.5);
+    }, 400);
+  }
+
   private playPinStart(): void {
     // Alert tone
     const osc = this.createOscillator('sine');
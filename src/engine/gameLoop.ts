@@ -4,7 +4,8 @@
  */
 
 export interface GameLoopCallbacks {
-  update: (deltaTime: number) => void;
+  // stepTime: the moment (ms, performance.now() clock) this fixed step represents
+  update: (deltaTime: number, stepTime: number) => void;
   render: (interpolation: number) => void;
 }
 
@@ -94,9 +95,12 @@ export class GameLoop {
     // Accumulate time
     this.accumulator += deltaTime;
 
-    // Fixed timestep updates
+    // Fixed timestep updates - each step is stamped with the time it covers up to,
+    // so catch-up steps in one frame still see input in the right order
+    let stepTime = currentTime - this.accumulator;
     while (this.accumulator >= this.fixedTimeStep) {
-      this.callbacks.update(this.fixedTimeStep);
+      stepTime += this.fixedTimeStep;
+      this.callbacks.update(this.fixedTimeStep, stepTime * 1000);
       this.accumulator -= this.fixedTimeStep;
     }
 
@@ -0,0 +1,110 @@
+/**
+ * Beam Brawlers - Gamepad Input
+ * Polls a gamepad slot each step and maps it to InputState
+ */
+
+import { GAMEPAD_BUTTONS, GAMEPAD_STICK_DEADZONE } from '../game/constants';
+import { getMoveDefinitions } from '../game/logic/moveRegistry';
+import type { InputState } from '../game/types';
+import { createInputState, type InputSource, type InputSourceResult, type InputConnectionChange } from './input';
+
+/**
+ * The parts of the browser Gamepad we read (lets tests pass plain objects)
+ */
+export interface GamepadLike {
+  connected: boolean;
+  buttons: ReadonlyArray<{ pressed: boolean }>;
+  axes: ReadonlyArray<number>;
+}
+
+/**
+ * Where gamepads come from - navigator.getGamepads() in the browser, a mock in tests
+ */
+export interface GamepadSource {
+  getGamepads(): ReadonlyArray<GamepadLike | null>;
+}
+
+/**
+ * Gamepad source backed by the browser Gamepad API (empty if unsupported)
+ */
+export const browserGamepadSource: GamepadSource = {
+  getGamepads() {
+    if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') {
+      return [];
+    }
+    return navigator.getGamepads();
+  },
+};
+
+/**
+ * Map a gamepad's buttons and left stick to an input state
+ */
+export function mapGamepad(gamepad: GamepadLike): InputState {
+  const state = createInputState();
+
+  const isPressed = (index: number) => gamepad.buttons[index]?.pressed ?? false;
+
+  for (const input of Object.keys(GAMEPAD_BUTTONS) as Array<keyof typeof GAMEPAD_BUTTONS>) {
+    state[input] = GAMEPAD_BUTTONS[input].some(isPressed);
+  }
+  for (const move of getMoveDefinitions()) {
+    state[move.id] = isPressed(move.input.gamepadButton);
+  }
+
+  // Left stick doubles as the d-pad
+  const stickX = gamepad.axes[0] ?? 0;
+  const stickY = gamepad.axes[1] ?? 0;
+  if (stickX <= -GAMEPAD_STICK_DEADZONE) state.moveLeft = true;
+  if (stickX >= GAMEPAD_STICK_DEADZONE) state.moveRight = true;
+  if (stickY <= -GAMEPAD_STICK_DEADZONE) state.jump = true;
+  if (stickY >= GAMEPAD_STICK_DEADZONE) state.crouch = true;
+
+  return state;
+}
+
+/**
+ * Polls one gamepad slot, tracking presses and hot-plug between polls
+ */
+export class GamepadPoller implements InputSource {
+  private readonly source: GamepadSource;
+  private readonly slot: number;
+  private previous: InputState = createInputState();
+  private connected: boolean = false;
+
+  constructor(slot: number = 0, source: GamepadSource = browserGamepadSource) {
+    this.slot = slot;
+    this.source = source;
+  }
+
+  /**
+   * Read the gamepad once (call every simulation step)
+   */
+  poll(): InputSourceResult {
+    const gamepad = this.source.getGamepads()[this.slot] ?? null;
+    const isConnected = gamepad !== null && gamepad.connected;
+
+    let change: InputConnectionChange = null;
+    if (isConnected !== this.connected) {
+      change = isConnected ? 'connected' : 'disconnected';
+      this.connected = isConnected;
+    }
+
+    const state = isConnected ? mapGamepad(gamepad) : createInputState();
+    const justPressed = (Object.keys(state) as Array<keyof InputState>)
+      .filter((input) => state[input] && !this.previous[input]);
+    this.previous = state;
+
+    return { state, justPressed, change };
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Forget held buttons (a button still held afterwards counts as a new press)
+   */
+  reset(): void {
+    this.previous = createInputState();
+  }
+}
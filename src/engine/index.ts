@@ -2,7 +2,33 @@
  * Beam Brawlers - Engine Module Exports
  */
 
-export { InputManager, getInputManager, createInputState } from './input';
+export {
+  InputManager,
+  getInputManager,
+  createInputState,
+  type KeyBindings,
+  type InputSource,
+  type InputSourceResult,
+  type InputConnectionChange,
+} from './input';
+export {
+  GamepadPoller,
+  mapGamepad,
+  browserGamepadSource,
+  type GamepadLike,
+  type GamepadSource,
+} from './gamepad';
+export { TouchInputSource } from './touch';
+export {
+  loadBindings,
+  saveBindings,
+  getDefaultBindings,
+  rebind,
+  findConflicts,
+  formatKeyCode,
+  type KeyBindingSet,
+  type BindingConflict,
+} from './keyBindings';
 export { GameLoop, type GameLoopCallbacks } from './gameLoop';
 export { CanvasRenderer } from './renderer';
 export { audioManager, type SoundEffect } from './audio';
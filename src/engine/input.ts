@@ -1,63 +1,106 @@
 /**
  * Beam Brawlers - Input System
- * Handles keyboard input mapping
+ * Handles keyboard input mapping, merged with polled sources (gamepad, touch)
  */
 
-import { KEY_BINDINGS } from '../game/constants';
+import { INPUT_BUFFER_WINDOW } from '../game/constants';
 import type { InputState } from '../game/types';
+import { createInputState } from '../game/logic/inputState';
+import { getDefaultBindings } from './keyBindings';
+
+export type KeyBindings = Record<keyof InputState, string>;
+
+export type InputConnectionChange = 'connected' | 'disconnected' | null;
+
+/**
+ * One poll of a non-keyboard input source
+ */
+export interface InputSourceResult {
+  state: InputState;
+  justPressed: Array<keyof InputState>;
+  change: InputConnectionChange; // Hot-plug (always null for sources that can't disconnect)
+}
+
+/**
+ * A polled input device merged into InputManager (gamepad, touch overlay)
+ */
+export interface InputSource {
+  poll(): InputSourceResult;
+  reset(): void;
+}
+
+export { createInputState };
 
 /**
- * Create empty input state
+ * A press waiting to be consumed by a simulation step
  */
-export function createInputState(): InputState {
-  return {
-    moveLeft: false,
-    moveRight: false,
-    jump: false,
-    crouch: false,
-    grapple: false,
-    pancake: false,
-    scissors: false,
-    guillotine: false,
-    pin: false,
-    defend: false,
-  };
+interface PressEvent {
+  input: keyof InputState;
+  time: number; // ms, performance.now() clock
 }
 
 /**
- * Input manager class for handling keyboard events
+ * Build reverse mapping from key codes to input names
+ */
+function buildKeyMap(bindings: KeyBindings): Map<string, keyof InputState> {
+  return new Map(
+    (Object.keys(bindings) as Array<keyof InputState>).map((input) => [bindings[input], input])
+  );
+}
+
+/**
+ * Input manager class for handling keyboard events (and any polled sources)
  */
 export class InputManager {
   private state: InputState;
+  private sourceState: InputState;
   private keyMap: Map<string, keyof InputState>;
-  private pressedThisFrame: Set<keyof InputState>;
+  private pressQueue: PressEvent[] = [];
+  private expiredPresses: PressEvent[] = []; // Presses that ran out of buffer this step, unused
+  private stepTime: number = 0;
+  private bufferWindow: number;
+  private readonly sources: InputSource[];
+  private active: boolean = false;
 
-  constructor() {
+  constructor(
+    bindings: KeyBindings = getDefaultBindings().player,
+    sources: InputSource[] = [],
+    bufferWindow: number = INPUT_BUFFER_WINDOW
+  ) {
     this.state = createInputState();
-    this.pressedThisFrame = new Set();
+    this.sourceState = createInputState();
+    this.sources = sources;
+    this.bufferWindow = bufferWindow;
     
-    // Build reverse mapping from key codes to input names
-    this.keyMap = new Map([
-      [KEY_BINDINGS.moveLeft, 'moveLeft'],
-      [KEY_BINDINGS.moveRight, 'moveRight'],
-      [KEY_BINDINGS.jump, 'jump'],
-      [KEY_BINDINGS.crouch, 'crouch'],
-      [KEY_BINDINGS.grapple, 'grapple'],
-      [KEY_BINDINGS.pancake, 'pancake'],
-      [KEY_BINDINGS.scissors, 'scissors'],
-      [KEY_BINDINGS.guillotine, 'guillotine'],
-      [KEY_BINDINGS.pin, 'pin'],
-      [KEY_BINDINGS.defend, 'defend'],
-    ]);
+    this.keyMap = buildKeyMap(bindings);
 
     this.handleKeyDown = this.handleKeyDown.bind(this);
     this.handleKeyUp = this.handleKeyUp.bind(this);
   }
 
+  /**
+   * Swap in new key bindings (e.g. after the controls screen saves).
+   * Held keys are released so nothing stays stuck under the old mapping.
+   */
+  setBindings(bindings: KeyBindings): void {
+    this.keyMap = buildKeyMap(bindings);
+    this.state = createInputState();
+    this.pressQueue = [];
+    this.expiredPresses = [];
+  }
+
+  /**
+   * How long (ms) a press stays usable before it expires
+   */
+  setBufferWindow(ms: number): void {
+    this.bufferWindow = Math.max(0, ms);
+  }
+
   /**
    * Start listening to keyboard events
    */
   start(): void {
+    this.active = true;
     window.addEventListener('keydown', this.handleKeyDown);
     window.addEventListener('keyup', this.handleKeyUp);
   }
@@ -68,29 +111,84 @@ export class InputManager {
   stop(): void {
     window.removeEventListener('keydown', this.handleKeyDown);
     window.removeEventListener('keyup', this.handleKeyUp);
+    this.active = false;
     this.state = createInputState();
-    this.pressedThisFrame.clear();
+    this.sourceState = createInputState();
+    for (const source of this.sources) {
+      source.reset();
+    }
+    this.pressQueue = [];
+    this.expiredPresses = [];
   }
 
   /**
-   * Get current input state (copy)
+   * Begin a simulation step: polls the sources and expires stale presses.
+   * stepTime is the moment the step represents (ms, performance.now() clock),
+   * so presses land in the right step even when several steps run in one frame.
+   * Returns a hot-plug change so callers can react, e.g. pause on disconnect.
+   */
+  beginStep(stepTime: number): InputConnectionChange {
+    if (!this.active) return null;
+
+    this.stepTime = stepTime;
+    this.expiredPresses = this.pressQueue.filter((press) => press.time < stepTime - this.bufferWindow);
+    this.pressQueue = this.pressQueue.filter((press) => press.time >= stepTime - this.bufferWindow);
+
+    let change: InputConnectionChange = null;
+    const sourceState = createInputState();
+    for (const source of this.sources) {
+      const result = source.poll();
+      for (const input of Object.keys(sourceState) as Array<keyof InputState>) {
+        sourceState[input] = sourceState[input] || result.state[input];
+      }
+      for (const input of result.justPressed) {
+        if (!this.state[input]) {
+          this.pressQueue.push({ input, time: stepTime });
+        }
+      }
+      change = change ?? result.change;
+    }
+    this.sourceState = sourceState;
+    return change;
+  }
+
+  /**
+   * Get current input state (copy) - keyboard and sources combined
    */
   getState(): InputState {
-    return { ...this.state };
+    const state = { ...this.state };
+    for (const input of Object.keys(state) as Array<keyof InputState>) {
+      state[input] = state[input] || this.sourceState[input];
+    }
+    return state;
   }
 
   /**
-   * Check if a key was just pressed this frame
+   * Use up a buffered press of this input, if one happened within the buffer
+   * window up to the current step. Only consume when the press can act -
+   * otherwise it stays buffered (e.g. J pressed just before a grapple lands).
    */
-  wasJustPressed(key: keyof InputState): boolean {
-    return this.pressedThisFrame.has(key);
+  consumePress(input: keyof InputState): boolean {
+    const index = this.pressQueue.findIndex(
+      (press) =>
+        press.input === input &&
+        press.time <= this.stepTime &&
+        press.time >= this.stepTime - this.bufferWindow
+    );
+    if (index === -1) return false;
+    this.pressQueue.splice(index, 1);
+    return true;
   }
 
   /**
-   * Clear just-pressed flags (call at end of frame)
+   * Use up a press of this input that went unused for the whole buffer window and
+   * expired at the start of this step (e.g. a move key with no grapple to land in)
    */
-  clearJustPressed(): void {
-    this.pressedThisFrame.clear();
+  consumeExpiredPress(input: keyof InputState): boolean {
+    const index = this.expiredPresses.findIndex((press) => press.input === input);
+    if (index === -1) return false;
+    this.expiredPresses.splice(index, 1);
+    return true;
   }
 
   private handleKeyDown(event: KeyboardEvent): void {
@@ -98,9 +196,9 @@ export class InputManager {
     if (inputName !== undefined) {
       event.preventDefault();
       
-      // Track if this is a new press
-      if (!this.state[inputName]) {
-        this.pressedThisFrame.add(inputName);
+      // Queue new presses (not key repeat) with the time they happened
+      if (!this.state[inputName] && !this.sourceState[inputName]) {
+        this.pressQueue.push({ input: inputName, time: performance.now() });
       }
       
       this.state[inputName] = true;
@@ -0,0 +1,138 @@
+/**
+ * Beam Brawlers - Key Bindings
+ * Rebindable keyboard controls for both players, persisted in localStorage
+ */
+
+import { KEY_BINDINGS, KEY_BINDINGS_P2, KEY_BINDINGS_KEY } from '../game/constants';
+import { getMoveDefinitions } from '../game/logic/moveRegistry';
+import type { InputState } from '../game/types';
+import type { KeyBindings } from './input';
+
+/**
+ * Keyboard bindings for both fighters (opponent keys are used in versus mode)
+ */
+export interface KeyBindingSet {
+  player: KeyBindings;
+  opponent: KeyBindings;
+}
+
+/**
+ * A key bound to more than one action
+ */
+export interface BindingConflict {
+  code: string;
+  actions: Array<{ fighter: keyof KeyBindingSet; input: keyof InputState }>;
+}
+
+/**
+ * Default bindings (fresh copies, safe to edit) - control keys plus each move's keys
+ */
+export function getDefaultBindings(): KeyBindingSet {
+  const bindings: KeyBindingSet = {
+    player: { ...KEY_BINDINGS },
+    opponent: { ...KEY_BINDINGS_P2 },
+  };
+  for (const move of getMoveDefinitions()) {
+    bindings.player[move.id] = move.input.key;
+    bindings.opponent[move.id] = move.input.keyP2;
+  }
+  return bindings;
+}
+
+/**
+ * Fill one fighter's bindings from stored data, keeping defaults for anything missing
+ */
+function mergeBindings(defaults: KeyBindings, stored: unknown): KeyBindings {
+  const merged = { ...defaults };
+  if (typeof stored !== 'object' || stored === null) return merged;
+
+  for (const input of Object.keys(defaults) as Array<keyof InputState>) {
+    const code = (stored as Record<string, unknown>)[input];
+    if (typeof code === 'string' && code.length > 0) {
+      merged[input] = code;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Load saved bindings (defaults if none are saved or storage is unavailable)
+ */
+export function loadBindings(): KeyBindingSet {
+  const defaults = getDefaultBindings();
+  try {
+    const stored = localStorage.getItem(KEY_BINDINGS_KEY);
+    if (stored === null) return defaults;
+    const data = JSON.parse(stored) as Partial<Record<keyof KeyBindingSet, unknown>>;
+    return {
+      player: mergeBindings(defaults.player, data.player),
+      opponent: mergeBindings(defaults.opponent, data.opponent),
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+/**
+ * Save bindings
+ */
+export function saveBindings(bindings: KeyBindingSet): void {
+  try {
+    localStorage.setItem(KEY_BINDINGS_KEY, JSON.stringify(bindings));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+/**
+ * Bind a key to one fighter's action (returns a new set)
+ */
+export function rebind(
+  bindings: KeyBindingSet,
+  fighter: keyof KeyBindingSet,
+  input: keyof InputState,
+  code: string
+): KeyBindingSet {
+  return {
+    ...bindings,
+    [fighter]: { ...bindings[fighter], [input]: code },
+  };
+}
+
+/**
+ * Find keys bound to more than one action (across both players,
+ * since they share a keyboard in versus mode)
+ */
+export function findConflicts(bindings: KeyBindingSet): BindingConflict[] {
+  const byCode = new Map<string, BindingConflict['actions']>();
+
+  for (const fighter of ['player', 'opponent'] as const) {
+    for (const input of Object.keys(bindings[fighter]) as Array<keyof InputState>) {
+      const code = bindings[fighter][input];
+      const actions = byCode.get(code) ?? [];
+      actions.push({ fighter, input });
+      byCode.set(code, actions);
+    }
+  }
+
+  return [...byCode.entries()]
+    .filter(([, actions]) => actions.length > 1)
+    .map(([code, actions]) => ({ code, actions }));
+}
+
+/**
+ * Friendly label for a KeyboardEvent.code ('KeyA' -> 'A', 'ArrowLeft' -> '←')
+ */
+export function formatKeyCode(code: string): string {
+  const arrows: Record<string, string> = {
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+  };
+  if (arrows[code]) return arrows[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `NUM ${code.slice(6).toUpperCase()}`;
+  return code.replace(/(Left|Right)$/, ' $1').toUpperCase();
+}
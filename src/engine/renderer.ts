@@ -14,11 +14,18 @@ import {
   BEAM_EDGE_ZONE,
   FIGHTER_WIDTH,
   FIGHTER_HEIGHT,
+  FIGHTER_CROUCH_HEIGHT,
   MAX_BALANCE,
   MAX_STAMINA,
-  PIN_DURATION,
+  MAX_MOMENTUM,
+  FINISHER_FLOURISH_DURATION,
 } from '../game/constants';
-import type { GameState, Fighter, Callout } from '../game/types';
+import { getCrowdExcitement, getRoundsToWin } from '../game/logic/gameState';
+import { isCriticallyWeak } from '../game/logic/moves';
+import { canTag, getApronX, getNextPartner } from '../game/logic/tagTeam';
+import { getBench, getFighter, getTeamFalls, getTeamScore } from '../game/logic/teams';
+import { getMoveDefinition } from '../game/logic/moveRegistry';
+import type { GameState, Fighter, Callout, FinisherFlourish } from '../game/types';
 import theme from '../theme/linkittydoTheme';
 
 // =============================================================================
@@ -117,12 +124,9 @@ export class CanvasRenderer {
   render(state: GameState): void {
     this.animationTime = Date.now() / 1000;
     
-    // Calculate crowd excitement based on game state
-    let excitement = 0.3; // Base level
-    if (state.isGrappling) excitement = 0.6;
-    if (state.pinningFighter) excitement = 0.9;
-    if (state.player.state === 'Falling' || state.opponent.state === 'Falling') excitement = 1.0;
-    if (state.currentCallout) excitement = Math.max(excitement, 0.7);
+    // Calculate crowd excitement based on game state (a finisher blows the roof off)
+    const finisherAge = state.finisher ? state.elapsedTime - state.finisher.startTime : Infinity;
+    const excitement = finisherAge < FINISHER_FLOURISH_DURATION ? 1.0 : getCrowdExcitement(state);
     
     this.clear();
     this.drawBackground();
@@ -130,18 +134,48 @@ export class CanvasRenderer {
     this.drawBeam();
     this.drawFallZone();
     
+    // Draw tag partners waiting on their aprons
+    this.drawBench(state, 'player', theme.colors.blue);
+    this.drawBench(state, 'opponent', theme.colors.red);
+    
     // Draw fighters
-    this.drawFighter(state.player, theme.colors.blue);
-    this.drawFighter(state.opponent, theme.colors.red);
+    this.drawFighter(getFighter(state, 'player'), theme.colors.blue, state.config.fallResetDelay);
+    this.drawFighter(getFighter(state, 'opponent'), theme.colors.red, state.config.fallResetDelay);
     
     // Draw grapple indicator
     if (state.isGrappling) {
-      this.drawGrappleIndicator(state.player, state.opponent);
+      this.drawGrappleIndicator(getFighter(state, 'player'), getFighter(state, 'opponent'));
+    }
+    
+    // Draw hold escape meter over the held fighter
+    if (state.activeMove?.holding) {
+      const held = getFighter(state, state.activeMove.attacker === 'player' ? 'opponent' : 'player');
+      this.drawEscapeMeter(held, state.activeMove.escapeProgress);
+    }
+    
+    // Draw the climb meter over anyone hanging off the edge
+    for (const fighter of [getFighter(state, 'player'), getFighter(state, 'opponent')]) {
+      if (fighter.state === 'Hanging') {
+        this.drawEscapeMeter(fighter, fighter.climbProgress, 'CLIMB! ◀ ▶');
+      }
+    }
+    
+    // Draw the finisher flourish over the fighter who hit it
+    if (state.finisher && finisherAge < FINISHER_FLOURISH_DURATION) {
+      this.drawFinisherFlourish(state.finisher, getFighter(state, state.finisher.fighter), finisherAge);
+    }
+    
+    // Draw the submission meter once a submission hold has the defender worn down
+    if (state.activeMove?.holding && getMoveDefinition(state.activeMove.move).submission && !state.config.pinsOnly) {
+      const held = getFighter(state, state.activeMove.attacker === 'player' ? 'opponent' : 'player');
+      if (state.activeMove.submissionProgress > 0 || isCriticallyWeak(held)) {
+        this.drawSubmissionMeter(state.activeMove.submissionProgress, state.activeMove.attacker);
+      }
     }
     
     // Draw pin progress
     if (state.pinningFighter) {
-      this.drawPinProgress(state.pinProgress, state.pinningFighter);
+      this.drawPinProgress(state.pinProgress, state.pinningFighter, state.kickOutProgress, state.config.pinDuration);
     }
     
     // Draw HUD
@@ -151,6 +185,11 @@ export class CanvasRenderer {
     if (state.currentCallout) {
       this.drawCallout(state.currentCallout);
     }
+    
+    // Hold the action under the overtime count-in
+    if (state.scene === 'Overtime') {
+      this.drawOvertimeCount(state.countdownTimer);
+    }
   }
 
   /**
@@ -408,10 +447,45 @@ export class CanvasRenderer {
     ctx.fillText('FALL ZONE', CANVAS_WIDTH / 2, fallZoneY + 40);
   }
 
+  /**
+   * Draw a side's waiting tag partners on the apron past their end of the beam,
+   * with a TAG! hint over them while the fighter on the beam can reach
+   */
+  private drawBench(state: GameState, side: 'player' | 'opponent', accentColor: string): void {
+    const bench = getBench(state, side);
+    if (bench.length === 0) return;
+    const ctx = this.ctx;
+    const apronX = getApronX(side);
+    
+    // Apron platform
+    ctx.fillStyle = '#B8845B';
+    ctx.strokeStyle = theme.colors.ink;
+    ctx.lineWidth = 3;
+    ctx.fillRect(apronX - 30, BEAM_Y, 60, BEAM_HEIGHT);
+    ctx.strokeRect(apronX - 30, BEAM_Y, 60, BEAM_HEIGHT);
+    
+    ctx.globalAlpha = 0.6;
+    for (const partner of bench) {
+      this.drawFighter(partner, accentColor, state.config.fallResetDelay);
+    }
+    ctx.globalAlpha = 1;
+    
+    if (canTag(state, side)) {
+      const bob = Math.sin(this.animationTime * 8) * 3;
+      ctx.fillStyle = theme.colors.gold;
+      ctx.strokeStyle = theme.colors.ink;
+      ctx.lineWidth = 3;
+      ctx.font = '18px Bungee, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.strokeText('TAG!', apronX, BEAM_Y - FIGHTER_HEIGHT - 25 + bob);
+      ctx.fillText('TAG!', apronX, BEAM_Y - FIGHTER_HEIGHT - 25 + bob);
+    }
+  }
+
   /**
    * Draw a fighter with animations
    */
-  private drawFighter(fighter: Fighter, accentColor: string): void {
+  private drawFighter(fighter: Fighter, accentColor: string, fallDuration: number): void {
     const ctx = this.ctx;
     const time = this.animationTime;
     const x = fighter.x;
@@ -425,7 +499,7 @@ export class CanvasRenderer {
     // Handle falling animation (tumbling off beam)
     if (fighter.state === 'Falling') {
       // Tumble animation - fighter spins and falls
-      const fallProgress = (fighter.stateTimer > 0) ? (1 - fighter.stateTimer) : 1;
+      const fallProgress = (fighter.stateTimer > 0 && fallDuration > 0) ? (1 - fighter.stateTimer / fallDuration) : 1;
       drawY = BEAM_Y + 30 + fallProgress * 100;
       rotation = fallProgress * Math.PI * 2.5; // 2.5 rotations during fall
       scale = Math.max(0.5, 1 - fallProgress * 0.3); // Shrink slightly as they fall away
@@ -459,9 +533,14 @@ export class CanvasRenderer {
       }
     }
     
+    // Hanging - dangle below the beam top, pulled up as they climb
+    if (fighter.state === 'Hanging') {
+      drawY = BEAM_Y - 10 - fighter.climbProgress * 30;
+    }
+    
     // Fighter shadow (changes size based on height)
     const shadowScale = Math.max(0.3, 1 + fighter.y / 100);
-    if (fighter.state !== 'Falling') {
+    if (fighter.state !== 'Falling' && fighter.state !== 'Hanging') {
       ctx.fillStyle = `rgba(0, 0, 0, ${0.2 * shadowScale})`;
       ctx.beginPath();
       ctx.ellipse(x, BEAM_Y - 2, (FIGHTER_WIDTH / 2 - 5) * shadowScale, 8 * shadowScale, 0, 0, Math.PI * 2);
@@ -481,7 +560,13 @@ export class CanvasRenderer {
     ctx.lineWidth = 3;
     
     const bodyWidth = FIGHTER_WIDTH - 10;
-    const bodyHeight = FIGHTER_HEIGHT - 20;
+    let bodyHeight = FIGHTER_HEIGHT - 20;
+
+    // Crouched - squat down to the lower hurtbox
+    if (fighter.state === 'Crouching') {
+      drawY += FIGHTER_HEIGHT - FIGHTER_CROUCH_HEIGHT;
+      bodyHeight = FIGHTER_CROUCH_HEIGHT - 20;
+    }
     
     // Draw different pose based on state
     if (fighter.state === 'Falling') {
@@ -493,6 +578,12 @@ export class CanvasRenderer {
     } else if (fighter.state === 'Stunned') {
       // Dazed pose
       this.drawStunnedFighter(x, drawY, bodyWidth, bodyHeight, accentColor, time);
+    } else if (fighter.state === 'Hanging') {
+      // Clinging to the edge
+      this.drawHangingFighter(x, drawY, bodyWidth, bodyHeight, accentColor, time);
+    } else if (fighter.state === 'Recovering') {
+      // Off balance after a whiff or a big landing
+      this.drawRecoveringFighter(x, drawY, bodyWidth, bodyHeight, accentColor, fighter.facing, time);
     } else {
       // Normal pose
       this.drawNormalFighter(x, drawY, bodyWidth, bodyHeight, accentColor, fighter.facing);
@@ -507,7 +598,7 @@ export class CanvasRenderer {
     
     // Name label (Zappa song title)
     if (fighter.state !== 'Falling') {
-      ctx.fillStyle = fighter.id === 'player' ? theme.colors.mint : theme.colors.pop;
+      ctx.fillStyle = fighter.side === 'player' ? theme.colors.mint : theme.colors.pop;
       ctx.font = 'bold 12px Nunito, sans-serif';
       ctx.textAlign = 'center';
       ctx.strokeStyle = theme.colors.ink;
@@ -695,6 +786,104 @@ export class CanvasRenderer {
     }
   }
 
+  /**
+   * Draw fighter stumbling forward, arms windmilling for balance
+   */
+  private drawRecoveringFighter(
+    x: number,
+    y: number,
+    bodyWidth: number,
+    bodyHeight: number,
+    color: string,
+    facing: 'left' | 'right',
+    time: number
+  ): void {
+    const ctx = this.ctx;
+    const lean = facing === 'right' ? 0.25 : -0.25;
+    const windmill = time * 14;
+    
+    ctx.fillStyle = color;
+    ctx.strokeStyle = theme.colors.ink;
+    ctx.lineWidth = 3;
+    
+    // Body pitched forward over the front foot
+    ctx.save();
+    ctx.translate(x, y + 20 + bodyHeight);
+    ctx.rotate(lean);
+    ctx.translate(-x, -(y + 20 + bodyHeight));
+    
+    ctx.fillRect(x - bodyWidth / 2, y + 20, bodyWidth, bodyHeight);
+    ctx.strokeRect(x - bodyWidth / 2, y + 20, bodyWidth, bodyHeight);
+    
+    // Arms windmilling
+    for (let arm = 0; arm < 2; arm++) {
+      const angle = windmill + arm * Math.PI;
+      ctx.beginPath();
+      ctx.moveTo(x, y + 28);
+      ctx.lineTo(x + Math.cos(angle) * 22, y + 28 + Math.sin(angle) * 22);
+      ctx.stroke();
+    }
+    
+    // Head
+    ctx.beginPath();
+    ctx.arc(x, y + 12, 15, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    
+    ctx.restore();
+  }
+
+  /**
+   * Draw fighter hanging from the beam by their hands, legs kicking
+   */
+  private drawHangingFighter(x: number, y: number, bodyWidth: number, bodyHeight: number, color: string, time: number): void {
+    const ctx = this.ctx;
+    const kick = Math.sin(time * 12) * 6;
+    
+    ctx.fillStyle = color;
+    ctx.strokeStyle = theme.colors.ink;
+    ctx.lineWidth = 3;
+    
+    // Arms stretched up to the beam
+    ctx.beginPath();
+    ctx.moveTo(x - bodyWidth / 2 + 4, y + 24);
+    ctx.lineTo(x - 12, BEAM_Y);
+    ctx.moveTo(x + bodyWidth / 2 - 4, y + 24);
+    ctx.lineTo(x + 12, BEAM_Y);
+    ctx.stroke();
+    
+    // Hands gripping the top
+    ctx.beginPath();
+    ctx.arc(x - 12, BEAM_Y, 5, 0, Math.PI * 2);
+    ctx.arc(x + 12, BEAM_Y, 5, 0, Math.PI * 2);
+    ctx.fill();
+    
+    // Body
+    ctx.fillRect(x - bodyWidth / 2, y + 20, bodyWidth, bodyHeight);
+    ctx.strokeRect(x - bodyWidth / 2, y + 20, bodyWidth, bodyHeight);
+    
+    // Legs scrambling for a foothold
+    ctx.beginPath();
+    ctx.moveTo(x - 8, y + 20 + bodyHeight);
+    ctx.lineTo(x - 8 + kick, y + 35 + bodyHeight);
+    ctx.moveTo(x + 8, y + 20 + bodyHeight);
+    ctx.lineTo(x + 8 - kick, y + 35 + bodyHeight);
+    ctx.stroke();
+    
+    // Head
+    ctx.beginPath();
+    ctx.arc(x, y + 12, 15, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    
+    // Wide, panicked eyes
+    ctx.fillStyle = theme.colors.paper;
+    ctx.beginPath();
+    ctx.arc(x - 5, y + 8, 4, 0, Math.PI * 2);
+    ctx.arc(x + 5, y + 8, 4, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
   /**
    * Draw state indicator above fighter
    */
@@ -705,9 +894,12 @@ export class CanvasRenderer {
     
     switch (fighter.state) {
       case 'Jumping':
-        text = '🦘';
+        text = fighter.currentMove ? '🦅' : '🦘'; // mid-aerial
         color = theme.colors.mint;
         break;
+      case 'Recovering':
+        text = '💨';
+        break;
       case 'Stunned':
         text = '★★★';
         color = theme.colors.gold;
@@ -718,6 +910,10 @@ export class CanvasRenderer {
       case 'ExecutingMove':
         text = '💥';
         break;
+      case 'Held':
+        text = '🔒';
+        color = theme.colors.pop;
+        break;
       case 'Pinned':
         text = '📌';
         color = theme.colors.pop;
@@ -726,6 +922,10 @@ export class CanvasRenderer {
         text = '🏆';
         color = theme.colors.gold;
         break;
+      case 'Hanging':
+        text = '😱';
+        color = theme.colors.pop;
+        break;
       case 'Falling':
         text = '⬇️';
         color = theme.colors.pop;
@@ -763,10 +963,81 @@ export class CanvasRenderer {
     ctx.fillText('GRAPPLE!', (player.x + opponent.x) / 2, y - 20);
   }
 
+  /**
+   * Draw the escape meter a held fighter fills by mashing (or a hanging one by climbing)
+   */
+  private drawEscapeMeter(fighter: Fighter, progress: number, label: string = 'MASH!'): void {
+    const ctx = this.ctx;
+    const width = 80;
+    const height = 12;
+    const x = fighter.x - width / 2;
+    const y = BEAM_Y - FIGHTER_HEIGHT - 50;
+    
+    // Background
+    ctx.fillStyle = theme.colors.paper;
+    ctx.strokeStyle = theme.colors.ink;
+    ctx.lineWidth = 2;
+    ctx.fillRect(x, y, width, height);
+    ctx.strokeRect(x, y, width, height);
+    
+    // Progress fill
+    ctx.fillStyle = theme.colors.mint;
+    ctx.fillRect(x + 2, y + 2, (width - 4) * progress, height - 4);
+    
+    // Text (pulses to prompt mashing)
+    ctx.fillStyle = theme.colors.pop;
+    ctx.font = `${14 + Math.sin(this.animationTime * 20) * 2}px Bungee, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.fillText(label, fighter.x, y - 6);
+  }
+
+  /**
+   * Draw a signature finisher's flourish - a spinning starburst and the move's name
+   */
+  private drawFinisherFlourish(finisher: FinisherFlourish, fighter: Fighter, age: number): void {
+    const ctx = this.ctx;
+    const progress = age / FINISHER_FLOURISH_DURATION;
+    const centerY = BEAM_Y - FIGHTER_HEIGHT / 2;
+    const rayCount = 12;
+    const radius = 40 + progress * 120;
+    
+    ctx.save();
+    ctx.globalAlpha = 1 - progress;
+    
+    // Starburst rays
+    ctx.fillStyle = finisher.fighter === 'player' ? theme.colors.gold : theme.colors.pop;
+    for (let i = 0; i < rayCount; i++) {
+      const angle = (i / rayCount) * Math.PI * 2 + this.animationTime * 2;
+      ctx.beginPath();
+      ctx.moveTo(fighter.x, centerY);
+      ctx.lineTo(fighter.x + Math.cos(angle - 0.08) * radius, centerY + Math.sin(angle - 0.08) * radius);
+      ctx.lineTo(fighter.x + Math.cos(angle + 0.08) * radius, centerY + Math.sin(angle + 0.08) * radius);
+      ctx.closePath();
+      ctx.fill();
+    }
+    
+    // Finisher name rises above the fighter
+    ctx.font = '22px Bungee, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.strokeStyle = theme.colors.ink;
+    ctx.lineWidth = 4;
+    const textY = BEAM_Y - FIGHTER_HEIGHT - 40 - progress * 30;
+    ctx.strokeText(finisher.name.toUpperCase(), fighter.x, textY);
+    ctx.fillStyle = theme.colors.cream;
+    ctx.fillText(finisher.name.toUpperCase(), fighter.x, textY);
+    
+    ctx.restore();
+  }
+
   /**
    * Draw pin progress indicator
    */
-  private drawPinProgress(progress: number, pinner: 'player' | 'opponent'): void {
+  private drawPinProgress(
+    progress: number,
+    pinner: 'player' | 'opponent',
+    kickOut: number,
+    pinDuration: number
+  ): void {
     const ctx = this.ctx;
     const centerX = CANVAS_WIDTH / 2;
     const y = 100;
@@ -788,7 +1059,54 @@ export class CanvasRenderer {
     ctx.fillStyle = theme.colors.ink;
     ctx.font = '18px Bungee, sans-serif';
     ctx.textAlign = 'center';
-    ctx.fillText(`PIN! ${(progress * PIN_DURATION).toFixed(1)}s`, centerX, y + 22);
+    ctx.fillText(`PIN! ${(progress * pinDuration).toFixed(1)}s`, centerX, y + 22);
+    
+    // Kick-out meter (pinned fighter's color) with a mash prompt
+    const kickY = y + height + 6;
+    const kickHeight = 10;
+    ctx.fillStyle = theme.colors.paper;
+    ctx.lineWidth = 2;
+    ctx.fillRect(centerX - width / 2, kickY, width, kickHeight);
+    ctx.strokeRect(centerX - width / 2, kickY, width, kickHeight);
+    ctx.fillStyle = pinner === 'player' ? theme.colors.red : theme.colors.blue;
+    ctx.fillRect(centerX - width / 2 + 2, kickY + 2, (width - 4) * kickOut, kickHeight - 4);
+    
+    ctx.fillStyle = theme.colors.pop;
+    ctx.font = '12px Bungee, sans-serif';
+    ctx.fillText('MASH TO KICK OUT!', centerX, kickY + kickHeight + 14);
+  }
+
+  /**
+   * Draw the submission meter - fills toward a tap-out while the held fighter is worn down
+   */
+  private drawSubmissionMeter(progress: number, attacker: 'player' | 'opponent'): void {
+    const ctx = this.ctx;
+    const centerX = CANVAS_WIDTH / 2;
+    const y = 100;
+    const width = 300;
+    const height = 30;
+    
+    // Background
+    ctx.fillStyle = theme.colors.paper;
+    ctx.strokeStyle = theme.colors.ink;
+    ctx.lineWidth = 3;
+    ctx.fillRect(centerX - width / 2, y, width, height);
+    ctx.strokeRect(centerX - width / 2, y, width, height);
+    
+    // Progress fill
+    ctx.fillStyle = attacker === 'player' ? theme.colors.blue : theme.colors.red;
+    ctx.fillRect(centerX - width / 2 + 3, y + 3, (width - 6) * progress, height - 6);
+    
+    // Text (shakes as the tap-out gets close)
+    const shake = progress > 0.7 ? Math.sin(this.animationTime * 40) * 2 : 0;
+    ctx.fillStyle = theme.colors.ink;
+    ctx.font = '18px Bungee, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(`SUBMISSION ${Math.round(progress * 100)}%`, centerX + shake, y + 22);
+    
+    ctx.fillStyle = theme.colors.pop;
+    ctx.font = '12px Bungee, sans-serif';
+    ctx.fillText('MASH TO ESCAPE BEFORE THE TAP!', centerX, y + height + 16);
   }
 
   /**
@@ -796,9 +1114,13 @@ export class CanvasRenderer {
    */
   private drawHUD(state: GameState): void {
     this.drawScores(state);
-    this.drawMeters(state.player, 50);
-    this.drawMeters(state.opponent, CANVAS_WIDTH - 200);
-    this.drawMatchTimer(state.matchTimer);
+    this.drawMeters(getFighter(state, 'player'), 50);
+    this.drawMeters(getFighter(state, 'opponent'), CANVAS_WIDTH - 200);
+    if (state.config.tagTeam) {
+      this.drawPartnerMeters(state.teams.player[getNextPartner(state, 'player')], 50);
+      this.drawPartnerMeters(state.teams.opponent[getNextPartner(state, 'opponent')], CANVAS_WIDTH - 200);
+    }
+    this.drawMatchTimer(state.config.matchDuration === null ? null : state.matchTimer, state.overtimePeriod > 0);
   }
 
   /**
@@ -823,13 +1145,46 @@ export class CanvasRenderer {
     ctx.textAlign = 'center';
     
     ctx.fillStyle = theme.colors.blue;
-    ctx.fillText(state.player.score.toString(), centerX - 50, 45);
+    ctx.fillText(getTeamScore(state, 'player').toString(), centerX - 50, 45);
     
     ctx.fillStyle = theme.colors.ink;
     ctx.fillText('-', centerX, 45);
     
     ctx.fillStyle = theme.colors.red;
-    ctx.fillText(state.opponent.score.toString(), centerX + 50, 45);
+    ctx.fillText(getTeamScore(state, 'opponent').toString(), centerX + 50, 45);
+    
+    // Falls tally when the rules cap them
+    const { maxFalls } = state.config;
+    if (maxFalls !== null && !state.config.pinsOnly) {
+      ctx.font = 'bold 12px Nunito, sans-serif';
+      ctx.fillStyle = theme.colors.ink;
+      ctx.fillText(`FALLS ${getTeamFalls(state, 'player')}/${maxFalls}`, centerX - 70, 80);
+      ctx.fillText(`FALLS ${getTeamFalls(state, 'opponent')}/${maxFalls}`, centerX + 70, 80);
+    }
+    
+    // Round-win pips either side of the box in a best-of match
+    if (state.config.rounds > 1) {
+      const pips = getRoundsToWin(state.config);
+      ctx.lineWidth = 2;
+      for (let i = 0; i < pips; i++) {
+        const offset = boxWidth / 2 + 14 + i * 18;
+        this.drawRoundPip(centerX - offset, 35, i < state.roundWins.player, theme.colors.blue);
+        this.drawRoundPip(centerX + offset, 35, i < state.roundWins.opponent, theme.colors.red);
+      }
+    }
+  }
+
+  /**
+   * Draw one round-win pip, filled once the round is won
+   */
+  private drawRoundPip(x: number, y: number, won: boolean, color: string): void {
+    const ctx = this.ctx;
+    ctx.beginPath();
+    ctx.arc(x, y, 6, 0, Math.PI * 2);
+    ctx.fillStyle = won ? color : theme.colors.paper;
+    ctx.fill();
+    ctx.strokeStyle = theme.colors.ink;
+    ctx.stroke();
   }
 
   /**
@@ -855,6 +1210,40 @@ export class CanvasRenderer {
     // Stamina meter
     ctx.fillText('STAMINA', startX, y - 3);
     this.drawMeter(startX, y, meterWidth, meterHeight, fighter.stamina, MAX_STAMINA, theme.colors.gold);
+    
+    y += meterHeight + 15;
+    
+    // Momentum meter (flashes when the finisher is ready)
+    const momentumFull = fighter.momentum >= MAX_MOMENTUM;
+    const flash = momentumFull && Math.sin(this.animationTime * 12) > 0;
+    ctx.fillStyle = momentumFull ? theme.colors.pop : theme.colors.ink;
+    ctx.fillText(momentumFull ? 'FINISHER READY!' : 'MOMENTUM', startX, y - 3);
+    this.drawMeter(
+      startX,
+      y,
+      meterWidth,
+      meterHeight,
+      fighter.momentum,
+      MAX_MOMENTUM,
+      flash ? theme.colors.gold : theme.colors.pop,
+      false
+    );
+  }
+
+  /**
+   * Draw the waiting tag partner's balance and stamina as thin bars under the main meters
+   */
+  private drawPartnerMeters(partner: Fighter, startX: number): void {
+    const ctx = this.ctx;
+    const meterWidth = 150;
+    const y = 180;
+    
+    ctx.fillStyle = theme.colors.ink;
+    ctx.font = '11px Nunito, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.fillText(`PARTNER: ${partner.name}`, startX, y - 3);
+    this.drawMeter(startX, y, meterWidth, 8, partner.balance, MAX_BALANCE, theme.colors.mint);
+    this.drawMeter(startX, y + 10, meterWidth, 8, partner.stamina, MAX_STAMINA, theme.colors.gold);
   }
 
   /**
@@ -867,7 +1256,8 @@ export class CanvasRenderer {
     height: number,
     value: number,
     max: number,
-    fillColor: string
+    fillColor: string,
+    warnWhenLow: boolean = true
   ): void {
     const ctx = this.ctx;
     const ratio = value / max;
@@ -881,20 +1271,30 @@ export class CanvasRenderer {
     
     // Fill
     const warningThreshold = 0.3;
-    ctx.fillStyle = ratio < warningThreshold ? theme.colors.warning : fillColor;
+    ctx.fillStyle = warnWhenLow && ratio < warningThreshold ? theme.colors.warning : fillColor;
     ctx.fillRect(x + 2, y + 2, (width - 4) * ratio, height - 4);
   }
 
   /**
-   * Draw match timer
+   * Draw match timer (null = no time limit), marked OT in sudden death
    */
-  private drawMatchTimer(seconds: number): void {
+  private drawMatchTimer(seconds: number | null, overtime: boolean = false): void {
     const ctx = this.ctx;
+    
+    // No time limit
+    if (seconds === null) {
+      ctx.fillStyle = theme.colors.ink;
+      ctx.font = '24px Bungee, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('∞', CANVAS_WIDTH / 2, 85);
+      return;
+    }
+    
     const minutes = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
-    const timeStr = `${minutes}:${secs.toString().padStart(2, '0')}`;
+    const timeStr = `${overtime ? 'OT ' : ''}${minutes}:${secs.toString().padStart(2, '0')}`;
     
-    ctx.fillStyle = seconds <= 10 ? theme.colors.pop : theme.colors.ink;
+    ctx.fillStyle = seconds <= 10 || overtime ? theme.colors.pop : theme.colors.ink;
     ctx.font = '24px Bungee, sans-serif';
     ctx.textAlign = 'center';
     ctx.fillText(timeStr, CANVAS_WIDTH / 2, 85);
@@ -929,7 +1329,7 @@ export class CanvasRenderer {
   /**
    * Draw countdown
    */
-  drawCountdown(count: number): void {
+  drawCountdown(count: number, label?: string): void {
     this.clear();
     this.drawBackground();
     this.drawBeam();
@@ -941,6 +1341,51 @@ export class CanvasRenderer {
     ctx.font = '120px Bungee, sans-serif';
     ctx.textAlign = 'center';
     ctx.fillText(displayNum > 0 ? displayNum.toString() : 'GO!', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+    
+    // Round label above the count in a best-of match
+    if (label) {
+      ctx.fillStyle = theme.colors.pop;
+      ctx.font = '36px Bungee, sans-serif';
+      ctx.fillText(label, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 110);
+    }
+  }
+
+  /**
+   * Draw the overtime count-in under the sudden-death callout
+   */
+  private drawOvertimeCount(count: number): void {
+    const ctx = this.ctx;
+    ctx.fillStyle = theme.colors.pop;
+    ctx.strokeStyle = theme.colors.ink;
+    ctx.lineWidth = 4;
+    ctx.font = '72px Bungee, sans-serif';
+    ctx.textAlign = 'center';
+    const text = Math.max(1, Math.ceil(count)).toString();
+    ctx.strokeText(text, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 100);
+    ctx.fillText(text, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 100);
+  }
+
+  /**
+   * Draw replay banner and playback progress over the current frame
+   */
+  drawReplayOverlay(progress: number): void {
+    const ctx = this.ctx;
+    const x = 20;
+    const y = CANVAS_HEIGHT - 40;
+    const width = 160;
+    
+    ctx.fillStyle = theme.colors.pop;
+    ctx.font = '20px Bungee, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.fillText('● REPLAY', x, y - 8);
+    
+    ctx.fillStyle = theme.colors.paper;
+    ctx.strokeStyle = theme.colors.ink;
+    ctx.lineWidth = 2;
+    ctx.fillRect(x, y, width, 10);
+    ctx.strokeRect(x, y, width, 10);
+    ctx.fillStyle = theme.colors.pop;
+    ctx.fillRect(x + 2, y + 2, (width - 4) * Math.min(1, progress), 6);
   }
 
   /**
@@ -0,0 +1,51 @@
+/**
+ * Beam Brawlers - Touch Input
+ * Input source fed by the on-screen touch controls (multi-touch via pointer ids)
+ */
+
+import type { InputState } from '../game/types';
+import { createInputState, type InputSource, type InputSourceResult } from './input';
+
+/**
+ * Tracks which pointers hold which on-screen buttons
+ */
+export class TouchInputSource implements InputSource {
+  private held: Map<keyof InputState, Set<number>> = new Map();
+  private pressed: Set<keyof InputState> = new Set();
+
+  /**
+   * A pointer went down on (or slid onto) a button
+   */
+  press(input: keyof InputState, pointerId: number): void {
+    const pointers = this.held.get(input) ?? new Set<number>();
+    if (pointers.size === 0) {
+      // Remembered until the next poll so quick taps between steps still count
+      this.pressed.add(input);
+    }
+    pointers.add(pointerId);
+    this.held.set(input, pointers);
+  }
+
+  /**
+   * A pointer lifted from (or slid off) a button
+   */
+  release(input: keyof InputState, pointerId: number): void {
+    this.held.get(input)?.delete(pointerId);
+  }
+
+  poll(): InputSourceResult {
+    const state = createInputState();
+    for (const [input, pointers] of this.held) {
+      state[input] = pointers.size > 0;
+    }
+    const justPressed = [...this.pressed];
+    this.pressed.clear();
+
+    return { state, justPressed, change: null };
+  }
+
+  reset(): void {
+    this.held.clear();
+    this.pressed.clear();
+  }
+}
@@ -7,73 +7,177 @@ import {
   GRAPPLE_RANGE,
   LOW_BALANCE_THRESHOLD,
   AI_UPDATE_RATE,
-  MOVE_REQUIREMENTS,
+  AI_REACTION_DELAY,
+  AI_COUNTER_CHANCE,
+  AI_CROUCH_CHANCE,
+  AI_LOW_ATTACK_CHANCE,
+  AI_MASH_RATE,
+  AI_TAG_FRESHER_BY,
+  AI_TAG_WEAR,
   JUMP_STAMINA_COST,
   FIGHTER_WIDTH,
 } from '../game/constants';
-import type { Fighter, AIDecision, MoveType, GameState } from '../game/types';
-import { getFighterDistance, canAct, canBePinned, isNearEdge, areInGrappleRange, canJump, isInAir } from '../game/logic';
+import type {
+  Fighter,
+  AIDecision,
+  MoveStance,
+  MoveType,
+  GameState,
+  GameAction,
+  InputState,
+  RngState,
+} from '../game/types';
+import {
+  getFighterDistance,
+  canAct,
+  canBePinned,
+  canAttemptPin,
+  isNearEdge,
+  areInGrappleRange,
+  canJump,
+  isInAir,
+  getMoveDefinitions,
+  getMoveStance,
+  validateMove,
+  canPerformFinisher,
+  createInputState,
+  canTag,
+  getBench,
+  getFighter,
+  getHomeEnd,
+  getNextPartner,
+} from '../game/logic';
+import { createRng, nextRandom } from '../game/logic/random';
 
 /**
  * AI decision-making class
  */
 export class AIController {
-  private lastDecisionTime: number = 0;
+  private lastDecisionTime: number = -AI_UPDATE_RATE;
   private currentDecision: AIDecision = { action: 'idle' };
+  private counterCheckedMove: number | null = null; // start time of the last move we tried to counter
+  private rng: RngState;
+  private readonly fighterId: 'player' | 'opponent';
+
+  constructor(seed: number = 0, fighterId: 'player' | 'opponent' = 'opponent') {
+    this.rng = createRng(seed);
+    this.fighterId = fighterId;
+  }
   
   /**
    * Make a decision based on current game state
    */
-  decide(state: GameState, currentTime: number): AIDecision {
+  decide(state: GameState): AIDecision {
+    const currentTime = state.elapsedTime * 1000; // AI rates are in ms
+    
+    // Caught in a hold or pinned - mash defend at a steady rate (press, release, press...)
+    const trapped = getFighter(state, this.fighterId).state;
+    if (trapped === 'Held' || trapped === 'Pinned') {
+      const mashPeriod = 1000 / AI_MASH_RATE;
+      this.currentDecision = { action: currentTime % mashPeriod < mashPeriod / 2 ? 'defend' : 'idle' };
+      return this.currentDecision;
+    }
+    
+    // Hanging off the edge - alternate left and right to climb back up
+    if (trapped === 'Hanging') {
+      const stepPeriod = 1000 / AI_MASH_RATE;
+      this.currentDecision = { action: Math.floor(currentTime / stepPeriod) % 2 === 0 ? 'moveLeft' : 'moveRight' };
+      return this.currentDecision;
+    }
+    
     // Rate limit decisions
     if (currentTime - this.lastDecisionTime < AI_UPDATE_RATE) {
       return this.currentDecision;
     }
     this.lastDecisionTime = currentTime;
     
-    const ai = state.opponent;
-    const player = state.player;
+    const ai = getFighter(state, this.fighterId);
+    const target = getFighter(state, this.fighterId === 'player' ? 'opponent' : 'player');
+    
+    // Airborne - go for an aerial that would land on the target
+    if (getMoveStance(ai) === 'aerial') {
+      const move = this.selectMove(ai, target, 'aerial');
+      if (move) {
+        this.currentDecision = { action: 'executeMove', move };
+        return this.currentDecision;
+      }
+    }
     
     // Can't act if in certain states or in air
     if (!canAct(ai) || isInAir(ai)) {
       return { action: 'idle' };
     }
     
-    // Priority 1: Attempt pin if player is stunned and close
-    if (canBePinned(player) && areInGrappleRange(ai, player, GRAPPLE_RANGE)) {
+    // Priority 1: Attempt pin if target is stunned and close
+    if (canBePinned(target) && areInGrappleRange(ai, target, GRAPPLE_RANGE)) {
       this.currentDecision = { action: 'attemptPin' };
       return this.currentDecision;
     }
     
-    // Priority 2: Execute moves if grappling
+    // Priority 2: Cash in a full momentum meter on the signature finisher
+    if (!state.activeMove && canPerformFinisher(ai, target)) {
+      this.currentDecision = { action: 'finisher' };
+      return this.currentDecision;
+    }
+    
+    // Priority 3: Counter the target's move - one try per move, after reacting
+    const incoming = state.activeMove;
+    if (incoming && incoming.attacker !== this.fighterId) {
+      let counter = false;
+      if (incoming.elapsed * 1000 >= AI_REACTION_DELAY && this.counterCheckedMove !== incoming.startTime) {
+        this.counterCheckedMove = incoming.startTime;
+        counter = this.roll() < AI_COUNTER_CHANCE;
+      }
+      this.currentDecision = { action: counter ? 'defend' : 'idle' };
+      return this.currentDecision;
+    }
+    
+    // Priority 4: Execute moves if grappling
     if (ai.state === 'GrappleEngaged') {
-      const move = this.selectMove(ai, player);
+      const move = this.selectMove(ai, target, 'standing');
+      if (move) {
+        this.currentDecision = { action: 'executeMove', move };
+        return this.currentDecision;
+      }
+    }
+    
+    // Priority 5: Crouched in range - go for the legs
+    if (getMoveStance(ai) === 'low') {
+      const move = this.selectMove(ai, target, 'low');
       if (move) {
         this.currentDecision = { action: 'executeMove', move };
         return this.currentDecision;
       }
     }
     
-    // Priority 3: Defend if player is executing a move
-    if (player.state === 'ExecutingMove' && state.isGrappling) {
-      this.currentDecision = { action: 'defend' };
+    // Priority 6: Worn down with a fresh partner waiting - head home and tag out
+    if (this.shouldTagOut(state)) {
+      this.currentDecision = canTag(state, this.fighterId)
+        ? { action: 'tag' }
+        : { action: getHomeEnd(this.fighterId) < ai.x ? 'moveLeft' : 'moveRight' };
       return this.currentDecision;
     }
     
-    // Priority 4: Jump to avoid player's stomp or to attack
-    if (this.shouldJump(ai, player)) {
+    // Priority 7: Duck under the target's stomp
+    if (this.shouldCrouch(ai, target)) {
+      this.currentDecision = { action: 'crouch' };
+      return this.currentDecision;
+    }
+    
+    // Priority 8: Jump to avoid target's stomp or to attack
+    if (this.shouldJump(ai, target)) {
       this.currentDecision = { action: 'jump' };
       return this.currentDecision;
     }
     
-    // Priority 5: Attempt grapple if close enough and both grounded
-    const distance = getFighterDistance(ai, player);
-    if (distance <= GRAPPLE_RANGE && ai.state !== 'GrappleEngaged' && player.y >= 0) {
-      this.currentDecision = { action: 'grapple' };
+    // Priority 9: Grapple - or drop low for the legs - if close enough and both grounded
+    const distance = getFighterDistance(ai, target);
+    if (distance <= GRAPPLE_RANGE && ai.state !== 'GrappleEngaged' && target.y >= 0 && target.state !== 'Hanging') {
+      this.currentDecision = { action: this.roll() < AI_LOW_ATTACK_CHANCE ? 'crouch' : 'grapple' };
       return this.currentDecision;
     }
     
-    // Priority 6: Move toward player (but avoid edges if balance low)
+    // Priority 10: Move toward target (but avoid edges if balance low)
     const shouldAvoidEdge = ai.balance < LOW_BALANCE_THRESHOLD && isNearEdge(ai, 100);
     if (shouldAvoidEdge) {
       // Move toward center
@@ -82,15 +186,42 @@ export class AIController {
         action: ai.x < centerX ? 'moveRight' : 'moveLeft',
       };
     } else {
-      // Move toward player
+      // Move toward target
       this.currentDecision = {
-        action: player.x > ai.x ? 'moveRight' : 'moveLeft',
+        action: target.x > ai.x ? 'moveRight' : 'moveLeft',
       };
     }
     
     return this.currentDecision;
   }
   
+  /**
+   * Determine if AI should tag out (tag-team matches) - it's worn down
+   * and the partner waiting at its end is a lot fresher
+   */
+  private shouldTagOut(state: GameState): boolean {
+    if (getBench(state, this.fighterId).length === 0 || state.tagCooldown[this.fighterId] > 0) return false;
+
+    const partner = state.teams[this.fighterId][getNextPartner(state, this.fighterId)];
+
+    const ai = getFighter(state, this.fighterId);
+    const wear = ai.balance + ai.stamina;
+    return wear < AI_TAG_WEAR && partner.balance + partner.stamina - wear >= AI_TAG_FRESHER_BY;
+  }
+  
+  /**
+   * Determine if AI should crouch (target coming down on top of us)
+   */
+  private shouldCrouch(ai: Fighter, player: Fighter): boolean {
+    if (ai.state !== 'Idle' && ai.state !== 'Moving' && ai.state !== 'Crouching') return false;
+    if (!isInAir(player) || player.velocityY <= 0) return false;
+    if (getFighterDistance(ai, player) >= FIGHTER_WIDTH * 2) return false;
+    
+    // Already ducking - stay down until they land
+    if (ai.state === 'Crouching') return true;
+    return this.roll() < AI_CROUCH_CHANCE;
+  }
+  
   /**
    * Determine if AI should jump
    */
@@ -100,18 +231,23 @@ export class AIController {
     
     const distance = getFighterDistance(ai, player);
     
+    // Stomp a player hanging off the edge before they climb back up
+    if (player.state === 'Hanging' && distance < FIGHTER_WIDTH) {
+      return true;
+    }
+    
     // Jump to stomp if player is stunned and close
     if (player.state === 'Stunned' && distance < FIGHTER_WIDTH * 2 && ai.stamina >= JUMP_STAMINA_COST + 20) {
-      return Math.random() < 0.4; // 40% chance to try stomp
+      return this.roll() < 0.4; // 40% chance to try stomp
     }
     
     // Jump to evade if player is jumping at us (potential stomp incoming)
     if (isInAir(player) && distance < FIGHTER_WIDTH * 2) {
-      return Math.random() < 0.3; // 30% chance to evade
+      return this.roll() < 0.3; // 30% chance to evade
     }
     
     // Occasional jump to mix up gameplay
-    if (ai.stamina > 60 && Math.random() < 0.05) { // 5% random jump
+    if (ai.stamina > 60 && this.roll() < 0.05) { // 5% random jump
       return true;
     }
     
@@ -119,51 +255,114 @@ export class AIController {
   }
   
   /**
-   * Select the best move based on situation
+   * Draw the next value from the AI's seeded RNG
    */
-  private selectMove(ai: Fighter, player: Fighter): MoveType | null {
-    // Prefer Guillotine if AI has high stamina and player is stunned
-    if (ai.stamina >= MOVE_REQUIREMENTS.guillotine.staminaCost) {
-      if (player.state === 'Stunned' && ai.stamina > 60) {
-        return 'guillotine';
-      }
-    }
-    
-    // Prefer Scissors if player balance is low (to push them off)
-    if (ai.stamina >= MOVE_REQUIREMENTS.scissors.staminaCost) {
-      if (player.balance < 50 && ai.balance >= MOVE_REQUIREMENTS.scissors.minBalance) {
-        return 'scissors';
-      }
-    }
-    
-    // Default to Pancake as reliable option
-    if (ai.stamina >= MOVE_REQUIREMENTS.pancake.staminaCost) {
-      if (ai.balance >= MOVE_REQUIREMENTS.pancake.minBalance) {
-        return 'pancake';
-      }
-    }
-    
-    // Try scissors as backup
-    if (ai.stamina >= MOVE_REQUIREMENTS.scissors.staminaCost &&
-        ai.balance >= MOVE_REQUIREMENTS.scissors.minBalance) {
-      return 'scissors';
+  private roll(): number {
+    const result = nextRandom(this.rng);
+    this.rng = result.rng;
+    return result.value;
+  }
+  
+  /**
+   * Select the best move for a stance - tries registered moves by their
+   * AI priority, taking the first one that's valid and whose conditions hold
+   */
+  private selectMove(ai: Fighter, target: Fighter, stance: MoveStance): MoveType | null {
+    const moves = [...getMoveDefinitions()].sort((a, b) => a.ai.priority - b.ai.priority);
+
+    for (const move of moves) {
+      if (move.stance !== stance) continue;
+      if (!validateMove(ai, target, move.id).canExecute) continue;
+      if (move.ai.targetStunned && target.state !== 'Stunned') continue;
+      if (move.ai.minStamina !== undefined && ai.stamina <= move.ai.minStamina) continue;
+      if (move.ai.targetBalanceBelow !== undefined && target.balance >= move.ai.targetBalanceBelow) continue;
+      if (move.ai.maxDistance !== undefined && getFighterDistance(ai, target) > move.ai.maxDistance) continue;
+      return move.id;
     }
-    
+
     return null;
   }
   
   /**
-   * Reset AI state
+   * Reset AI state (reseed with the match seed for deterministic play)
    */
-  reset(): void {
-    this.lastDecisionTime = 0;
+  reset(seed: number = this.rng.seed): void {
+    this.lastDecisionTime = -AI_UPDATE_RATE;
     this.currentDecision = { action: 'idle' };
+    this.counterCheckedMove = null;
+    this.rng = createRng(seed);
   }
 }
 
 /**
  * Create AI controller instance
  */
-export function createAIController(): AIController {
-  return new AIController();
+export function createAIController(
+  seed?: number,
+  fighterId: 'player' | 'opponent' = 'opponent'
+): AIController {
+  return new AIController(seed, fighterId);
+}
+
+/**
+ * Convert an AI decision into the held input it produces this step,
+ * so AI movement and defense run through the same code as human input
+ */
+export function decisionToInput(decision: AIDecision): InputState {
+  return {
+    ...createInputState(),
+    moveLeft: decision.action === 'moveLeft',
+    moveRight: decision.action === 'moveRight',
+    crouch: decision.action === 'crouch',
+    defend: decision.action === 'defend',
+  };
+}
+
+/**
+ * Convert an AI decision into the actions it dispatches this step.
+ * Movement and defense decisions are not actions (they are input).
+ */
+export function getDecisionActions(
+  decision: AIDecision,
+  state: GameState,
+  fighterId: 'player' | 'opponent'
+): GameAction[] {
+  const fighter = getFighter(state, fighterId);
+  const target = getFighter(state, fighterId === 'player' ? 'opponent' : 'player');
+
+  switch (decision.action) {
+    case 'jump':
+      return [{ type: 'JUMP', fighter: fighterId }];
+    case 'grapple':
+      if (!state.isGrappling && fighter.y >= 0) {
+        return [{ type: 'ATTEMPT_GRAPPLE', initiator: fighterId }];
+      }
+      return [];
+    case 'executeMove':
+      if (decision.move && getMoveStance(fighter) !== null) {
+        return [{ type: 'EXECUTE_MOVE', fighter: fighterId, move: decision.move }];
+      }
+      return [];
+    case 'attemptPin':
+      if (
+        canAttemptPin(fighter, state.config.minBalanceForPin) &&
+        canBePinned(target) &&
+        areInGrappleRange(fighter, target, GRAPPLE_RANGE)
+      ) {
+        return [{ type: 'ATTEMPT_PIN', attacker: fighterId }];
+      }
+      return [];
+    case 'finisher':
+      if (!state.activeMove && canPerformFinisher(fighter, target)) {
+        return [{ type: 'PERFORM_FINISHER', fighter: fighterId }];
+      }
+      return [];
+    case 'tag':
+      if (canTag(state, fighterId)) {
+        return [{ type: 'TAG', fighter: fighterId }];
+      }
+      return [];
+    default:
+      return [];
+  }
 }
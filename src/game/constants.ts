@@ -3,6 +3,8 @@
  * All game configuration values in one place
  */
 
+import type { MatchConfig, MatchPreset, MatchPresetId } from './types';
+
 // =============================================================================
 // GAME IDENTITY
 // =============================================================================
@@ -30,6 +32,13 @@ export const FIGHTER_HEIGHT = 80;
 export const FIGHTER_SPEED = 200; // pixels per second
 export const GRAPPLE_RANGE = 70; // pixels - distance to initiate grapple
 
+// =============================================================================
+// CROUCHING
+// =============================================================================
+export const FIGHTER_CROUCH_HEIGHT = 50; // Lowered hurtbox - stomps and jump-overs pass over it
+export const CROUCH_SPEED_MULTIPLIER = 0.5; // Shuffle speed while crouched
+export const CROUCH_BALANCE_DRAIN_MULTIPLIER = 0.5; // Share of balance drain taken while crouched
+
 // =============================================================================
 // JUMP MECHANICS
 // =============================================================================
@@ -56,58 +65,12 @@ export const BALANCE_GRAPPLE_DRAIN = 5; // per second while grappling
 export const LOW_STAMINA_THRESHOLD = 20;
 export const LOW_BALANCE_THRESHOLD = 30;
 
-// =============================================================================
-// MOVE REQUIREMENTS
-// =============================================================================
-export const MOVE_REQUIREMENTS = {
-  pancake: {
-    minBalance: 30,
-    staminaCost: 25,
-    name: 'Pancake',
-  },
-  scissors: {
-    minBalance: 40,
-    staminaCost: 30,
-    name: 'Scissors',
-  },
-  guillotine: {
-    minBalance: 50,
-    staminaCost: 35,
-    name: 'Guillotine',
-  },
-} as const;
-
-// =============================================================================
-// MOVE TIMINGS (in seconds)
-// =============================================================================
-export const MOVE_TIMINGS = {
-  pancake: {
-    duration: 0.8,
-    counterWindow: 0.3,
-    stunDuration: 1.0,
-  },
-  scissors: {
-    duration: 1.2,
-    counterWindow: 1.2, // Can escape during entire hold
-    stunDuration: 0.6,
-    balanceDrainRate: 40, // per second to opponent
-  },
-  guillotine: {
-    duration: 1.5,
-    counterWindow: 0.4,
-    stunDuration: 1.2,
-  },
-} as const;
+// Move requirements, timings and points live in the move registry (data/moves.json)
 
 // =============================================================================
 // SCORING
 // =============================================================================
 export const SCORING = {
-  moves: {
-    pancake: 200,
-    scissors: 150,
-    guillotine: 250,
-  },
   bonuses: {
     balanceThreshold: 80, // Balance >= this for bonus
     balanceBonus: 0.2, // +20%
@@ -121,12 +84,74 @@ export const SCORING = {
     whiffStaminaCost: 25,
   },
 } as const;
+export const WHIFF_RECOVERY_DURATION = 0.6; // seconds left open after whiffing a move on the ground
 
 // =============================================================================
 // PIN MECHANICS
 // =============================================================================
 export const PIN_DURATION = 3.0; // seconds to hold pin for win
 export const MIN_BALANCE_FOR_PIN = 20; // Attacker needs at least this balance
+export const PIN_PUSHBACK_PER_PRESS = 0.03; // Pin meter knocked back per kick-out press (full strength)
+export const PIN_KICKOUT_PER_PRESS = 0.05; // Kick-out meter gained per press (full strength)
+export const PIN_NEAR_FALL_MARGIN = 0.1; // Kicking out this close to the full count is a near fall
+
+// =============================================================================
+// EDGE HANGING
+// =============================================================================
+export const HANG_DURATION = 2.0; // seconds a fighter can cling to the edge before dropping
+export const HANG_CLIMB_PER_STEP = 0.125; // Climb progress per alternating left/right press
+export const HANG_CLIMB_BALANCE = 30; // Balance a fighter climbs back up with
+export const EDGE_STOMP_POINTS = 250; // Landing on a hanging fighter knocks them off
+
+// =============================================================================
+// SUBMISSIONS
+// =============================================================================
+// A held defender this low on both balance and stamina starts filling the submission meter
+export const SUBMISSION_BALANCE_THRESHOLD = 25;
+export const SUBMISSION_STAMINA_THRESHOLD = 25;
+
+// =============================================================================
+// MOMENTUM & FINISHERS
+// =============================================================================
+export const MAX_MOMENTUM = 100;
+export const MOMENTUM_GAINS = {
+  move: 20, // Landed grapple move
+  stomp: 15,
+  jumpOver: 10,
+  crowdRate: 5, // per second at full crowd excitement - the crowd rallies behind whoever trails
+} as const;
+export const MOMENTUM_LOSSES = {
+  countered: 25, // Move reversed by the defender
+  fall: 50,
+} as const;
+export const FINISHER_POINTS = 500;
+export const FINISHER_STUN_DURATION = 2.0; // Guaranteed stun - long enough to go for the pin
+export const FINISHER_DURATION = 0.8; // Attacker is busy this long
+export const FINISHER_FLOURISH_DURATION = 1.5; // seconds the finisher flourish stays on screen
+
+// =============================================================================
+// JUDGES' PANEL
+// =============================================================================
+// Execution starts from a perfect 10 and takes deductions; difficulty and artistry build up from a start value
+export const JUDGING = {
+  balancedThreshold: 70, // Balance at or above this counts as clean execution
+  unbalancedDeduction: 0.1, // Execution lost per second under the balanced line
+  wobbleDeduction: 0.5, // Execution lost per second wobbling (on top)
+  fallDeduction: 1.0, // Execution lost per fall
+  startValue: 5.0, // Difficulty and artistry for a routine with nothing in it
+  moveValue: 1.0, // Difficulty per distinct move landed
+  edgeValue: 0.1, // Difficulty per second of edge work
+  jumpValue: 0.3, // Artistry per jump
+  jumpOverValue: 0.8, // Artistry per jump-over
+  comboValue: 0.8, // Artistry per move in the best combo
+} as const;
+
+// Each judge weighs the three categories differently
+export const JUDGE_PANEL = [
+  { execution: 0.5, difficulty: 0.25, artistry: 0.25 },
+  { execution: 0.25, difficulty: 0.5, artistry: 0.25 },
+  { execution: 0.25, difficulty: 0.25, artistry: 0.5 },
+] as const;
 
 // =============================================================================
 // MATCH SETTINGS
@@ -134,28 +159,127 @@ export const MIN_BALANCE_FOR_PIN = 20; // Attacker needs at least this balance
 export const MATCH_DURATION = 90; // seconds
 export const COUNTDOWN_DURATION = 3; // seconds before match starts
 export const FALL_RESET_DELAY = 1.0; // seconds before resetting after fall
+export const OVERTIME_DURATION = 30; // seconds on the clock for each sudden-death period
+export const OVERTIME_INTRO_DURATION = 2; // seconds the overtime announcement holds the action
+
+// Pin, timer and fall rules are per match - these defaults are the exhibition rules
+export const DEFAULT_MATCH_CONFIG: MatchConfig = {
+  matchDuration: MATCH_DURATION,
+  pinDuration: PIN_DURATION,
+  minBalanceForPin: MIN_BALANCE_FOR_PIN,
+  fallResetDelay: FALL_RESET_DELAY,
+  fallPenalty: SCORING.penalties.fallOff,
+  maxFalls: null,
+  pinsOnly: false,
+  overtime: false,
+  rounds: 1,
+  tagTeam: false,
+};
+
+export const MATCH_PRESETS: Record<MatchPresetId, MatchPreset> = {
+  exhibition: {
+    id: 'exhibition',
+    name: 'Exhibition',
+    description: 'The standard rules - win by pin or tap-out, or lead on points at the bell.',
+    config: DEFAULT_MATCH_CONFIG,
+  },
+  quick: {
+    id: 'quick',
+    name: 'Quick Bout',
+    description: 'A one-minute sprint with faster pins.',
+    config: { ...DEFAULT_MATCH_CONFIG, matchDuration: 60, pinDuration: 2.0 },
+  },
+  tournament: {
+    id: 'tournament',
+    name: 'Tournament',
+    description: 'Two minutes, longer pins and harsher falls - three falls and you lose, and no draws.',
+    config: {
+      ...DEFAULT_MATCH_CONFIG,
+      matchDuration: 120,
+      pinDuration: 3.5,
+      minBalanceForPin: 30,
+      fallPenalty: -150,
+      maxFalls: 3,
+      overtime: true,
+    },
+  },
+  pinsOnly: {
+    id: 'pinsOnly',
+    name: 'Pins Only',
+    description: 'No clock, no tap-outs - the match goes on until somebody gets pinned.',
+    config: { ...DEFAULT_MATCH_CONFIG, matchDuration: null, pinsOnly: true },
+  },
+};
+export const DEFAULT_MATCH_PRESET: MatchPresetId = 'exhibition';
+export const MATCH_PRESET_KEY = `${STORAGE_PREFIX}matchPreset`; // Last picked rules
+export const ROUND_OPTIONS = [1, 3, 5] as const; // Single bout, best of 3, best of 5
+export const MATCH_ROUNDS_KEY = `${STORAGE_PREFIX}matchRounds`;
+export const MATCH_TAG_TEAM_KEY = `${STORAGE_PREFIX}matchTagTeam`;
+
+// =============================================================================
+// TAG TEAM
+// =============================================================================
+export const TAG_REACH = 100; // Distance from your own end of the beam (player: left, opponent: right) to tag
+export const TAG_COOLDOWN = 3.0; // seconds a side has to wait between tags
+export const TAG_REST_BALANCE_RATE = 15; // Balance a waiting partner recovers per second
+export const TAG_REST_STAMINA_RATE = 20; // Stamina a waiting partner recovers per second
+export const TAG_APRON_OFFSET = 55; // Waiting partners stand this far past their end of the beam
 
 // =============================================================================
 // INPUT
 // =============================================================================
+// Control keys only - each move brings its own key in its registry definition
 export const KEY_BINDINGS = {
   moveLeft: 'KeyA',
   moveRight: 'KeyD',
   jump: 'KeyW',
   crouch: 'KeyS',
   grapple: 'Space',
-  pancake: 'KeyJ',
-  scissors: 'KeyK',
-  guillotine: 'KeyL',
   pin: 'KeyP',
   defend: 'ShiftLeft',
+  finisher: 'KeyF',
+  tag: 'KeyT',
+} as const;
+
+// Second player in local versus: arrow keys + numpad cluster
+export const KEY_BINDINGS_P2 = {
+  moveLeft: 'ArrowLeft',
+  moveRight: 'ArrowRight',
+  jump: 'ArrowUp',
+  crouch: 'ArrowDown',
+  grapple: 'Numpad0',
+  pin: 'Numpad5',
+  defend: 'NumpadEnter',
+  finisher: 'NumpadAdd',
+  tag: 'NumpadSubtract',
 } as const;
 
+// Gamepad buttons (standard mapping indices) - d-pad, face buttons, bumpers, triggers
+export const GAMEPAD_BUTTONS = {
+  moveLeft: [14],       // D-pad left
+  moveRight: [15],      // D-pad right
+  jump: [12, 0],        // D-pad up / A
+  crouch: [13],         // D-pad down
+  grapple: [5],         // RB
+  pin: [4],             // LB
+  defend: [6, 7],       // LT / RT
+  finisher: [10, 11],   // L3 / R3 (stick clicks)
+  tag: [8],             // Back / Select
+} as const;
+
+export const GAMEPAD_STICK_DEADZONE = 0.5; // Left stick travel before it counts as a direction
+
 // =============================================================================
 // AI SETTINGS
 // =============================================================================
 export const AI_UPDATE_RATE = 100; // ms between AI decisions
 export const AI_REACTION_DELAY = 200; // ms delay before AI reacts
+export const AI_COUNTER_CHANCE = 0.4; // chance the AI tries to counter an incoming move
+export const AI_CROUCH_CHANCE = 0.5; // chance per decision the AI ducks a stomp coming down on it
+export const AI_LOW_ATTACK_CHANCE = 0.3; // chance the AI crouches for a low-stance move instead of grappling
+export const AI_MASH_RATE = 5; // presses per second when mashing out of a hold
+export const AI_TAG_WEAR = 80; // balance + stamina below which the AI heads home to tag out
+export const AI_TAG_FRESHER_BY = 60; // only if its partner's balance + stamina is at least this much higher
 
 // =============================================================================
 // ANIMATION
@@ -199,6 +323,53 @@ export const ZAPPA_FIGHTER_NAMES = [
   'Brown Shoes',
 ] as const;
 
+// Each fighter's signature finisher (unlocked by a full momentum meter)
+export const SIGNATURE_FINISHERS: Record<(typeof ZAPPA_FIGHTER_NAMES)[number], string> = {
+  'Peaches': 'Peaches en Regalia',
+  'Muffin Man': 'Muffin Top Rope',
+  'Cosmik Debris': 'Cosmik Crash',
+  'Camarillo Brillo': 'Brillo Buster',
+  'Dinah-Moe Humm': 'Dinah-Moe Hammer',
+  'Montana': 'Dental Floss Drop',
+  'Inca Roads': 'Inca Roadblock',
+  'Pygmy Twylyte': 'Twylyte Zone',
+  'Zomby Woof': 'Zomby Woof Howl',
+  'Nanook': 'Nanook Rubs It',
+  'St. Alphonzo': 'Breakfast Special',
+  'Stink-Foot': 'Stink-Foot Smother',
+  'Penguin in Bondage': 'Penguin Lock',
+  'Yellow Snow': 'Yellow Snow Job',
+  'Dirty Love': 'Dirty Love Tap',
+  'Po-Jama People': 'Po-Jama Party',
+  'Titties & Beer': 'Devil\'s Bargain',
+  'Broken Hearts': 'Heartbreaker',
+  'Catholic Girls': 'Hail Mary',
+  'Bobby Brown': 'Bobby Brown Bomb',
+  'Joe\'s Garage': 'Garage Door Slam',
+  'Watermelon': 'Easter Hay Ride',
+  'Willie the Pimp': 'Willie Whip',
+  'Chunga': 'Chunga\'s Revenge',
+  'Waka/Jawaka': 'Waka Jawaka Whack',
+  'Hot Rats': 'Hot Rat Trap',
+  'Son of Orange': 'Lumber Truck',
+  'Uncle Meat': 'Meat Grinder',
+  'King Kong': 'King Kong Krush',
+  'Brown Shoes': 'Brown Shoe Shine',
+};
+
+// =============================================================================
+// REPLAYS
+// =============================================================================
+export const REPLAY_FORMAT = 'beam-brawlers-replay';
+export const REPLAY_FORMAT_VERSION = 2; // Bump when the replay file layout changes
+export const CONFIG_VERSION = 17; // Bump when gameplay tuning changes (old replays would desync)
+
+// =============================================================================
+// CONTROLS
+// =============================================================================
+export const KEY_BINDINGS_KEY = `${STORAGE_PREFIX}keyBindings`;
+export const INPUT_BUFFER_WINDOW = 100; // ms a press stays buffered waiting for a step that can use it
+
 // =============================================================================
 // AUDIO SETTINGS
 // =============================================================================
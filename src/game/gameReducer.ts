@@ -3,21 +3,40 @@
  * Main state management for the game
  */
 
-import type { GameState, GameAction, InputState, MoveType } from './types';
+import type {
+  ActiveMove,
+  FacingDirection,
+  GameState,
+  GameAction,
+  Fighter,
+  FighterInputs,
+  InputState,
+  MoveResult,
+  MoveType,
+} from './types';
 import {
   GRAPPLE_RANGE,
-  MOVE_REQUIREMENTS,
-  MOVE_TIMINGS,
   CALLOUT_DURATION,
   STOMP_DAMAGE,
   STOMP_STUN_DURATION,
   STOMP_POINTS,
   JUMP_OVER_BONUS,
   FIGHTER_WIDTH,
+  MOMENTUM_GAINS,
+  MOMENTUM_LOSSES,
+  FINISHER_POINTS,
+  FINISHER_STUN_DURATION,
+  FINISHER_DURATION,
+  EDGE_STOMP_POINTS,
+  WHIFF_RECOVERY_DURATION,
+  OVERTIME_DURATION,
+  OVERTIME_INTRO_DURATION,
+  TAG_COOLDOWN,
 } from './constants';
 import {
   createInitialState,
   resetMatch,
+  startNextRound,
   transitionScene,
   updateMatchTimer,
   updateCountdown,
@@ -25,13 +44,19 @@ import {
   attemptPin,
   checkTimeout,
   checkPinVictory,
+  checkSubmissionVictory,
+  checkFallsVictory,
+  checkOvertimeVictory,
   endMatch,
   setCallout,
   clearCallout,
+  getCalloutAge,
   updateFighters,
   setGrappling,
   getResetPositions,
   getFallPenalty,
+  getFighterLabel,
+  applyCrowdMomentum,
 } from './logic/gameState';
 import {
   createFighter,
@@ -43,16 +68,23 @@ import {
   isInAir,
   moveFighter,
   moveInAir,
+  driftInAir,
   setIdle,
   regenerate,
   applyMovementCosts,
   applyGrappleCosts,
   transitionState,
   updateStateTimer,
+  updateCrouch,
   updateBalance,
+  drainBalance,
   updateStamina,
+  updateMomentum,
   awardScore,
   startFalling,
+  loseFooting,
+  climbStep,
+  climbUp,
   resetAfterFall,
   updateFacing,
   startJump,
@@ -63,9 +95,26 @@ import {
 } from './logic/fighter';
 import {
   validateMove,
+  canCounter,
   executeMove,
+  getEscapeGain,
+  getSubmissionGain,
+  getHoldProgress,
+  getHoldEscapePoints,
   getMoveName,
+  isInComboWindow,
+  isAerialMove,
+  getAerialLunge,
+  checkAerialHit,
+  calculateMoveScore,
+  canWhiff,
+  getWhiffPenalty,
 } from './logic/moves';
+import { canPerformFinisher, getSignatureFinisher } from './logic/finishers';
+import { getJudgesDecision, recordJump, recordJumpOver, recordMove, updateJudging } from './logic/judging';
+import { canTag, getNextPartner, restOnBench, sendToBench, tagIn } from './logic/tagTeam';
+import { getFighter, getFighters, getTeamFalls, setFighter } from './logic/teams';
+import { getMoveDefinition } from './logic/moveRegistry';
 
 /**
  * Main game reducer
@@ -73,7 +122,7 @@ import {
 export function gameReducer(state: GameState, action: GameAction): GameState {
   switch (action.type) {
     case 'START_GAME':
-      return resetMatch(state);
+      return resetMatch(state, action.seed, action.mode, action.config);
 
     case 'SHOW_HOW_TO_PLAY':
       return transitionScene(state, 'HowToPlay');
@@ -81,6 +130,18 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
     case 'HIDE_HOW_TO_PLAY':
       return transitionScene(state, 'Title');
 
+    case 'SHOW_CONTROLS':
+      return transitionScene(state, 'Controls');
+
+    case 'HIDE_CONTROLS':
+      return transitionScene(state, 'Title');
+
+    case 'SHOW_RULES':
+      return transitionScene(state, 'Rules');
+
+    case 'HIDE_RULES':
+      return transitionScene(state, 'Title');
+
     case 'PAUSE':
       if (state.scene === 'Playing') {
         return { ...state, isPaused: true, scene: 'Paused' };
@@ -94,10 +155,13 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
       return state;
 
     case 'RESTART':
-      return resetMatch(state);
+      return resetMatch(state, action.seed);
+
+    case 'NEXT_ROUND':
+      return startNextRound(state);
 
     case 'UPDATE':
-      return updateGame(state, action.deltaTime, action.input);
+      return updateGame(state, action.deltaTime, action.inputs);
 
     case 'ATTEMPT_GRAPPLE':
       return handleGrappleAttempt(state, action.initiator);
@@ -111,6 +175,9 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
     case 'ATTEMPT_PIN':
       return attemptPin(state, action.attacker);
 
+    case 'PERFORM_FINISHER':
+      return handlePerformFinisher(state, action.fighter);
+
     case 'FIGHTER_FELL':
       return handleFighterFell(state, action.fighter);
 
@@ -123,6 +190,9 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
     case 'JUMPED_OVER':
       return handleJumpedOver(state, action.fighter);
 
+    case 'TAG':
+      return handleTag(state, action.fighter);
+
     case 'RESET_POSITIONS':
       return resetPositions(state);
 
@@ -135,6 +205,15 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
     case 'END_MATCH':
       return endMatch(state, action.winner, action.reason);
 
+    case 'START_REPLAY':
+      return transitionScene(state, 'Replay');
+
+    case 'STOP_REPLAY':
+      if (state.scene === 'Replay') {
+        return transitionScene(state, state.result ? 'GameOver' : 'Title');
+      }
+      return state;
+
     default:
       return state;
   }
@@ -143,9 +222,9 @@ export function gameReducer(state: GameState, action: GameAction): GameState {
 /**
  * Main update function - called every frame
  */
-function updateGame(state: GameState, deltaTime: number, input: InputState): GameState {
-  // Handle countdown
-  if (state.scene === 'Countdown') {
+function updateGame(state: GameState, deltaTime: number, inputs: FighterInputs): GameState {
+  // Handle countdown (and the overtime announcement)
+  if (state.scene === 'Countdown' || state.scene === 'Overtime') {
     return updateCountdown(state, deltaTime);
   }
 
@@ -159,15 +238,40 @@ function updateGame(state: GameState, deltaTime: number, input: InputState): Gam
   // Update match timer
   newState = updateMatchTimer(newState, deltaTime);
 
-  // Check for timeout
+  // In sudden death, the first points scored decide it
+  const overtimeResult = checkOvertimeVictory(newState);
+  if (overtimeResult) {
+    return endMatch(newState, overtimeResult.winner, 'overtime');
+  }
+
+  // Check for timeout - a tie goes to sudden death when the rules call for it,
+  // otherwise the judges' panel decides
   const timeoutResult = checkTimeout(newState);
   if (timeoutResult) {
+    if (timeoutResult.winner === 'draw' && newState.config.overtime) {
+      return startOvertime(newState);
+    }
+    if (timeoutResult.winner === 'draw') {
+      const decision = getJudgesDecision(newState);
+      if (decision !== 'draw') {
+        return endMatch(newState, decision, 'decision');
+      }
+    }
     return endMatch(newState, timeoutResult.winner, 'timeout');
   }
 
+  // Play out the grapple move in progress (reads last step's defend state)
+  newState = updateActiveMove(newState, deltaTime, inputs);
+
+  // A submission hold that wore the defender all the way down ends it by tap-out
+  const submissionResult = checkSubmissionVictory(newState);
+  if (submissionResult) {
+    return endMatch(newState, submissionResult.winner, 'surrender');
+  }
+
   // Update fighters
-  let player = newState.player;
-  let opponent = newState.opponent;
+  let player = getFighter(newState, 'player');
+  let opponent = getFighter(newState, 'opponent');
 
   // Update state timers
   player = updateStateTimer(player, deltaTime);
@@ -177,64 +281,98 @@ function updateGame(state: GameState, deltaTime: number, input: InputState): Gam
   const playerWasInAir = isInAir(player);
   const opponentWasInAir = isInAir(opponent);
   
+  // Aerial lunges carry the attacker along
+  player = driftInAir(player, player.facing, getAerialLunge(player), deltaTime);
+  opponent = driftInAir(opponent, opponent.facing, getAerialLunge(opponent), deltaTime);
+  
   player = updateJumpPhysics(player, deltaTime);
   opponent = updateJumpPhysics(opponent, deltaTime);
 
-  // Check for jump-over (player jumping over opponent)
-  if (playerWasInAir && !player.hasJumpedOver && isHighEnoughToJumpOver(player)) {
-    // Check if we crossed over opponent
-    const playerMovingRight = player.facing === 'right';
-    const crossedOver = playerMovingRight 
-      ? player.x > opponent.x && newState.player.x <= opponent.x
-      : player.x < opponent.x && newState.player.x >= opponent.x;
-    
-    if (crossedOver || (Math.abs(player.x - opponent.x) < FIGHTER_WIDTH && isHighEnoughToJumpOver(player))) {
-      player = markJumpedOver(player);
-      player = awardScore(player, JUMP_OVER_BONUS);
-      newState = setCallout(newState, 'JUMP OVER!', `+${JUMP_OVER_BONUS}`);
-    }
+  // Check for jump-over (either fighter clearing the other)
+  const playerJumpedOver = playerWasInAir && hasClearedFighter(player, getFighter(newState, 'player').x, opponent);
+  const opponentJumpedOver = opponentWasInAir && hasClearedFighter(opponent, getFighter(newState, 'opponent').x, player);
+  if (playerJumpedOver) {
+    newState = handleJumpedOver(updateFighters(newState, player, opponent), 'player');
+    ({ player, opponent } = getFighters(newState));
+  }
+  if (opponentJumpedOver) {
+    newState = handleJumpedOver(updateFighters(newState, player, opponent), 'opponent');
+    ({ player, opponent } = getFighters(newState));
+  }
+
+  // Aerial attacks resolve as they touch down (instead of a stomp)
+  const playerAerialLanded = playerWasInAir && !isInAir(player) && isAerialMove(player.currentMove);
+  const opponentAerialLanded = opponentWasInAir && !isInAir(opponent) && isAerialMove(opponent.currentMove);
+  if (playerAerialLanded) {
+    newState = landAerial(updateFighters(newState, player, opponent), 'player');
+    ({ player, opponent } = getFighters(newState));
+  }
+  if (opponentAerialLanded) {
+    newState = landAerial(updateFighters(newState, player, opponent), 'opponent');
+    ({ player, opponent } = getFighters(newState));
   }
 
   // Check for stomp (landing on opponent)
-  if (playerWasInAir && !isInAir(player) && isAboveFighter({ ...player, y: -1 }, opponent)) {
+  if (
+    playerWasInAir &&
+    !playerAerialLanded &&
+    !isInAir(player) &&
+    opponent.state === 'Hanging' &&
+    isAboveFighter({ ...player, y: -1 }, opponent)
+  ) {
+    // Player stomped opponent's fingers off the edge!
+    player = awardScore(player, EDGE_STOMP_POINTS);
+    player = updateMomentum(player, MOMENTUM_GAINS.stomp);
+    opponent = startFalling(opponent, newState.config.fallResetDelay);
+    newState = setCallout(newState, 'EDGE STOMP!', `+${EDGE_STOMP_POINTS}`);
+  } else if (
+    playerWasInAir &&
+    !playerAerialLanded &&
+    !isInAir(player) &&
+    isAboveFighter({ ...player, y: -1 }, opponent)
+  ) {
     // Player stomped opponent!
     player = awardScore(player, STOMP_POINTS);
+    player = updateMomentum(player, MOMENTUM_GAINS.stomp);
     opponent = updateBalance(opponent, -STOMP_DAMAGE);
     opponent = transitionState(opponent, 'Stunned', STOMP_STUN_DURATION);
     newState = setCallout(newState, 'STOMP!', `+${STOMP_POINTS}`);
   }
   
-  if (opponentWasInAir && !isInAir(opponent) && isAboveFighter({ ...opponent, y: -1 }, player)) {
+  if (
+    opponentWasInAir &&
+    !opponentAerialLanded &&
+    !isInAir(opponent) &&
+    player.state === 'Hanging' &&
+    isAboveFighter({ ...opponent, y: -1 }, player)
+  ) {
+    // Opponent stomped player's fingers off the edge!
+    opponent = awardScore(opponent, EDGE_STOMP_POINTS);
+    opponent = updateMomentum(opponent, MOMENTUM_GAINS.stomp);
+    player = startFalling(player, newState.config.fallResetDelay);
+    newState = setCallout(newState, 'EDGE STOMP!', `${getFighterLabel(newState, 'opponent')} +${EDGE_STOMP_POINTS}`);
+  } else if (
+    opponentWasInAir &&
+    !opponentAerialLanded &&
+    !isInAir(opponent) &&
+    isAboveFighter({ ...opponent, y: -1 }, player)
+  ) {
     // Opponent stomped player!
     opponent = awardScore(opponent, STOMP_POINTS);
+    opponent = updateMomentum(opponent, MOMENTUM_GAINS.stomp);
     player = updateBalance(player, -STOMP_DAMAGE);
     player = transitionState(player, 'Stunned', STOMP_STUN_DURATION);
-    newState = setCallout(newState, 'STOMP!', `AI +${STOMP_POINTS}`);
+    newState = setCallout(newState, 'STOMP!', `${getFighterLabel(newState, 'opponent')} +${STOMP_POINTS}`);
   }
 
-  // Handle player input
-  if (canAct(player) && !isInAir(player)) {
-    // Movement (ground only for full control)
-    if (input.moveLeft && !input.moveRight) {
-      player = moveFighter(player, 'left', deltaTime);
-      player = applyMovementCosts(player, deltaTime);
-    } else if (input.moveRight && !input.moveLeft) {
-      player = moveFighter(player, 'right', deltaTime);
-      player = applyMovementCosts(player, deltaTime);
-    } else if (player.state === 'Moving') {
-      player = setIdle(player);
-    }
+  // Hanging fighters climb with alternating presses - or drop once their grip runs out
+  newState = updateHanging(updateFighters(newState, player, opponent), 'player', inputs.player);
+  newState = updateHanging(newState, 'opponent', inputs.opponent);
+  ({ player, opponent } = getFighters(newState));
 
-    // Defense
-    player = { ...player, isDefending: input.defend };
-  } else if (isInAir(player)) {
-    // Air movement (reduced control)
-    if (input.moveLeft && !input.moveRight) {
-      player = moveInAir(player, 'left', deltaTime);
-    } else if (input.moveRight && !input.moveLeft) {
-      player = moveInAir(player, 'right', deltaTime);
-    }
-  }
+  // Handle input - both fighters go through the same movement, defense and cost logic
+  player = applyFighterInput(player, inputs.player, deltaTime);
+  opponent = applyFighterInput(opponent, inputs.opponent, deltaTime);
 
   // Regeneration (only when grounded)
   if (!isInAir(player)) {
@@ -254,23 +392,39 @@ function updateGame(state: GameState, deltaTime: number, input: InputState): Gam
   player = updateFacing(player, opponent.x);
   opponent = updateFacing(opponent, player.x);
 
-  // Check for falls (balance = 0 or off beam)
+  // Check for falls (balance = 0 or off beam) - near an edge the fighter grabs on instead
   if (!isOnBeam(player) || player.balance <= 0) {
-    if (player.state !== 'Falling') {
-      player = startFalling(player);
+    if (player.state !== 'Falling' && player.state !== 'Hanging') {
+      player = loseFooting(player, newState.config.fallResetDelay);
     }
   }
   if (!isOnBeam(opponent) || opponent.balance <= 0) {
-    if (opponent.state !== 'Falling') {
-      opponent = startFalling(opponent);
+    if (opponent.state !== 'Falling' && opponent.state !== 'Hanging') {
+      opponent = loseFooting(opponent, newState.config.fallResetDelay);
     }
   }
 
+  // The judges watch every step of live play
+  player = updateJudging(player, deltaTime);
+  opponent = updateJudging(opponent, deltaTime);
+
   newState = updateFighters(newState, player, opponent);
 
+  // Nobody stays tied up with a fighter dangling off the beam
+  if (newState.isGrappling && (player.state === 'Hanging' || opponent.state === 'Hanging')) {
+    newState = breakGrapple(newState);
+  }
+
+  // The crowd gets behind whoever is trailing
+  newState = applyCrowdMomentum(newState, deltaTime);
+
+  // Waiting tag partners rest up while the tag cooldowns run down
+  newState = updateBench(newState, deltaTime);
+
   // Update pin progress
   if (newState.pinningFighter) {
-    newState = updatePinProgress(newState, deltaTime);
+    const pinnedId = newState.pinningFighter === 'player' ? 'opponent' : 'player';
+    newState = updatePinProgress(newState, deltaTime, inputs[pinnedId].defend);
     
     // Check for pin victory
     const pinResult = checkPinVictory(newState);
@@ -280,16 +434,72 @@ function updateGame(state: GameState, deltaTime: number, input: InputState): Gam
   }
 
   // Clear old callouts
-  if (newState.currentCallout) {
-    const calloutAge = (Date.now() - newState.currentCallout.timestamp) / 1000;
-    if (calloutAge > CALLOUT_DURATION) {
-      newState = clearCallout(newState);
-    }
+  if (newState.currentCallout && getCalloutAge(newState) > CALLOUT_DURATION) {
+    newState = clearCallout(newState);
   }
 
   return newState;
 }
 
+/**
+ * Apply held movement/defense input to a fighter
+ */
+function applyFighterInput(fighter: Fighter, input: InputState, deltaTime: number): Fighter {
+  if (canAct(fighter) && !isInAir(fighter)) {
+    // Crouch (held, from a neutral stance)
+    fighter = updateCrouch(fighter, input.crouch);
+
+    // Movement (ground only for full control - slower while crouched)
+    if (input.moveLeft && !input.moveRight) {
+      fighter = moveFighter(fighter, 'left', deltaTime);
+      fighter = applyMovementCosts(fighter, deltaTime);
+    } else if (input.moveRight && !input.moveLeft) {
+      fighter = moveFighter(fighter, 'right', deltaTime);
+      fighter = applyMovementCosts(fighter, deltaTime);
+    } else if (fighter.state === 'Moving') {
+      fighter = setIdle(fighter);
+    }
+
+    // Defense
+    return { ...fighter, isDefending: input.defend };
+  }
+
+  if (isInAir(fighter)) {
+    // Air movement (reduced control)
+    if (input.moveLeft && !input.moveRight) {
+      return moveInAir(fighter, 'left', deltaTime);
+    } else if (input.moveRight && !input.moveLeft) {
+      return moveInAir(fighter, 'right', deltaTime);
+    }
+  }
+
+  return fighter;
+}
+
+/**
+ * One step of hanging off the edge - a press in the other direction from the last
+ * one pulls the fighter up, and when the hang timer runs out they drop
+ */
+function updateHanging(state: GameState, fighterId: 'player' | 'opponent', input: InputState): GameState {
+  let fighter = getFighter(state, fighterId);
+  if (fighter.state !== 'Hanging') return state;
+
+  let callout: string | null = null;
+  if (fighter.stateTimer <= 0) {
+    fighter = startFalling(fighter, state.config.fallResetDelay);
+  } else {
+    const step = input.moveLeft && !input.moveRight ? 'left' : input.moveRight && !input.moveLeft ? 'right' : null;
+    fighter = climbStep(fighter, step);
+    if (fighter.climbProgress >= 1) {
+      fighter = climbUp(fighter);
+      callout = `${getFighterLabel(state, fighterId)} climbed back up!`;
+    }
+  }
+
+  const newState = setFighter(state, fighterId, fighter);
+  return callout ? setCallout(newState, 'SAVED!', callout) : newState;
+}
+
 /**
  * Handle grapple attempt
  */
@@ -297,13 +507,13 @@ function handleGrappleAttempt(
   state: GameState,
   initiator: 'player' | 'opponent'
 ): GameState {
-  const attacker = initiator === 'player' ? state.player : state.opponent;
-  const defender = initiator === 'player' ? state.opponent : state.player;
+  const attacker = getFighter(state, initiator);
+  const defender = getFighter(state, initiator === 'player' ? 'opponent' : 'player');
 
   // Validate grapple attempt
   if (!canGrapple(attacker)) return state;
   if (!areInGrappleRange(attacker, defender, GRAPPLE_RANGE)) return state;
-  if (defender.state === 'Falling') return state;
+  if (defender.state === 'Falling' || defender.state === 'Hanging') return state;
 
   // Both enter grapple state
   const newAttacker = transitionState(attacker, 'GrappleEngaged');
@@ -323,8 +533,8 @@ function handleGrappleAttempt(
  * Break grapple (both return to idle)
  */
 function breakGrapple(state: GameState): GameState {
-  let player = state.player;
-  let opponent = state.opponent;
+  let player = getFighter(state, 'player');
+  let opponent = getFighter(state, 'opponent');
 
   if (player.state === 'GrappleEngaged') {
     player = transitionState(player, 'Idle');
@@ -339,147 +549,512 @@ function breakGrapple(state: GameState): GameState {
 }
 
 /**
- * Handle move execution
+ * Handle move execution - the move starts here and plays out in updateActiveMove
  */
 function handleExecuteMove(
   state: GameState,
   fighterId: 'player' | 'opponent',
   move: MoveType
 ): GameState {
-  const attacker = fighterId === 'player' ? state.player : state.opponent;
-  const defender = fighterId === 'player' ? state.opponent : state.player;
+  const attacker = getFighter(state, fighterId);
+  const defender = getFighter(state, fighterId === 'player' ? 'opponent' : 'player');
 
-  // Validate move
+  // Validate move - a free fighter who can't pull it off whiffs instead
+  // (mid-move the defender's answer is the counter, so nothing happens then)
   const validation = validateMove(attacker, defender, move);
   if (!validation.canExecute) {
-    return state;
+    return !state.activeMove && canWhiff(attacker) ? whiffMove(state, fighterId, move, validation.reason) : state;
   }
 
-  // Get move requirements and apply stamina cost
-  const requirements = MOVE_REQUIREMENTS[move];
-  const timing = MOVE_TIMINGS[move];
+  // Get move definition and apply stamina cost
+  const { requirements, timing, aerial } = getMoveDefinition(move);
+
+  if (aerial) {
+    return launchAerial(state, fighterId, move);
+  }
   
   let newAttacker = updateStamina(attacker, -requirements.staminaCost);
+  if (!isInComboWindow(attacker, state.elapsedTime)) {
+    newAttacker = { ...newAttacker, comboCount: 0 };
+  }
   newAttacker = transitionState(newAttacker, 'ExecutingMove', timing.duration);
   newAttacker = { ...newAttacker, currentMove: move };
 
-  // Check if defender is countering
-  const wasCountered = defender.isDefending && Math.random() < 0.4; // 40% counter chance if defending
+  const newState = fighterId === 'player'
+    ? updateFighters(state, newAttacker, defender)
+    : updateFighters(state, defender, newAttacker);
+
+  return {
+    ...newState,
+    activeMove: {
+      attacker: fighterId,
+      move,
+      elapsed: 0,
+      startTime: state.elapsedTime,
+      counterAttempted: false,
+      holding: false,
+      escapeProgress: 0,
+      defendHeld: false,
+      submissionProgress: 0,
+    },
+  };
+}
+
+/**
+ * A move key pressed with nothing to grab - it costs stamina, breaks any grapple
+ * and leaves the fighter recovering
+ */
+function whiffMove(
+  state: GameState,
+  fighterId: 'player' | 'opponent',
+  move: MoveType,
+  reason: string = 'Missed'
+): GameState {
+  const newState = state.isGrappling ? breakGrapple(state) : state;
+  let fighter = updateStamina(getFighter(newState, fighterId), -getWhiffPenalty());
+  fighter = { ...transitionState(fighter, 'Recovering', WHIFF_RECOVERY_DURATION), isDefending: false };
+
+  const moveName = getMoveName(move).toUpperCase();
+  return setCallout(
+    setFighter(newState, fighterId, fighter),
+    'WHIFF!',
+    `${getFighterLabel(state, fighterId)} whiffed the ${moveName}! (${reason})`
+  );
+}
+
+/**
+ * Start an aerial mid-jump - it changes the jump's arc and resolves on landing
+ */
+function launchAerial(state: GameState, fighterId: 'player' | 'opponent', move: MoveType): GameState {
+  const { requirements, aerial } = getMoveDefinition(move);
+  const attacker = getFighter(state, fighterId);
+
+  let newAttacker = updateStamina(attacker, -requirements.staminaCost);
+  if (!isInComboWindow(attacker, state.elapsedTime)) {
+    newAttacker = { ...newAttacker, comboCount: 0 };
+  }
+  newAttacker = {
+    ...newAttacker,
+    currentMove: move,
+    velocityY: aerial?.launchVelocityY ?? newAttacker.velocityY,
+  };
+
+  return setFighter(state, fighterId, newAttacker);
+}
+
+/**
+ * An aerial touched down - it connects if the opponent is inside its hit range,
+ * otherwise the attacker crashes onto the beam. Either way the landing costs balance.
+ */
+function landAerial(state: GameState, attackerId: 'player' | 'opponent'): GameState {
+  const defenderId = attackerId === 'player' ? 'opponent' : 'player';
+  let attacker = getFighter(state, attackerId);
+  let defender = getFighter(state, defenderId);
+  const move = attacker.currentMove;
+  if (move === null) return state;
+
+  const { aerial, timing, recovery } = getMoveDefinition(move);
+  const moveName = getMoveName(move).toUpperCase();
+
+  if (!aerial || !checkAerialHit(move, attacker, defender)) {
+    const balanceCost = (aerial?.landingBalanceCost ?? 0) + (aerial?.whiffBalanceCost ?? 0);
+    attacker = drainBalance(attacker, balanceCost);
+    attacker = { ...transitionState(attacker, 'Recovering', aerial?.whiffRecovery ?? 0), currentMove: null };
+
+    const newState = attackerId === 'player'
+      ? updateFighters(state, attacker, defender)
+      : updateFighters(state, defender, attacker);
+    return setCallout(newState, 'WHIFF!', `${getFighterLabel(state, attackerId)} missed the ${moveName}!`);
+  }
+
+  const { points, bonuses } = calculateMoveScore(move, attacker, state.elapsedTime);
+  attacker = awardScore(attacker, points);
+  attacker = updateMomentum(attacker, MOMENTUM_GAINS.move);
+  attacker = {
+    ...drainBalance(attacker, aerial.landingBalanceCost),
+    comboCount: attacker.comboCount + 1,
+    lastMoveTime: state.elapsedTime,
+  };
+  attacker = recordMove(attacker, move);
+  attacker = { ...transitionState(attacker, 'Recovering', recovery.success), currentMove: null };
+  defender = { ...transitionState(defender, 'Stunned', timing.stunDuration), isDefending: false };
+
+  const newState = attackerId === 'player'
+    ? updateFighters(state, attacker, defender)
+    : updateFighters(state, defender, attacker);
+  return setCallout(newState, moveName + '!', getScoreSubtext(points, bonuses));
+}
+
+/**
+ * Callout subtext for points scored, with any bonuses that applied
+ */
+function getScoreSubtext(points: number, bonuses: MoveResult['bonuses']): string {
+  let subtext = `+${points}`;
+  if (bonuses.balance) subtext += ' (Balance Bonus!)';
+  if (bonuses.edge) subtext += ' (Edge Risk!)';
+  if (bonuses.combo > 0) subtext += ' (Combo!)';
+  return subtext;
+}
+
+/**
+ * Advance the move in progress: a fresh defend press inside the counter window
+ * reverses it, otherwise it lands (or a hold locks in) when the window closes
+ */
+function updateActiveMove(state: GameState, deltaTime: number, inputs: FighterInputs): GameState {
+  const activeMove = state.activeMove;
+  if (!activeMove) return state;
+
+  const defenderId = activeMove.attacker === 'player' ? 'opponent' : 'player';
+  const attacker = getFighter(state, activeMove.attacker);
+  const defender = getFighter(state, defenderId);
+
+  // Interrupted (fall, reset) - nothing left to resolve, let a held defender go
+  if (
+    attacker.state !== 'ExecutingMove' ||
+    attacker.currentMove !== activeMove.move ||
+    defender.state === 'Falling' ||
+    defender.state === 'Hanging'
+  ) {
+    const released = defender.state === 'Held' ? transitionState(defender, 'Idle') : defender;
+    const newState = defenderId === 'player'
+      ? updateFighters(state, released, attacker)
+      : updateFighters(state, attacker, released);
+    return { ...newState, activeMove: null };
+  }
+
+  if (activeMove.holding) {
+    return updateHold(state, activeMove, deltaTime, inputs[defenderId]);
+  }
+
+  const definition = getMoveDefinition(activeMove.move);
+  const { timing } = definition;
+
+  // Holding defend from before doesn't count - it has to be pressed now
+  const defendPressed =
+    inputs[defenderId].defend && !defender.isDefending && canAct(defender) && !isInAir(defender);
+  if (defendPressed && !activeMove.counterAttempted) {
+    const progress = activeMove.elapsed / timing.duration;
+    if (canCounter(activeMove.move, progress, defender.stamina, true)) {
+      return reverseMove(state, activeMove);
+    }
+  }
+
+  const elapsed = activeMove.elapsed + deltaTime;
+  const counterAttempted = activeMove.counterAttempted || defendPressed;
+
+  // Land once the window has closed (or the move is about to finish)
+  if (elapsed >= timing.counterWindow || attacker.stateTimer <= deltaTime) {
+    if (definition.hold && attacker.stateTimer > deltaTime) {
+      return startHold(state, { ...activeMove, elapsed, counterAttempted }, inputs[defenderId]);
+    }
+    return landMove({ ...state, activeMove: null }, activeMove);
+  }
+
+  return { ...state, activeMove: { ...activeMove, elapsed, counterAttempted } };
+}
+
+/**
+ * A hold's counter window closed - the defender is locked in and has to mash out
+ */
+function startHold(state: GameState, activeMove: ActiveMove, defenderInput: InputState): GameState {
+  const defenderId = activeMove.attacker === 'player' ? 'opponent' : 'player';
+  const defender = { ...transitionState(getFighter(state, defenderId), 'Held'), isDefending: false };
+
+  let newState = setFighter(state, defenderId, defender);
+  newState = {
+    ...newState,
+    activeMove: {
+      ...activeMove,
+      holding: true,
+      escapeProgress: 0,
+      defendHeld: defenderInput.defend,
+      submissionProgress: 0,
+    },
+  };
+
+  const moveName = getMoveName(activeMove.move).toUpperCase();
+  return setCallout(newState, moveName + '!', `${getFighterLabel(state, defenderId)}: mash DEFEND to escape!`);
+}
+
+/**
+ * One step of a hold: drain the defender's balance and fill their escape meter
+ * from mash presses (faster with more stamina). Submission holds also fill the
+ * submission meter while the defender is critically weak.
+ */
+function updateHold(
+  state: GameState,
+  activeMove: ActiveMove,
+  deltaTime: number,
+  defenderInput: InputState
+): GameState {
+  const defenderId = activeMove.attacker === 'player' ? 'opponent' : 'player';
+  const attacker = getFighter(state, activeMove.attacker);
+  const { timing, hold } = getMoveDefinition(activeMove.move);
+
+  const defender = drainBalance(getFighter(state, defenderId), timing.balanceDrainRate * deltaTime);
+  const elapsed = activeMove.elapsed + deltaTime;
+
+  const mashed = defenderInput.defend && !activeMove.defendHeld;
+  let escapeProgress = activeMove.escapeProgress - (hold?.escapeDecay ?? 0) * deltaTime;
+  if (mashed) {
+    escapeProgress += getEscapeGain(activeMove.move, defender.stamina);
+  }
+  escapeProgress = Math.min(1, Math.max(0, escapeProgress));
+  const submissionGain = state.config.pinsOnly ? 0 : getSubmissionGain(activeMove.move, defender, deltaTime);
+  const submissionProgress = Math.min(1, activeMove.submissionProgress + submissionGain);
+
+  const newState = defenderId === 'player'
+    ? updateFighters(state, defender, attacker)
+    : updateFighters(state, attacker, defender);
+  const updatedMove = { ...activeMove, elapsed, escapeProgress, defendHeld: defenderInput.defend, submissionProgress };
+
+  // Couldn't get free in time - the defender taps out (the match ends on this)
+  if (submissionProgress >= 1) {
+    const moveName = getMoveName(activeMove.move).toUpperCase();
+    return setCallout(
+      { ...newState, activeMove: updatedMove },
+      'TAP OUT!',
+      `${getFighterLabel(state, defenderId)} submits to the ${moveName}!`
+    );
+  }
+
+  // Drained off the beam, or held to the end - the move lands
+  if (defender.balance <= 0 || attacker.stateTimer <= deltaTime) {
+    return landMove({ ...newState, activeMove: null }, updatedMove);
+  }
 
-  // Calculate balance drain for scissors
-  let defenderBalanceAfter = defender.balance;
-  if (move === 'scissors' && !wasCountered) {
-    const scissorsTiming = MOVE_TIMINGS.scissors;
-    defenderBalanceAfter = Math.max(0, defender.balance - scissorsTiming.balanceDrainRate);
+  if (escapeProgress >= 1) {
+    return escapeHold(newState, updatedMove);
   }
 
-  // Execute the move
+  return { ...newState, activeMove: updatedMove };
+}
+
+/**
+ * The defender mashed free - the hold ends early with partial points
+ */
+function escapeHold(state: GameState, activeMove: ActiveMove): GameState {
+  const defenderId = activeMove.attacker === 'player' ? 'opponent' : 'player';
+  const { recovery } = getMoveDefinition(activeMove.move);
+  const points = getHoldEscapePoints(activeMove.move, getHoldProgress(activeMove.move, activeMove.elapsed));
+
+  let attacker = awardScore(getFighter(state, activeMove.attacker), points);
+  attacker = { ...transitionState(attacker, 'Recovering', recovery.success), currentMove: null };
+  const defender = transitionState(getFighter(state, defenderId), 'Idle');
+
+  let newState = activeMove.attacker === 'player'
+    ? updateFighters(state, attacker, defender)
+    : updateFighters(state, defender, attacker);
+  newState = setGrappling({ ...newState, activeMove: null }, false, null);
+
+  const moveName = getMoveName(activeMove.move).toUpperCase();
+  return setCallout(newState, 'ESCAPED!', `${getFighterLabel(state, defenderId)} broke the ${moveName}! +${points}`);
+}
+
+/**
+ * Defender countered in time - the attacker is stunned
+ */
+function reverseMove(state: GameState, activeMove: ActiveMove): GameState {
+  const defenderId = activeMove.attacker === 'player' ? 'opponent' : 'player';
+  const attacker = getFighter(state, activeMove.attacker);
+  const defender = getFighter(state, defenderId);
+
+  const result = executeMove(activeMove.move, attacker, defender, activeMove.startTime, true);
+  const newAttacker = {
+    ...transitionState(updateMomentum(attacker, -MOMENTUM_LOSSES.countered), 'Stunned', result.attackerRecovery),
+    currentMove: null,
+  };
+
+  let newState = activeMove.attacker === 'player'
+    ? updateFighters(state, newAttacker, defender)
+    : updateFighters(state, defender, newAttacker);
+  newState = { ...newState, activeMove: null };
+
+  const moveName = getMoveName(activeMove.move).toUpperCase();
+  return setCallout(newState, 'REVERSAL!', `${getFighterLabel(state, defenderId)} countered the ${moveName}!`);
+}
+
+/**
+ * The counter window closed - apply the move's effects
+ */
+function landMove(state: GameState, activeMove: ActiveMove): GameState {
+  const defenderId = activeMove.attacker === 'player' ? 'opponent' : 'player';
+  let attacker = getFighter(state, activeMove.attacker);
+  const defender = getFighter(state, defenderId);
+  const { timing, hold } = getMoveDefinition(activeMove.move);
+
+  // Calculate balance drain (holds have already drained theirs while held)
+  const drainedDefender = hold ? defender : drainBalance(defender, timing.balanceDrainRate);
+
   const result = executeMove(
-    move,
-    newAttacker,
+    activeMove.move,
+    attacker,
     defender,
-    Date.now(),
-    wasCountered,
-    defenderBalanceAfter
+    activeMove.startTime,
+    false,
+    drainedDefender.balance
   );
 
-  // Apply results
+  // Award points and momentum, update combo
+  attacker = awardScore(attacker, result.pointsAwarded);
+  attacker = updateMomentum(attacker, MOMENTUM_GAINS.move);
+  attacker = {
+    ...attacker,
+    comboCount: attacker.comboCount + 1,
+    lastMoveTime: activeMove.startTime,
+  };
+  attacker = recordMove(attacker, activeMove.move);
+
+  // Apply stun to defender
   let newDefender = defender;
-  
-  if (result.success) {
-    // Award points
-    newAttacker = awardScore(newAttacker, result.pointsAwarded);
-    
-    // Update combo
-    newAttacker = {
-      ...newAttacker,
-      comboCount: newAttacker.comboCount + 1,
-      lastMoveTime: Date.now(),
-    };
-
-    // Apply stun to defender
-    if (result.defenderStunDuration > 0) {
-      newDefender = transitionState(defender, 'Stunned', result.defenderStunDuration);
-    }
-    
-    // Apply balance drain for scissors
-    if (move === 'scissors') {
-      newDefender = updateBalance(newDefender, -(defender.balance - defenderBalanceAfter));
-      if (newDefender.balance <= 0) {
-        newDefender = startFalling(newDefender);
-      }
+  if (result.defenderStunDuration > 0) {
+    newDefender = transitionState(defender, 'Stunned', result.defenderStunDuration);
+  }
+
+  // Apply balance drain
+  if (timing.balanceDrainRate > 0) {
+    newDefender = { ...newDefender, balance: drainedDefender.balance };
+    if (newDefender.balance <= 0) {
+      newDefender = loseFooting(newDefender, state.config.fallResetDelay);
     }
-  } else {
-    // Move was countered - attacker has brief recovery
-    newAttacker = transitionState(newAttacker, 'Recovering', result.attackerRecovery);
   }
 
-  // Update state
-  let newState = fighterId === 'player'
-    ? updateFighters(state, newAttacker, newDefender)
-    : updateFighters(state, newDefender, newAttacker);
+  // Released from a hold that didn't stun
+  if (newDefender.state === 'Held') {
+    newDefender = transitionState(newDefender, 'Idle');
+  }
+
+  const newState = activeMove.attacker === 'player'
+    ? updateFighters(state, attacker, newDefender)
+    : updateFighters(state, newDefender, attacker);
 
   // Show callout
-  const moveName = getMoveName(move).toUpperCase();
-  if (result.success) {
-    let subtext = `+${result.pointsAwarded}`;
-    if (result.bonuses.balance) subtext += ' (Balance Bonus!)';
-    if (result.bonuses.edge) subtext += ' (Edge Risk!)';
-    if (result.bonuses.combo > 0) subtext += ' (Combo!)';
-    newState = setCallout(newState, moveName + '!', subtext);
-  } else {
-    newState = setCallout(newState, 'BLOCKED!', `${moveName} countered!`);
+  return setCallout(
+    newState,
+    getMoveName(activeMove.move).toUpperCase() + '!',
+    getScoreSubtext(result.pointsAwarded, result.bonuses)
+  );
+}
+
+/**
+ * Spend a full momentum meter on the fighter's signature finisher -
+ * it can't be countered, scores big and always stuns
+ */
+function handlePerformFinisher(state: GameState, fighterId: 'player' | 'opponent'): GameState {
+  const defenderId = fighterId === 'player' ? 'opponent' : 'player';
+  const attacker = getFighter(state, fighterId);
+  const defender = getFighter(state, defenderId);
+
+  if (state.activeMove || !canPerformFinisher(attacker, defender)) {
+    return state;
   }
 
-  return newState;
+  let newAttacker = awardScore(attacker, FINISHER_POINTS);
+  newAttacker = {
+    ...transitionState(newAttacker, 'ExecutingMove', FINISHER_DURATION),
+    momentum: 0,
+    currentMove: null,
+    isDefending: false,
+  };
+  const newDefender = {
+    ...transitionState(defender, 'Stunned', FINISHER_STUN_DURATION),
+    isDefending: false,
+  };
+
+  let newState = fighterId === 'player'
+    ? updateFighters(state, newAttacker, newDefender)
+    : updateFighters(state, newDefender, newAttacker);
+  newState = setGrappling(newState, false, null);
+
+  const name = getSignatureFinisher(attacker.name);
+  newState = { ...newState, finisher: { fighter: fighterId, name, startTime: state.elapsedTime } };
+  return setCallout(newState, `${name.toUpperCase()}!`, `${getFighterLabel(state, fighterId)} FINISHER! +${FINISHER_POINTS}`);
 }
 
 /**
- * Handle fighter falling off beam
+ * Handle fighter falling off beam - running out of falls loses the match
  */
 function handleFighterFell(
   state: GameState,
   fighterId: 'player' | 'opponent'
 ): GameState {
   const positions = getResetPositions();
-  const penalty = getFallPenalty();
+  const penalty = getFallPenalty(state.config);
 
-  let player = state.player;
-  let opponent = state.opponent;
+  let player = getFighter(state, 'player');
+  let opponent = getFighter(state, 'opponent');
 
   if (fighterId === 'player') {
-    player = resetAfterFall(player, positions.playerX, penalty);
+    player = updateMomentum(resetAfterFall(player, positions.playerX, penalty), -MOMENTUM_LOSSES.fall);
     opponent = transitionState(opponent, 'Idle'); // Reset opponent too
   } else {
-    opponent = resetAfterFall(opponent, positions.opponentX, penalty);
+    opponent = updateMomentum(resetAfterFall(opponent, positions.opponentX, penalty), -MOMENTUM_LOSSES.fall);
     player = transitionState(player, 'Idle');
   }
 
   let newState = updateFighters(state, player, opponent);
   newState = setGrappling(newState, false, null);
-  newState = { ...newState, pinProgress: 0, pinningFighter: null };
-  newState = setCallout(newState, 'FALL!', `${fighterId === 'player' ? 'YOU' : 'AI'} fell! -100`);
+  newState = { ...newState, activeMove: null, pinProgress: 0, pinningFighter: null, kickOutProgress: 0, kickOutPressHeld: false };
+  const { maxFalls } = state.config;
+  const tally = maxFalls === null || state.config.pinsOnly ? '' : ` (${getTeamFalls(newState, fighterId)}/${maxFalls})`;
+  newState = setCallout(newState, 'FALL!', `${getFighterLabel(state, fighterId)} fell! ${penalty}${tally}`);
+
+  const fallsResult = checkFallsVictory(newState);
+  if (fallsResult) {
+    return endMatch(newState, fallsResult.winner, 'falls');
+  }
+
+  // The first fall in sudden death loses it (even with no fall penalty)
+  if (state.overtimePeriod > 0) {
+    return endMatch(newState, fighterId === 'player' ? 'opponent' : 'player', 'overtime');
+  }
 
   return newState;
 }
 
+/**
+ * The bell rang on a tie - reset the fighters and hold the action for the
+ * sudden-death announcement, with a fresh, shorter clock
+ */
+function startOvertime(state: GameState): GameState {
+  const overtimePeriod = state.overtimePeriod + 1;
+  const newState: GameState = {
+    ...resetPositions(state),
+    scene: 'Overtime',
+    overtimePeriod,
+    matchTimer: OVERTIME_DURATION,
+    countdownTimer: OVERTIME_INTRO_DURATION,
+  };
+  return setCallout(
+    newState,
+    'SUDDEN DEATH!',
+    overtimePeriod > 1 ? `Overtime ${overtimePeriod} - first to score wins!` : 'First to score wins!'
+  );
+}
+
 /**
  * Reset both fighters to starting positions
  */
 function resetPositions(state: GameState): GameState {
   const positions = getResetPositions();
   
-  // Keep original names when resetting
-  let player = createFighter('player', positions.playerX, 'right', state.player.name);
-  let opponent = createFighter('opponent', positions.opponentX, 'left', state.opponent.name);
-  
-  // Preserve scores
-  player = { ...player, score: state.player.score };
-  opponent = { ...opponent, score: state.opponent.score };
-
-  let newState = updateFighters(state, player, opponent);
+  // Keep the fighter's id and name, and preserve scores, momentum, falls and what the judges have seen
+  const reset = (fighter: Fighter, x: number, facing: FacingDirection): Fighter => ({
+    ...createFighter(fighter.side, x, facing, fighter.name),
+    id: fighter.id,
+    score: fighter.score,
+    momentum: fighter.momentum,
+    falls: fighter.falls,
+    judging: fighter.judging,
+  });
+
+  let newState = updateFighters(
+    state,
+    reset(getFighter(state, 'player'), positions.playerX, 'right'),
+    reset(getFighter(state, 'opponent'), positions.opponentX, 'left')
+  );
   newState = setGrappling(newState, false, null);
-  newState = { ...newState, pinProgress: 0, pinningFighter: null };
+  newState = { ...newState, activeMove: null, pinProgress: 0, pinningFighter: null, kickOutProgress: 0, kickOutPressHeld: false };
   
   return newState;
 }
@@ -488,7 +1063,7 @@ function resetPositions(state: GameState): GameState {
  * Handle jump action
  */
 function handleJump(state: GameState, fighterId: 'player' | 'opponent'): GameState {
-  const fighter = fighterId === 'player' ? state.player : state.opponent;
+  const fighter = getFighter(state, fighterId);
   
   if (!canJump(fighter)) {
     return state;
@@ -500,13 +1075,9 @@ function handleJump(state: GameState, fighterId: 'player' | 'opponent'): GameSta
     newState = breakGrapple(newState);
   }
 
-  const jumpingFighter = startJump(fighter);
+  const jumpingFighter = recordJump(startJump(fighter));
   
-  if (fighterId === 'player') {
-    return updateFighters(newState, jumpingFighter, newState.opponent);
-  } else {
-    return updateFighters(newState, newState.player, jumpingFighter);
-  }
+  return setFighter(newState, fighterId, jumpingFighter);
 }
 
 /**
@@ -517,16 +1088,18 @@ function handleLand(
   fighterId: 'player' | 'opponent',
   stompedOpponent: boolean
 ): GameState {
-  let player = state.player;
-  let opponent = state.opponent;
+  let player = getFighter(state, 'player');
+  let opponent = getFighter(state, 'opponent');
 
   if (stompedOpponent) {
     if (fighterId === 'player') {
       player = awardScore(player, STOMP_POINTS);
+      player = updateMomentum(player, MOMENTUM_GAINS.stomp);
       opponent = updateBalance(opponent, -STOMP_DAMAGE);
       opponent = transitionState(opponent, 'Stunned', STOMP_STUN_DURATION);
     } else {
       opponent = awardScore(opponent, STOMP_POINTS);
+      opponent = updateMomentum(opponent, MOMENTUM_GAINS.stomp);
       player = updateBalance(player, -STOMP_DAMAGE);
       player = transitionState(player, 'Stunned', STOMP_STUN_DURATION);
     }
@@ -539,20 +1112,81 @@ function handleLand(
   return updateFighters(state, player, opponent);
 }
 
+/**
+ * Tag out - the next partner comes in where the fighter stood
+ * and the fighter goes to wait on the apron
+ */
+function handleTag(state: GameState, side: 'player' | 'opponent'): GameState {
+  if (!canTag(state, side)) {
+    return state;
+  }
+
+  const outgoingIndex = state.active[side];
+  const incomingIndex = getNextPartner(state, side);
+  const outgoing = state.teams[side][outgoingIndex];
+  const tagged = tagIn(state.teams[side][incomingIndex], outgoing);
+
+  const team = state.teams[side].map((fighter, index) => {
+    if (index === incomingIndex) return tagged;
+    if (index === outgoingIndex) return sendToBench(outgoing);
+    return fighter;
+  });
+  const newState: GameState = {
+    ...state,
+    teams: { ...state.teams, [side]: team },
+    active: { ...state.active, [side]: incomingIndex },
+    tagCooldown: { ...state.tagCooldown, [side]: TAG_COOLDOWN },
+  };
+  return setCallout(newState, 'TAG!', `${tagged.name} is in for ${getFighterLabel(state, side)}`);
+}
+
+/**
+ * Rest the waiting tag partners and run down the tag cooldowns
+ */
+function updateBench(state: GameState, deltaTime: number): GameState {
+  if (!state.config.tagTeam) {
+    return state;
+  }
+
+  const rest = (side: 'player' | 'opponent') =>
+    state.teams[side].map((fighter, index) => (index === state.active[side] ? fighter : restOnBench(fighter, deltaTime)));
+
+  return {
+    ...state,
+    teams: { player: rest('player'), opponent: rest('opponent') },
+    tagCooldown: {
+      player: Math.max(0, state.tagCooldown.player - deltaTime),
+      opponent: Math.max(0, state.tagCooldown.opponent - deltaTime),
+    },
+  };
+}
+
+/**
+ * Check if a jumper cleared the other fighter this step (crossed over them, or is passing right above)
+ */
+function hasClearedFighter(jumper: Fighter, previousX: number, target: Fighter): boolean {
+  if (jumper.hasJumpedOver || !isHighEnoughToJumpOver(jumper, target)) {
+    return false;
+  }
+  const crossedOver = jumper.facing === 'right'
+    ? jumper.x > target.x && previousX <= target.x
+    : jumper.x < target.x && previousX >= target.x;
+  return crossedOver || Math.abs(jumper.x - target.x) < FIGHTER_WIDTH;
+}
+
 /**
  * Handle jump-over bonus
  */
 function handleJumpedOver(state: GameState, fighterId: 'player' | 'opponent'): GameState {
-  let fighter = fighterId === 'player' ? state.player : state.opponent;
+  let fighter = getFighter(state, fighterId);
   
-  fighter = markJumpedOver(fighter);
+  fighter = recordJumpOver(markJumpedOver(fighter));
   fighter = awardScore(fighter, JUMP_OVER_BONUS);
+  fighter = updateMomentum(fighter, MOMENTUM_GAINS.jumpOver);
   
-  let newState = fighterId === 'player'
-    ? updateFighters(state, fighter, state.opponent)
-    : updateFighters(state, state.player, fighter);
+  let newState = setFighter(state, fighterId, fighter);
   
-  newState = setCallout(newState, 'JUMP OVER!', `+${JUMP_OVER_BONUS}`);
+  newState = setCallout(newState, 'JUMP OVER!', `${getFighterLabel(state, fighterId)} +${JUMP_OVER_BONUS}`);
   return newState;
 }
 
@@ -6,6 +6,7 @@
 import {
   MAX_BALANCE,
   MAX_STAMINA,
+  MAX_MOMENTUM,
   BALANCE_REGEN_RATE,
   STAMINA_REGEN_RATE,
   BALANCE_MOVE_COST,
@@ -15,26 +16,36 @@ import {
   BEAM_LEFT,
   BEAM_RIGHT,
   FIGHTER_WIDTH,
+  FIGHTER_HEIGHT,
   FIGHTER_SPEED,
+  FIGHTER_CROUCH_HEIGHT,
+  CROUCH_SPEED_MULTIPLIER,
+  CROUCH_BALANCE_DRAIN_MULTIPLIER,
   JUMP_VELOCITY,
   GRAVITY,
   JUMP_STAMINA_COST,
   JUMP_BALANCE_COST,
   MIN_JUMP_HEIGHT_FOR_OVER,
+  BEAM_EDGE_ZONE,
+  HANG_DURATION,
+  HANG_CLIMB_PER_STEP,
+  HANG_CLIMB_BALANCE,
 } from '../constants';
 import type { Fighter, FighterState, FacingDirection } from '../types';
 
 /**
- * Create initial fighter state
+ * Create initial fighter state (slot is their place in the team, 0 for the first fighter)
  */
 export function createFighter(
-  id: 'player' | 'opponent',
+  side: 'player' | 'opponent',
   x: number,
   facing: FacingDirection,
-  name: string
+  name: string,
+  slot: number = 0
 ): Fighter {
   return {
-    id,
+    id: `${side}-${slot + 1}`,
+    side,
     name,
     x,
     y: 0, // 0 = on beam, negative = in air
@@ -43,13 +54,27 @@ export function createFighter(
     state: 'Idle',
     balance: MAX_BALANCE,
     stamina: MAX_STAMINA,
+    momentum: 0,
     score: 0,
+    falls: 0,
     stateTimer: 0,
     currentMove: null,
     comboCount: 0,
     lastMoveTime: 0,
     isDefending: false,
     hasJumpedOver: false,
+    climbProgress: 0,
+    lastClimbStep: null,
+    judging: {
+      timeJudged: 0,
+      timeBalanced: 0,
+      timeWobbling: 0,
+      timeAtEdge: 0,
+      movesLanded: [],
+      jumps: 0,
+      jumpOvers: 0,
+      bestCombo: 0,
+    },
   };
 }
 
@@ -94,10 +119,31 @@ export function canAct(fighter: Fighter): boolean {
   return (
     fighter.state === 'Idle' ||
     fighter.state === 'Moving' ||
+    fighter.state === 'Crouching' ||
     fighter.state === 'GrappleEngaged'
   );
 }
 
+/**
+ * Crouch while the input is held (from a neutral stance only), stand when released
+ */
+export function updateCrouch(fighter: Fighter, crouching: boolean): Fighter {
+  if (crouching && (fighter.state === 'Idle' || fighter.state === 'Moving') && fighter.y >= 0) {
+    return { ...fighter, state: 'Crouching' };
+  }
+  if (!crouching && fighter.state === 'Crouching') {
+    return { ...fighter, state: 'Idle' };
+  }
+  return fighter;
+}
+
+/**
+ * Height of the fighter's hurtbox (lower while crouched)
+ */
+export function getHurtboxHeight(fighter: Fighter): number {
+  return fighter.state === 'Crouching' ? FIGHTER_CROUCH_HEIGHT : FIGHTER_HEIGHT;
+}
+
 /**
  * Check if fighter can jump
  */
@@ -149,6 +195,21 @@ export function updateBalance(fighter: Fighter, delta: number): Fighter {
   return { ...fighter, balance: newBalance };
 }
 
+/**
+ * Take balance away from a fighter (crouching halves it)
+ */
+export function drainBalance(fighter: Fighter, amount: number): Fighter {
+  const multiplier = fighter.state === 'Crouching' ? CROUCH_BALANCE_DRAIN_MULTIPLIER : 1;
+  return updateBalance(fighter, -amount * multiplier);
+}
+
+/**
+ * How hard a pinned fighter can kick out, 0-1 - balance and stamina both count
+ */
+export function getKickOutStrength(fighter: Fighter): number {
+  return (fighter.balance + fighter.stamina) / (MAX_BALANCE + MAX_STAMINA);
+}
+
 /**
  * Update fighter stamina (clamped to 0-100)
  */
@@ -157,6 +218,14 @@ export function updateStamina(fighter: Fighter, delta: number): Fighter {
   return { ...fighter, stamina: newStamina };
 }
 
+/**
+ * Update fighter momentum (clamped to 0-100)
+ */
+export function updateMomentum(fighter: Fighter, delta: number): Fighter {
+  const newMomentum = Math.max(0, Math.min(MAX_MOMENTUM, fighter.momentum + delta));
+  return { ...fighter, momentum: newMomentum };
+}
+
 /**
  * Regenerate balance and stamina for idle fighter
  */
@@ -187,22 +256,14 @@ export function applyMovementCosts(fighter: Fighter, deltaTime: number): Fighter
   // Low stamina increases balance loss
   const staminaMultiplier = fighter.stamina < LOW_STAMINA_THRESHOLD ? 1.5 : 1;
 
-  return {
-    ...fighter,
-    balance: Math.max(0, fighter.balance - balanceCost * staminaMultiplier),
-    stamina: Math.max(0, fighter.stamina - staminaCost),
-  };
+  return updateStamina(drainBalance(fighter, balanceCost * staminaMultiplier), -staminaCost);
 }
 
 /**
  * Apply grapple costs to fighter
  */
 export function applyGrappleCosts(fighter: Fighter, deltaTime: number): Fighter {
-  const balanceDrain = BALANCE_GRAPPLE_DRAIN * deltaTime;
-  return {
-    ...fighter,
-    balance: Math.max(0, fighter.balance - balanceDrain),
-  };
+  return drainBalance(fighter, BALANCE_GRAPPLE_DRAIN * deltaTime);
 }
 
 /**
@@ -213,8 +274,10 @@ export function moveFighter(
   direction: 'left' | 'right',
   deltaTime: number
 ): Fighter {
-  const speedMultiplier = fighter.stamina < LOW_STAMINA_THRESHOLD ? 0.6 : 1;
-  const moveAmount = FIGHTER_SPEED * deltaTime * speedMultiplier;
+  const isCrouching = fighter.state === 'Crouching';
+  const staminaMultiplier = fighter.stamina < LOW_STAMINA_THRESHOLD ? 0.6 : 1;
+  const crouchMultiplier = isCrouching ? CROUCH_SPEED_MULTIPLIER : 1;
+  const moveAmount = FIGHTER_SPEED * deltaTime * staminaMultiplier * crouchMultiplier;
   const newX =
     direction === 'left'
       ? Math.max(BEAM_LEFT + FIGHTER_WIDTH / 2, fighter.x - moveAmount)
@@ -226,7 +289,7 @@ export function moveFighter(
     ...fighter,
     x: newX,
     facing: newFacing,
-    state: 'Moving',
+    state: isCrouching ? 'Crouching' : 'Moving',
   };
 }
 
@@ -304,16 +367,23 @@ export function updateFacing(fighter: Fighter, opponentX: number): Fighter {
 }
 
 /**
- * Make fighter start falling
+ * Make fighter start falling - they tumble for the given seconds before the reset
  */
-export function startFalling(fighter: Fighter): Fighter {
+export function startFalling(fighter: Fighter, duration: number = 0): Fighter {
   return {
     ...fighter,
     state: 'Falling',
-    stateTimer: 0,
+    stateTimer: duration,
   };
 }
 
+/**
+ * Check if a falling fighter has finished tumbling and is ready to be reset
+ */
+export function hasFallenOff(fighter: Fighter): boolean {
+  return fighter.state === 'Falling' && fighter.stateTimer <= 0;
+}
+
 /**
  * Reset fighter position after fall
  */
@@ -329,11 +399,73 @@ export function resetAfterFall(
     balance: MAX_BALANCE * 0.7, // Start with reduced balance
     stamina: Math.min(MAX_STAMINA, fighter.stamina + 20), // Slight stamina recovery
     score: fighter.score + penalty, // Penalty is negative
+    falls: fighter.falls + 1,
     currentMove: null,
     isDefending: false,
     y: 0,
     velocityY: 0,
     hasJumpedOver: false,
+    climbProgress: 0,
+    lastClimbStep: null,
+  };
+}
+
+// =============================================================================
+// EDGE HANGING
+// =============================================================================
+
+/**
+ * Grab the edge of the beam instead of dropping straight off
+ */
+export function startHanging(fighter: Fighter): Fighter {
+  return {
+    ...fighter,
+    state: 'Hanging',
+    stateTimer: HANG_DURATION,
+    y: 0,
+    velocityY: 0,
+    currentMove: null,
+    isDefending: false,
+    climbProgress: 0,
+    lastClimbStep: null,
+  };
+}
+
+/**
+ * A fighter lost their footing - near an edge they cling on, anywhere else they fall
+ */
+export function loseFooting(fighter: Fighter, fallDuration: number = 0): Fighter {
+  if (isNearEdge(fighter, BEAM_EDGE_ZONE) && !isInAir(fighter)) {
+    return startHanging(fighter);
+  }
+  return startFalling(fighter, fallDuration);
+}
+
+/**
+ * Count a climbing press - only a step in the other direction from the last one counts
+ */
+export function climbStep(fighter: Fighter, step: FacingDirection | null): Fighter {
+  if (fighter.state !== 'Hanging' || step === null || step === fighter.lastClimbStep) {
+    return fighter;
+  }
+  return {
+    ...fighter,
+    climbProgress: Math.min(1, fighter.climbProgress + HANG_CLIMB_PER_STEP),
+    lastClimbStep: step,
+  };
+}
+
+/**
+ * Pull back up onto the beam, shaky but standing
+ */
+export function climbUp(fighter: Fighter): Fighter {
+  return {
+    ...fighter,
+    state: 'Idle',
+    stateTimer: 0,
+    balance: HANG_CLIMB_BALANCE,
+    climbProgress: 0,
+    lastClimbStep: null,
   };
 }
 
@@ -393,8 +525,10 @@ export function updateJumpPhysics(fighter: Fighter, deltaTime: number): Fighter
 /**
  * Check if fighter is high enough to jump over opponent
  */
-export function isHighEnoughToJumpOver(fighter: Fighter): boolean {
-  return fighter.y < -MIN_JUMP_HEIGHT_FOR_OVER;
+export function isHighEnoughToJumpOver(fighter: Fighter, target?: Fighter): boolean {
+  // A crouched target is shorter, so less height clears it
+  const clearance = target ? FIGHTER_HEIGHT - getHurtboxHeight(target) : 0;
+  return fighter.y < -(MIN_JUMP_HEIGHT_FOR_OVER - clearance);
 }
 
 /**
@@ -407,6 +541,8 @@ export function isAboveFighter(jumper: Fighter, target: Fighter, threshold: numb
   if (Math.abs(jumper.x - target.x) > threshold) return false;
   // Target must be on ground
   if (target.y < 0) return false;
+  // Crouched targets are too low to land on, and there's nothing left to land on once they fall
+  if (target.state === 'Crouching' || target.state === 'Falling') return false;
   return true;
 }
 
@@ -427,6 +563,28 @@ export function willStomp(jumper: Fighter, target: Fighter, deltaTime: number):
   return isAboveFighter(jumper, target);
 }
 
+/**
+ * Carry an airborne fighter along at a set speed (aerial lunges)
+ */
+export function driftInAir(
+  fighter: Fighter,
+  direction: FacingDirection,
+  speed: number,
+  deltaTime: number
+): Fighter {
+  if (fighter.state !== 'Jumping' || speed <= 0) {
+    return fighter;
+  }
+
+  const moveAmount = speed * deltaTime;
+  const newX =
+    direction === 'left'
+      ? Math.max(BEAM_LEFT + FIGHTER_WIDTH / 2, fighter.x - moveAmount)
+      : Math.min(BEAM_RIGHT - FIGHTER_WIDTH / 2, fighter.x + moveAmount);
+
+  return { ...fighter, x: newX };
+}
+
 /**
  * Mark that fighter has jumped over opponent (for bonus points)
  */
@@ -0,0 +1,38 @@
+/**
+ * Beam Brawlers - Signature Finishers
+ * Pure functions for momentum-powered finishers
+ */
+
+import { GRAPPLE_RANGE, MAX_MOMENTUM, SIGNATURE_FINISHERS } from '../constants';
+import type { Fighter } from '../types';
+import { areInGrappleRange, canAct, isInAir, isOnBeam } from './fighter';
+
+function hasSignatureFinisher(name: string): name is keyof typeof SIGNATURE_FINISHERS {
+  return Object.hasOwn(SIGNATURE_FINISHERS, name);
+}
+
+/**
+ * Get a fighter's signature finisher name (fighters outside the roster get a generic one)
+ */
+export function getSignatureFinisher(name: string): string {
+  return hasSignatureFinisher(name) ? SIGNATURE_FINISHERS[name] : `${name} Special`;
+}
+
+/**
+ * Check if a fighter's momentum meter is full
+ */
+export function hasFullMomentum(fighter: Fighter): boolean {
+  return fighter.momentum >= MAX_MOMENTUM;
+}
+
+/**
+ * Check if a fighter can hit their finisher on the defender right now -
+ * full momentum, both grounded on the beam and within grapple range
+ */
+export function canPerformFinisher(attacker: Fighter, defender: Fighter): boolean {
+  if (!hasFullMomentum(attacker)) return false;
+  if (!canAct(attacker) || isInAir(attacker)) return false;
+  if (defender.state === 'Falling' || defender.state === 'Hanging') return false;
+  if (isInAir(defender) || !isOnBeam(defender)) return false;
+  return areInGrappleRange(attacker, defender, GRAPPLE_RANGE);
+}
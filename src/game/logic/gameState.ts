@@ -6,11 +6,13 @@
 import {
   BEAM_LEFT,
   BEAM_RIGHT,
-  MATCH_DURATION,
   COUNTDOWN_DURATION,
-  PIN_DURATION,
-  MIN_BALANCE_FOR_PIN,
+  DEFAULT_MATCH_CONFIG,
+  PIN_PUSHBACK_PER_PRESS,
+  PIN_KICKOUT_PER_PRESS,
+  PIN_NEAR_FALL_MARGIN,
   GRAPPLE_RANGE,
+  MOMENTUM_GAINS,
   ZAPPA_FIGHTER_NAMES,
 } from '../constants';
 import type {
@@ -20,51 +22,109 @@ import type {
   GameResult,
   GameEndReason,
   Callout,
+  RngState,
+  GameMode,
+  MatchConfig,
 } from '../types';
-import { createFighter, canBePinned, canAttemptPin, areInGrappleRange } from './fighter';
+import {
+  createFighter,
+  canBePinned,
+  canAttemptPin,
+  areInGrappleRange,
+  isOnBeam,
+  transitionState,
+  getKickOutStrength,
+  updateMomentum,
+} from './fighter';
+import { createRng, createRandomSeed, deriveSeed, nextInt } from './random';
+import { averageScorecards, getScorecards } from './judging';
+import { sendToBench } from './tagTeam';
+import { getFighter, getFighters, getTeamFalls, getTeamScore, setFighter } from './teams';
 
 /**
- * Get a random Zappa song name
+ * Get a random Zappa song name (skipping names already taken)
  */
-export function getRandomZappaName(exclude?: string): string {
-  const available = exclude
-    ? ZAPPA_FIGHTER_NAMES.filter((n) => n !== exclude)
-    : [...ZAPPA_FIGHTER_NAMES];
-  return available[Math.floor(Math.random() * available.length)];
+export function getRandomZappaName(
+  rng: RngState,
+  exclude: string[] = []
+): { value: string; rng: RngState } {
+  const available = ZAPPA_FIGHTER_NAMES.filter((n) => !exclude.includes(n));
+  const roll = nextInt(rng, available.length);
+  return { value: available[roll.value], rng: roll.rng };
 }
 
 /**
  * Create initial game state
  */
-export function createInitialState(): GameState {
+export function createInitialState(
+  seed: number = createRandomSeed(),
+  mode: GameMode = 'vsAI',
+  config: MatchConfig = DEFAULT_MATCH_CONFIG
+): GameState {
   const beamCenter = (BEAM_LEFT + BEAM_RIGHT) / 2;
   const playerStartX = beamCenter - 100;
   const opponentStartX = beamCenter + 100;
 
-  const playerName = getRandomZappaName();
-  const opponentName = getRandomZappaName(playerName);
+  const playerPick = getRandomZappaName(createRng(seed));
+  const opponentPick = getRandomZappaName(playerPick.rng, [playerPick.value]);
+  const playerName = playerPick.value;
+  const opponentName = opponentPick.value;
+
+  // Tag partners wait at their side's end of the beam
+  let rng = opponentPick.rng;
+  const teams: GameState['teams'] = {
+    player: [createFighter('player', playerStartX, 'right', playerName)],
+    opponent: [createFighter('opponent', opponentStartX, 'left', opponentName)],
+  };
+  if (config.tagTeam) {
+    const playerPartner = getRandomZappaName(rng, [playerName, opponentName]);
+    const opponentPartner = getRandomZappaName(playerPartner.rng, [playerName, opponentName, playerPartner.value]);
+    teams.player.push(sendToBench(createFighter('player', playerStartX, 'right', playerPartner.value, 1)));
+    teams.opponent.push(sendToBench(createFighter('opponent', opponentStartX, 'left', opponentPartner.value, 1)));
+    rng = opponentPartner.rng;
+  }
 
   return {
     scene: 'Title',
-    matchTimer: MATCH_DURATION,
+    mode,
+    config,
+    matchTimer: config.matchDuration ?? 0,
+    overtimePeriod: 0,
+    round: 1,
+    roundWins: { player: 0, opponent: 0 },
+    roundHistory: [],
+    elapsedTime: 0,
     countdownTimer: COUNTDOWN_DURATION,
     isPaused: false,
-    player: createFighter('player', playerStartX, 'right', playerName),
-    opponent: createFighter('opponent', opponentStartX, 'left', opponentName),
+    teams,
+    active: { player: 0, opponent: 0 },
+    tagCooldown: { player: 0, opponent: 0 },
     isGrappling: false,
     grappleInitiator: null,
+    activeMove: null,
     pinProgress: 0,
     pinningFighter: null,
+    kickOutProgress: 0,
+    kickOutPressHeld: false,
+    finisher: null,
     currentCallout: null,
     result: null,
+    rng,
   };
 }
 
 /**
- * Reset match state for a new game
+ * Reset match state for a new game.
+ * Without an explicit seed, the next seed is derived from the current one;
+ * without an explicit mode or rules, the current ones are kept.
  */
-export function resetMatch(_state: GameState): GameState {
-  const initial = createInitialState();
+export function resetMatch(
+  state: GameState,
+  seed: number = deriveSeed(state.rng),
+  mode: GameMode = state.mode,
+  config: MatchConfig = state.config
+): GameState {
+  const initial = createInitialState(seed, mode, config);
   return {
     ...initial,
     scene: 'Countdown',
@@ -79,13 +139,22 @@ export function transitionScene(state: GameState, scene: GameScene): GameState {
   return { ...state, scene };
 }
 
+/**
+ * How long the match has been running (seconds, overtime included)
+ */
+export function getMatchDuration(state: GameState): number {
+  const { matchDuration } = state.config;
+  if (matchDuration === null || state.overtimePeriod > 0) return state.elapsedTime;
+  return matchDuration - state.matchTimer;
+}
+
 /**
  * Check if match should end due to timeout
  */
 export function checkTimeout(state: GameState): GameResult | null {
-  if (state.matchTimer <= 0) {
-    const playerScore = state.player.score;
-    const opponentScore = state.opponent.score;
+  if (state.config.matchDuration !== null && state.matchTimer <= 0) {
+    const playerScore = getTeamScore(state, 'player');
+    const opponentScore = getTeamScore(state, 'opponent');
 
     let winner: 'player' | 'opponent' | 'draw';
     if (playerScore > opponentScore) {
@@ -101,12 +170,75 @@ export function checkTimeout(state: GameState): GameResult | null {
       reason: 'timeout',
       playerScore,
       opponentScore,
-      matchDuration: MATCH_DURATION - state.matchTimer,
+      matchDuration: getMatchDuration(state),
+      overtime: state.overtimePeriod > 0,
+      scorecards: getScorecards(state),
+    };
+  }
+  return null;
+}
+
+/**
+ * Check if a submission hold made the defender tap out
+ */
+export function checkSubmissionVictory(state: GameState): GameResult | null {
+  const activeMove = state.activeMove;
+  if (activeMove?.holding && activeMove.submissionProgress >= 1) {
+    return {
+      winner: activeMove.attacker,
+      reason: 'surrender',
+      playerScore: getTeamScore(state, 'player'),
+      opponentScore: getTeamScore(state, 'opponent'),
+      matchDuration: getMatchDuration(state),
+      overtime: state.overtimePeriod > 0,
+      scorecards: getScorecards(state),
     };
   }
   return null;
 }
 
+/**
+ * Check if somebody has scored in sudden-death overtime - the fighters went in level,
+ * so whoever is ahead now scored first (or the other one lost points to a fall)
+ */
+export function checkOvertimeVictory(state: GameState): GameResult | null {
+  const playerScore = getTeamScore(state, 'player');
+  const opponentScore = getTeamScore(state, 'opponent');
+  if (state.overtimePeriod === 0 || playerScore === opponentScore) return null;
+
+  return {
+    winner: playerScore > opponentScore ? 'player' : 'opponent',
+    reason: 'overtime',
+    playerScore,
+    opponentScore,
+    matchDuration: getMatchDuration(state),
+    overtime: true,
+    scorecards: getScorecards(state),
+  };
+}
+
+/**
+ * Check if a side has run out of falls (the other one wins) - tag partners share the count
+ */
+export function checkFallsVictory(state: GameState): GameResult | null {
+  const { maxFalls, pinsOnly } = state.config;
+  if (maxFalls === null || pinsOnly) return null;
+
+  const loser =
+    getTeamFalls(state, 'player') >= maxFalls ? 'player' : getTeamFalls(state, 'opponent') >= maxFalls ? 'opponent' : null;
+  if (!loser) return null;
+
+  return {
+    winner: loser === 'player' ? 'opponent' : 'player',
+    reason: 'falls',
+    playerScore: getTeamScore(state, 'player'),
+    opponentScore: getTeamScore(state, 'opponent'),
+    matchDuration: getMatchDuration(state),
+    overtime: state.overtimePeriod > 0,
+    scorecards: getScorecards(state),
+  };
+}
+
 /**
  * Check if a pin is successful
  */
@@ -116,48 +248,97 @@ export function checkPinVictory(state: GameState): GameResult | null {
     return {
       winner,
       reason: 'pin',
-      playerScore: state.player.score,
-      opponentScore: state.opponent.score,
-      matchDuration: MATCH_DURATION - state.matchTimer,
+      playerScore: getTeamScore(state, 'player'),
+      opponentScore: getTeamScore(state, 'opponent'),
+      matchDuration: getMatchDuration(state),
+      overtime: state.overtimePeriod > 0,
+      scorecards: getScorecards(state),
     };
   }
   return null;
 }
 
 /**
- * Update pin progress
+ * Update pin progress - the count fills over time while each fresh defend press
+ * from the pinned fighter knocks it back and builds toward a kick-out
  */
 export function updatePinProgress(
   state: GameState,
-  deltaTime: number
+  deltaTime: number,
+  defendHeld: boolean = false
 ): GameState {
   if (!state.pinningFighter) {
     return state;
   }
 
-  const attacker = state.pinningFighter === 'player' ? state.player : state.opponent;
-  const defender = state.pinningFighter === 'player' ? state.opponent : state.player;
+  const attacker = getFighter(state, state.pinningFighter);
+  const defender = getFighter(state, state.pinningFighter === 'player' ? 'opponent' : 'player');
 
   // Validate pin is still valid
   const pinStillValid =
-    canAttemptPin(attacker, MIN_BALANCE_FOR_PIN) &&
-    canBePinned(defender) &&
+    attacker.state === 'Pinning' &&
+    defender.state === 'Pinned' &&
+    attacker.balance >= state.config.minBalanceForPin &&
+    isOnBeam(attacker) &&
     areInGrappleRange(attacker, defender, GRAPPLE_RANGE);
 
   if (!pinStillValid) {
-    return {
-      ...state,
-      pinProgress: 0,
-      pinningFighter: null,
-    };
+    return releasePin(state);
   }
 
-  // Increment pin progress
-  const newProgress = Math.min(1, state.pinProgress + deltaTime / PIN_DURATION);
-  return {
+  // Increment pin progress, minus any fight-back
+  const { pinDuration } = state.config;
+  const count = Math.min(pinDuration, state.pinProgress * pinDuration + deltaTime);
+  let pinProgress = count / pinDuration;
+  let kickOutProgress = state.kickOutProgress;
+  if (defendHeld && !state.kickOutPressHeld) {
+    const strength = getKickOutStrength(defender);
+    pinProgress -= PIN_PUSHBACK_PER_PRESS * strength;
+    kickOutProgress += PIN_KICKOUT_PER_PRESS * strength;
+  }
+
+  const newState = {
     ...state,
-    pinProgress: newProgress,
+    pinProgress: Math.min(1, Math.max(0, pinProgress)),
+    kickOutProgress: Math.min(1, kickOutProgress),
+    kickOutPressHeld: defendHeld,
   };
+
+  if (newState.kickOutProgress >= 1 && newState.pinProgress < 1) {
+    return kickOut(newState, count);
+  }
+  return newState;
+}
+
+/**
+ * End a pin without a winner - both fighters get up
+ */
+function releasePin(state: GameState): GameState {
+  const release = (fighter: Fighter) =>
+    fighter.state === 'Pinning' || fighter.state === 'Pinned' ? transitionState(fighter, 'Idle') : fighter;
+
+  return {
+    ...updateFighters(state, release(getFighter(state, 'player')), release(getFighter(state, 'opponent'))),
+    pinProgress: 0,
+    pinningFighter: null,
+    kickOutProgress: 0,
+    kickOutPressHeld: false,
+  };
+}
+
+/**
+ * The pinned fighter kicked out at this count (seconds) - late kick-outs get the near-fall callout
+ */
+function kickOut(state: GameState, count: number): GameState {
+  const defenderId = state.pinningFighter === 'player' ? 'opponent' : 'player';
+  const label = getFighterLabel(state, defenderId);
+  const newState = releasePin(state);
+
+  const nearFallTime = state.config.pinDuration - PIN_NEAR_FALL_MARGIN;
+  if (count >= nearFallTime) {
+    return setCallout(newState, `KICK OUT AT ${nearFallTime.toFixed(1)}!`, `${label} survives the near fall!`);
+  }
+  return setCallout(newState, 'KICK OUT!', `${label} escapes at ${count.toFixed(1)}`);
 }
 
 /**
@@ -167,11 +348,11 @@ export function attemptPin(
   state: GameState,
   attacker: 'player' | 'opponent'
 ): GameState {
-  const attackerFighter = attacker === 'player' ? state.player : state.opponent;
-  const defenderFighter = attacker === 'player' ? state.opponent : state.player;
+  const attackerFighter = getFighter(state, attacker);
+  const defenderFighter = getFighter(state, attacker === 'player' ? 'opponent' : 'player');
 
   // Validate pin attempt
-  if (!canAttemptPin(attackerFighter, MIN_BALANCE_FOR_PIN)) {
+  if (!canAttemptPin(attackerFighter, state.config.minBalanceForPin)) {
     return state;
   }
 
@@ -183,15 +364,55 @@ export function attemptPin(
     return state;
   }
 
+  // Both are locked in until the count finishes or the pinned fighter kicks out
+  const pinning = transitionState(attackerFighter, 'Pinning');
+  const pinned = transitionState(defenderFighter, 'Pinned');
+
   return {
-    ...state,
+    ...(attacker === 'player'
+      ? updateFighters(state, pinning, pinned)
+      : updateFighters(state, pinned, pinning)),
     pinningFighter: attacker,
     pinProgress: 0,
+    kickOutProgress: 0,
+    kickOutPressHeld: false,
   };
 }
 
 /**
- * Update match timer
+ * How worked up the crowd is, 0-1 (grapples, pins, falls and callouts get them going)
+ */
+export function getCrowdExcitement(state: GameState): number {
+  let excitement = 0.3; // Base level
+  if (state.isGrappling) excitement = 0.6;
+  if (state.pinningFighter) excitement = 0.9;
+  const { player, opponent } = getFighters(state);
+  if (player.state === 'Hanging' || opponent.state === 'Hanging') excitement = 0.9; // Near fall!
+  if (player.state === 'Falling' || opponent.state === 'Falling') excitement = 1.0;
+  if (state.currentCallout) excitement = Math.max(excitement, 0.7);
+  if (state.currentCallout?.text.startsWith('KICK OUT AT')) excitement = 1.0; // Near fall!
+  return excitement;
+}
+
+/**
+ * The crowd rallies behind the side trailing on points (both when level),
+ * feeding momentum to whoever is on the beam faster the more excited it is
+ */
+export function applyCrowdMomentum(state: GameState, deltaTime: number): GameState {
+  const gain = getCrowdExcitement(state) * MOMENTUM_GAINS.crowdRate * deltaTime;
+  const { player, opponent } = getFighters(state);
+  const playerScore = getTeamScore(state, 'player');
+  const opponentScore = getTeamScore(state, 'opponent');
+
+  return updateFighters(
+    state,
+    playerScore <= opponentScore ? updateMomentum(player, gain) : player,
+    opponentScore <= playerScore ? updateMomentum(opponent, gain) : opponent
+  );
+}
+
+/**
+ * Update match timer and advance the simulation clock (the timer stays put with no time limit)
  */
 export function updateMatchTimer(state: GameState, deltaTime: number): GameState {
   if (state.scene !== 'Playing' || state.isPaused) {
@@ -200,15 +421,16 @@ export function updateMatchTimer(state: GameState, deltaTime: number): GameState
 
   return {
     ...state,
-    matchTimer: Math.max(0, state.matchTimer - deltaTime),
+    matchTimer: state.config.matchDuration === null ? 0 : Math.max(0, state.matchTimer - deltaTime),
+    elapsedTime: state.elapsedTime + deltaTime,
   };
 }
 
 /**
- * Update countdown timer
+ * Update countdown timer (the match countdown, or the overtime announcement)
  */
 export function updateCountdown(state: GameState, deltaTime: number): GameState {
-  if (state.scene !== 'Countdown') {
+  if (state.scene !== 'Countdown' && state.scene !== 'Overtime') {
     return state;
   }
 
@@ -229,14 +451,14 @@ export function updateCountdown(state: GameState, deltaTime: number): GameState
 }
 
 /**
- * Create a callout
+ * Create a callout stamped with the simulation time
  */
-export function createCallout(text: string, subtext?: string): Callout {
+export function createCallout(text: string, subtext: string | undefined, timestamp: number): Callout {
   return {
-    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    id: `${timestamp.toFixed(3)}-${text}`,
     text,
     subtext,
-    timestamp: Date.now(),
+    timestamp,
   };
 }
 
@@ -250,10 +472,18 @@ export function setCallout(
 ): GameState {
   return {
     ...state,
-    currentCallout: createCallout(text, subtext),
+    currentCallout: createCallout(text, subtext, state.elapsedTime),
   };
 }
 
+/**
+ * Get how long the current callout has been shown (seconds of simulation time)
+ */
+export function getCalloutAge(state: GameState): number {
+  if (!state.currentCallout) return 0;
+  return state.elapsedTime - state.currentCallout.timestamp;
+}
+
 /**
  * Clear current callout
  */
@@ -265,7 +495,8 @@ export function clearCallout(state: GameState): GameState {
 }
 
 /**
- * End the match
+ * End the match - or in a best-of match, the round. The match is over once
+ * somebody has won enough rounds or every round has been fought.
  */
 export function endMatch(
   state: GameState,
@@ -275,19 +506,101 @@ export function endMatch(
   const result: GameResult = {
     winner,
     reason,
-    playerScore: state.player.score,
-    opponentScore: state.opponent.score,
-    matchDuration: MATCH_DURATION - state.matchTimer,
+    playerScore: getTeamScore(state, 'player'),
+    opponentScore: getTeamScore(state, 'opponent'),
+    matchDuration: getMatchDuration(state),
+    overtime: state.overtimePeriod > 0,
+    scorecards: getScorecards(state),
   };
 
+  if (state.config.rounds <= 1) {
+    return {
+      ...state,
+      scene: 'GameOver',
+      result,
+      isPaused: false,
+    };
+  }
+
+  const roundHistory = [...state.roundHistory, result];
+  const roundWins = winner === 'draw'
+    ? state.roundWins
+    : { ...state.roundWins, [winner]: state.roundWins[winner] + 1 };
+  const roundsToWin = getRoundsToWin(state.config);
+  const decided =
+    roundWins.player >= roundsToWin ||
+    roundWins.opponent >= roundsToWin ||
+    roundHistory.length >= state.config.rounds;
+
   return {
     ...state,
-    scene: 'GameOver',
-    result,
+    scene: decided ? 'GameOver' : 'RoundOver',
+    result: decided ? getMatchResult(roundHistory, roundWins) : null,
+    roundHistory,
+    roundWins,
     isPaused: false,
   };
 }
 
+/**
+ * Rounds needed to take a best-of match
+ */
+export function getRoundsToWin(config: MatchConfig): number {
+  return Math.floor(config.rounds / 2) + 1;
+}
+
+/**
+ * Countdown label for the round about to start (none in a single bout)
+ */
+export function getRoundLabel(state: GameState): string | undefined {
+  return state.config.rounds > 1 ? `ROUND ${state.round}` : undefined;
+}
+
+/**
+ * The overall result of a best-of match - the round tally picks the winner,
+ * the deciding round gives the reason, scores and time are totals and the
+ * judges' marks are averaged over the rounds
+ */
+function getMatchResult(roundHistory: GameResult[], roundWins: GameState['roundWins']): GameResult {
+  const deciding = roundHistory[roundHistory.length - 1];
+  const total = (field: 'playerScore' | 'opponentScore' | 'matchDuration') =>
+    roundHistory.reduce((sum, round) => sum + round[field], 0);
+
+  return {
+    ...deciding,
+    winner:
+      roundWins.player > roundWins.opponent ? 'player' : roundWins.opponent > roundWins.player ? 'opponent' : 'draw',
+    playerScore: total('playerScore'),
+    opponentScore: total('opponentScore'),
+    matchDuration: total('matchDuration'),
+    scorecards: {
+      player: averageScorecards(roundHistory.map((round) => round.scorecards.player)),
+      opponent: averageScorecards(roundHistory.map((round) => round.scorecards.opponent)),
+    },
+  };
+}
+
+/**
+ * Start the next round of a best-of match - fresh fighters with full balance and
+ * stamina and a fresh clock; the round tally and history carry over
+ */
+export function startNextRound(state: GameState): GameState {
+  if (state.scene !== 'RoundOver') {
+    return state;
+  }
+
+  // Same seed, so the same fighters - each side back in its starting lineup
+  const fresh = createInitialState(state.rng.seed, state.mode, state.config);
+  return {
+    ...fresh,
+    scene: 'Countdown',
+    rng: state.rng,
+    round: state.round + 1,
+    roundWins: state.roundWins,
+    roundHistory: state.roundHistory,
+  };
+}
+
 /**
  * Update fighters in state
  */
@@ -296,11 +609,7 @@ export function updateFighters(
   player: Fighter,
   opponent: Fighter
 ): GameState {
-  return {
-    ...state,
-    player,
-    opponent,
-  };
+  return setFighter(setFighter(state, 'player', player), 'opponent', opponent);
 }
 
 /**
@@ -329,9 +638,19 @@ export function getResetPositions(): { playerX: number; opponentX: number } {
   };
 }
 
+/**
+ * Get the short label for a fighter in callouts (YOU/AI, or P1/P2 in versus)
+ */
+export function getFighterLabel(state: GameState, fighterId: 'player' | 'opponent'): string {
+  if (state.mode === 'versus') {
+    return fighterId === 'player' ? 'P1' : 'P2';
+  }
+  return fighterId === 'player' ? 'YOU' : 'AI';
+}
+
 /**
  * Apply fall penalty
  */
-export function getFallPenalty(): number {
-  return -100; // SCORING.penalties.fallOff
+export function getFallPenalty(config: MatchConfig): number {
+  return config.fallPenalty;
 }
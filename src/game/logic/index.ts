@@ -4,4 +4,11 @@
 
 export * from './fighter';
 export * from './moves';
+export * from './finishers';
+export * from './judging';
+export * from './teams';
+export * from './tagTeam';
 export * from './gameState';
+export * from './random';
+export * from './moveRegistry';
+export * from './inputState';
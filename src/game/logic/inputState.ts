@@ -0,0 +1,28 @@
+/**
+ * Beam Brawlers - Input State
+ * The per-step input for one fighter (controls plus one entry per registered move)
+ */
+
+import type { InputState } from '../types';
+import { getMoveIds } from './moveRegistry';
+
+/**
+ * Create empty input state
+ */
+export function createInputState(): InputState {
+  const state: InputState = {
+    moveLeft: false,
+    moveRight: false,
+    jump: false,
+    crouch: false,
+    grapple: false,
+    pin: false,
+    defend: false,
+    finisher: false,
+    tag: false,
+  };
+  for (const move of getMoveIds()) {
+    state[move] = false;
+  }
+  return state;
+}
@@ -0,0 +1,170 @@
+/**
+ * Beam Brawlers - Judges' Panel
+ * Pure functions that track what the judges see and mark it like a gymnastics routine
+ */
+
+import { BEAM_EDGE_ZONE, JUDGE_PANEL, JUDGING, LOW_BALANCE_THRESHOLD } from '../constants';
+import type { Fighter, GameState, JudgingCategories, MoveType, Scorecard } from '../types';
+import { isNearEdge } from './fighter';
+import { getTeam } from './teams';
+
+/**
+ * Round a mark to one decimal, the way judges post them
+ */
+function toMark(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function clampMark(value: number): number {
+  return Math.min(10, Math.max(0, value));
+}
+
+/**
+ * Watch one step of live play - time balanced, wobbling and at the edge
+ */
+export function updateJudging(fighter: Fighter, deltaTime: number): Fighter {
+  if (fighter.state === 'Falling') return fighter;
+
+  const judging = fighter.judging;
+  const wobbling = fighter.state === 'Hanging' || fighter.balance < LOW_BALANCE_THRESHOLD;
+  const balanced = !wobbling && fighter.balance >= JUDGING.balancedThreshold;
+  const atEdge = fighter.state !== 'Hanging' && isNearEdge(fighter, BEAM_EDGE_ZONE);
+
+  return {
+    ...fighter,
+    judging: {
+      ...judging,
+      timeJudged: judging.timeJudged + deltaTime,
+      timeBalanced: judging.timeBalanced + (balanced ? deltaTime : 0),
+      timeWobbling: judging.timeWobbling + (wobbling ? deltaTime : 0),
+      timeAtEdge: judging.timeAtEdge + (atEdge ? deltaTime : 0),
+    },
+  };
+}
+
+/**
+ * Note a landed move (call after the combo count is updated)
+ */
+export function recordMove(fighter: Fighter, move: MoveType): Fighter {
+  const { movesLanded, bestCombo } = fighter.judging;
+  return {
+    ...fighter,
+    judging: {
+      ...fighter.judging,
+      movesLanded: movesLanded.includes(move) ? movesLanded : [...movesLanded, move],
+      bestCombo: Math.max(bestCombo, fighter.comboCount),
+    },
+  };
+}
+
+export function recordJump(fighter: Fighter): Fighter {
+  return { ...fighter, judging: { ...fighter.judging, jumps: fighter.judging.jumps + 1 } };
+}
+
+export function recordJumpOver(fighter: Fighter): Fighter {
+  return { ...fighter, judging: { ...fighter.judging, jumpOvers: fighter.judging.jumpOvers + 1 } };
+}
+
+/**
+ * Mark each category out of 10
+ */
+export function getJudgingCategories(fighter: Fighter): JudgingCategories {
+  const judging = fighter.judging;
+
+  const execution =
+    10 -
+    (judging.timeJudged - judging.timeBalanced) * JUDGING.unbalancedDeduction -
+    judging.timeWobbling * JUDGING.wobbleDeduction -
+    fighter.falls * JUDGING.fallDeduction;
+  const difficulty =
+    JUDGING.startValue + judging.movesLanded.length * JUDGING.moveValue + judging.timeAtEdge * JUDGING.edgeValue;
+  const artistry =
+    JUDGING.startValue +
+    judging.jumps * JUDGING.jumpValue +
+    judging.jumpOvers * JUDGING.jumpOverValue +
+    judging.bestCombo * JUDGING.comboValue;
+
+  return {
+    execution: toMark(clampMark(execution)),
+    difficulty: toMark(clampMark(difficulty)),
+    artistry: toMark(clampMark(artistry)),
+  };
+}
+
+/**
+ * The panel's scorecard - each judge weighs the categories their own way
+ */
+export function getScorecard(fighter: Fighter): Scorecard {
+  const categories = getJudgingCategories(fighter);
+  const marks = JUDGE_PANEL.map((weights) =>
+    toMark(
+      categories.execution * weights.execution +
+        categories.difficulty * weights.difficulty +
+        categories.artistry * weights.artistry
+    )
+  );
+  return { categories, marks, total: toMark(marks.reduce((sum, mark) => sum + mark, 0)) };
+}
+
+/**
+ * Average several scorecards into one (a best-of match is marked across its rounds).
+ * Weights default to equal; pass them to let some cards count for more.
+ */
+export function averageScorecards(cards: Scorecard[], weights: number[] = cards.map(() => 1)): Scorecard {
+  if (cards.length === 0) {
+    throw new Error('Cannot average an empty set of scorecards');
+  }
+  if (weights.length !== cards.length) {
+    throw new Error(`Expected ${cards.length} scorecard weights, got ${weights.length}`);
+  }
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const average = (pick: (card: Scorecard) => number) =>
+    toMark(cards.reduce((sum, card, i) => sum + pick(card) * weights[i], 0) / totalWeight);
+  const marks = JUDGE_PANEL.map((_, judge) => average((card) => card.marks[judge]));
+
+  return {
+    categories: {
+      execution: average((card) => card.categories.execution),
+      difficulty: average((card) => card.categories.difficulty),
+      artistry: average((card) => card.categories.artistry),
+    },
+    marks,
+    total: toMark(marks.reduce((sum, mark) => sum + mark, 0)),
+  };
+}
+
+/**
+ * A side's scorecard - tag partners' cards weighted by how long each was judged,
+ * so a partner who never came in doesn't count
+ */
+function getTeamScorecard(state: GameState, side: 'player' | 'opponent'): Scorecard {
+  const team = getTeam(state, side);
+  const judged = team.filter((fighter) => fighter.judging.timeJudged > 0);
+  if (judged.length === 0) return averageScorecards(team.map(getScorecard));
+
+  return averageScorecards(
+    judged.map(getScorecard),
+    judged.map((fighter) => fighter.judging.timeJudged)
+  );
+}
+
+/**
+ * Each side's scorecard as it stands
+ */
+export function getScorecards(state: GameState): { player: Scorecard; opponent: Scorecard } {
+  return {
+    player: getTeamScorecard(state, 'player'),
+    opponent: getTeamScorecard(state, 'opponent'),
+  };
+}
+
+/**
+ * Break a tie on the judges' cards - the higher panel total wins
+ */
+export function getJudgesDecision(state: GameState): 'player' | 'opponent' | 'draw' {
+  const { player, opponent } = getScorecards(state);
+  if (player.total > opponent.total) return 'player';
+  if (opponent.total > player.total) return 'opponent';
+  return 'draw';
+}
@@ -0,0 +1,295 @@
+/**
+ * Beam Brawlers - Move Registry
+ * Grapple moves are declared in data/moves.json and validated when loaded
+ */
+
+import moveData from '../data/moves.json';
+import { GAMEPAD_BUTTONS, KEY_BINDINGS, KEY_BINDINGS_P2 } from '../constants';
+import type { ControlInput, MoveDefinition, MoveStance, MoveType, SoundEffect } from '../types';
+
+// Move ids share the input namespace with these, so they can't be reused
+const CONTROL_INPUTS: ControlInput[] = [
+  'moveLeft',
+  'moveRight',
+  'jump',
+  'crouch',
+  'grapple',
+  'pin',
+  'defend',
+  'finisher',
+  'tag',
+];
+
+// Every sound the audio manager synthesizes - SoundEffect is derived from this list
+export const SOUND_EFFECTS = [
+  'jump',
+  'land',
+  'stomp',
+  'grapple',
+  'pancake',
+  'scissors',
+  'guillotine',
+  'finisher',
+  'pin_start',
+  'pin_tick',
+  'pin_complete',
+  'countdown',
+  'match_start',
+  'victory',
+  'defeat',
+  'hit',
+  'block',
+  'fall',
+  'score',
+  'crowd_cheer',
+  'crowd_gasp',
+  'crowd_ooh',
+] as const;
+
+type RawMove = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawMove {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a number field, throwing if it's missing or out of range
+ */
+function readNumber(
+  move: string,
+  source: RawMove,
+  field: string,
+  options: { min?: number; fallback?: number } = {}
+): number {
+  const value = source[field] ?? options.fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Move "${move}": ${field} must be a number`);
+  }
+  if (options.min !== undefined && value < options.min) {
+    throw new Error(`Move "${move}": ${field} must be at least ${options.min}`);
+  }
+  return value;
+}
+
+function readString(move: string, source: RawMove, field: string): string {
+  const value = source[field];
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`Move "${move}": ${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+function readSound(move: string, source: RawMove, field: string): SoundEffect {
+  const value = source[field];
+  const sound = SOUND_EFFECTS.find((effect) => effect === value);
+  if (!sound) {
+    throw new Error(`Move "${move}": ${field} must be a known sound effect, got ${JSON.stringify(value)}`);
+  }
+  return sound;
+}
+
+function readStance(move: string, source: RawMove): MoveStance {
+  const value = source.stance ?? 'standing';
+  if (value !== 'standing' && value !== 'low' && value !== 'aerial') {
+    throw new Error(`Move "${move}": stance must be "standing", "low" or "aerial"`);
+  }
+  return value;
+}
+
+function readObject(move: string, source: RawMove, field: string): RawMove {
+  const value = source[field];
+  if (!isObject(value)) {
+    throw new Error(`Move "${move}": ${field} must be an object`);
+  }
+  return value;
+}
+
+/**
+ * Validate one raw definition, filling defaults for optional fields
+ */
+function parseMoveDefinition(raw: unknown, index: number): MoveDefinition {
+  if (!isObject(raw) || typeof raw.id !== 'string' || raw.id.length === 0) {
+    throw new Error(`Move #${index + 1} is missing its id`);
+  }
+  const id = raw.id;
+  if ((CONTROL_INPUTS as string[]).includes(id)) {
+    throw new Error(`Move "${id}": id clashes with the "${id}" control`);
+  }
+
+  const stance = readStance(id, raw);
+  const requirements = readObject(id, raw, 'requirements');
+  const hold = raw.hold === undefined ? undefined : readObject(id, raw, 'hold');
+  const submission = raw.submission === undefined ? undefined : readObject(id, raw, 'submission');
+  if (submission && !hold) {
+    throw new Error(`Move "${id}": submission needs a hold`);
+  }
+  const aerial = stance === 'aerial' ? readObject(id, raw, 'aerial') : undefined;
+  const timing = readObject(id, raw, 'timing');
+  const recovery = readObject(id, raw, 'recovery');
+  const input = readObject(id, raw, 'input');
+  const ai = readObject(id, raw, 'ai');
+
+  // Aerials resolve on landing, so they have no duration or counter window of their own
+  const duration = aerial
+    ? readNumber(id, timing, 'duration', { min: 0, fallback: 0 })
+    : readNumber(id, timing, 'duration', { min: 0.01 });
+  const counterWindow = readNumber(id, timing, 'counterWindow', { min: 0, fallback: aerial ? 0 : undefined });
+  if (counterWindow > duration) {
+    throw new Error(`Move "${id}": counterWindow can't be longer than duration`);
+  }
+
+  return {
+    id: id as MoveType, // the one place a move id is minted
+    name: readString(id, raw, 'name'),
+    description: readString(id, raw, 'description'),
+    stance,
+    requirements: {
+      minBalance: readNumber(id, requirements, 'minBalance', { min: 0 }),
+      staminaCost: readNumber(id, requirements, 'staminaCost', { min: 0 }),
+    },
+    timing: {
+      duration,
+      counterWindow,
+      stunDuration: readNumber(id, timing, 'stunDuration', { min: 0 }),
+      balanceDrainRate: readNumber(id, timing, 'balanceDrainRate', { min: 0, fallback: 0 }),
+    },
+    hold: hold && {
+      escapePerPress: readNumber(id, hold, 'escapePerPress', { min: 0.01 }),
+      escapeDecay: readNumber(id, hold, 'escapeDecay', { min: 0 }),
+    },
+    submission: submission && {
+      rate: readNumber(id, submission, 'rate', { min: 0.01 }),
+    },
+    aerial: aerial && {
+      hitRange: readNumber(id, aerial, 'hitRange', { min: 0 }),
+      launchVelocityY:
+        aerial.launchVelocityY === undefined ? undefined : readNumber(id, aerial, 'launchVelocityY'),
+      lunge: readNumber(id, aerial, 'lunge', { min: 0, fallback: 0 }),
+      requiresEdge: aerial.requiresEdge === true,
+      landingBalanceCost: readNumber(id, aerial, 'landingBalanceCost', { min: 0, fallback: 0 }),
+      whiffBalanceCost: readNumber(id, aerial, 'whiffBalanceCost', { min: 0, fallback: 0 }),
+      whiffRecovery: readNumber(id, aerial, 'whiffRecovery', { min: 0 }),
+    },
+    points: readNumber(id, raw, 'points', { min: 0 }),
+    fallPointsRatio: readNumber(id, raw, 'fallPointsRatio', { min: 0, fallback: 0 }),
+    counterMinStamina: readNumber(id, raw, 'counterMinStamina', { min: 0, fallback: 0 }),
+    recovery: {
+      success: readNumber(id, recovery, 'success', { min: 0 }),
+      countered: readNumber(id, recovery, 'countered', { min: 0 }),
+    },
+    input: {
+      key: readString(id, input, 'key'),
+      keyP2: readString(id, input, 'keyP2'),
+      gamepadButton: readNumber(id, input, 'gamepadButton', { min: 0 }),
+    },
+    sound: readSound(id, raw, 'sound'),
+    crowd: readSound(id, raw, 'crowd'),
+    ai: {
+      priority: readNumber(id, ai, 'priority'),
+      targetStunned: ai.targetStunned === true ? true : undefined,
+      minStamina: ai.minStamina === undefined ? undefined : readNumber(id, ai, 'minStamina', { min: 0 }),
+      targetBalanceBelow:
+        ai.targetBalanceBelow === undefined ? undefined : readNumber(id, ai, 'targetBalanceBelow', { min: 0 }),
+      maxDistance: ai.maxDistance === undefined ? undefined : readNumber(id, ai, 'maxDistance', { min: 0 }),
+    },
+  };
+}
+
+/**
+ * The control a default key or gamepad button already belongs to, if any
+ */
+function findControlForKey(key: string): ControlInput | undefined {
+  return CONTROL_INPUTS.find((control) => KEY_BINDINGS[control] === key || KEY_BINDINGS_P2[control] === key);
+}
+
+function findControlForButton(button: number): ControlInput | undefined {
+  return CONTROL_INPUTS.find((control) => (GAMEPAD_BUTTONS[control] as readonly number[]).includes(button));
+}
+
+/**
+ * Validate a list of move definitions (throws on the first problem)
+ */
+export function parseMoveDefinitions(data: unknown): MoveDefinition[] {
+  if (!Array.isArray(data) || data.length === 0) {
+    throw new Error('Move definitions must be a non-empty array');
+  }
+
+  const moves = data.map(parseMoveDefinition);
+
+  const ids = new Set<string>();
+  const keys = new Set<string>();
+  // Only one stance's moves can be live at a time, so a gamepad button may carry one move per stance
+  const buttons = new Map<string, MoveType>();
+  for (const move of moves) {
+    if (ids.has(move.id)) {
+      throw new Error(`Move "${move.id}" is defined twice`);
+    }
+    ids.add(move.id);
+
+    for (const key of [move.input.key, move.input.keyP2]) {
+      const control = findControlForKey(key);
+      if (control) {
+        throw new Error(`Move "${move.id}": key ${key} is already bound to the "${control}" control`);
+      }
+      if (keys.has(key)) {
+        throw new Error(`Move "${move.id}": key ${key} is already bound to another move`);
+      }
+      keys.add(key);
+    }
+
+    const control = findControlForButton(move.input.gamepadButton);
+    if (control) {
+      throw new Error(`Move "${move.id}": gamepad button ${move.input.gamepadButton} is already the "${control}" control`);
+    }
+    const button = `${move.stance}:${move.input.gamepadButton}`;
+    const sharing = buttons.get(button);
+    if (sharing) {
+      throw new Error(
+        `Move "${move.id}": gamepad button ${move.input.gamepadButton} is already "${sharing}" in the ${move.stance} stance`
+      );
+    }
+    buttons.set(button, move.id);
+  }
+
+  return moves;
+}
+
+const MOVES: readonly MoveDefinition[] = parseMoveDefinitions(moveData);
+const MOVES_BY_ID = new Map(MOVES.map((move) => [move.id, move]));
+
+/**
+ * All registered moves, in definition order
+ */
+export function getMoveDefinitions(): readonly MoveDefinition[] {
+  return MOVES;
+}
+
+/**
+ * Get one move's definition
+ */
+export function getMoveDefinition(move: MoveType): MoveDefinition {
+  const definition = MOVES_BY_ID.get(move);
+  if (!definition) {
+    throw new Error(`Unknown move type: ${move}`);
+  }
+  return definition;
+}
+
+/**
+ * Registered move ids, optionally only those for one stance
+ */
+export function getMoveIds(stance?: MoveStance): MoveType[] {
+  return MOVES.filter((move) => !stance || move.stance === stance).map((move) => move.id);
+}
+
+/**
+ * The moves in other stances sharing this move's gamepad button (one press of it marks them all)
+ */
+export function getGamepadSiblings(move: MoveType): MoveType[] {
+  const button = getMoveDefinition(move).input.gamepadButton;
+  return MOVES.filter((other) => other.id !== move && other.input.gamepadButton === button).map((other) => other.id);
+}
+
+export function isMoveType(value: string): value is MoveType {
+  return MOVES_BY_ID.has(value as MoveType);
+}
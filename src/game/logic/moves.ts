@@ -4,14 +4,33 @@
  */
 
 import {
-  MOVE_REQUIREMENTS,
-  MOVE_TIMINGS,
   SCORING,
   BEAM_EDGE_ZONE,
   GRAPPLE_RANGE,
+  MAX_STAMINA,
+  SUBMISSION_BALANCE_THRESHOLD,
+  SUBMISSION_STAMINA_THRESHOLD,
 } from '../constants';
-import type { Fighter, MoveType, MoveValidation, MoveResult } from '../types';
-import { isNearEdge, areInGrappleRange, isOnBeam } from './fighter';
+import type { Fighter, MoveStance, MoveType, MoveValidation, MoveResult } from '../types';
+import { isNearEdge, areInGrappleRange, isOnBeam, isInAir, getFighterDistance, canAct } from './fighter';
+import { getMoveDefinition } from './moveRegistry';
+
+/**
+ * Which moves a fighter could start right now - standing moves from a grapple,
+ * low-stance moves from a crouch, one aerial per jump
+ */
+export function getMoveStance(fighter: Fighter): MoveStance | null {
+  if (fighter.state === 'GrappleEngaged') return 'standing';
+  if (fighter.state === 'Crouching') return 'low';
+  if (fighter.state === 'Jumping' && fighter.currentMove === null) return 'aerial';
+  return null;
+}
+
+const STANCE_REASONS: Record<MoveStance, string> = {
+  standing: 'Must be grappling',
+  low: 'Must be crouching',
+  aerial: 'Must be in the air',
+};
 
 /**
  * Validate if a fighter can execute a specific move
@@ -21,11 +40,11 @@ export function validateMove(
   defender: Fighter,
   move: MoveType
 ): MoveValidation {
-  const requirements = MOVE_REQUIREMENTS[move];
+  const { requirements, stance, aerial } = getMoveDefinition(move);
 
-  // Must be in grapple state
-  if (attacker.state !== 'GrappleEngaged') {
-    return { canExecute: false, reason: 'Must be grappling' };
+  // Must be grappling (standing moves), crouched (low-stance moves) or mid-jump (aerials)
+  if (getMoveStance(attacker) !== stance) {
+    return { canExecute: false, reason: STANCE_REASONS[stance] };
   }
 
   // Must be on the beam
@@ -33,11 +52,16 @@ export function validateMove(
     return { canExecute: false, reason: 'Must be on beam' };
   }
 
-  // Check range
-  if (!areInGrappleRange(attacker, defender, GRAPPLE_RANGE)) {
+  // Check range (aerials check theirs when they land)
+  if (!aerial && !areInGrappleRange(attacker, defender, GRAPPLE_RANGE)) {
     return { canExecute: false, reason: 'Out of range' };
   }
 
+  // Some aerials launch off the end of the beam
+  if (aerial?.requiresEdge && !isNearEdge(attacker, BEAM_EDGE_ZONE)) {
+    return { canExecute: false, reason: 'Must be at the edge' };
+  }
+
   // Check balance requirement
   if (attacker.balance < requirements.minBalance) {
     return {
@@ -59,9 +83,32 @@ export function validateMove(
     return { canExecute: false, reason: 'Opponent is falling' };
   }
 
+  // Nothing to grab on a fighter dangling off the edge - stomp them instead
+  if (defender.state === 'Hanging') {
+    return { canExecute: false, reason: 'Opponent is hanging off the beam' };
+  }
+
+  // Low-stance moves go for the legs - nothing to grab mid-jump
+  if (stance === 'low' && isInAir(defender)) {
+    return { canExecute: false, reason: 'Opponent is in the air' };
+  }
+
+  // One move at a time - the defender answers by countering, not with a move of their own
+  if (defender.state === 'ExecutingMove') {
+    return { canExecute: false, reason: 'Opponent is mid-move' };
+  }
+
   return { canExecute: true };
 }
 
+/**
+ * Check if a new move would chain off the fighter's last move
+ */
+export function isInComboWindow(attacker: Fighter, currentTime: number): boolean {
+  if (attacker.lastMoveTime <= 0) return false;
+  return currentTime - attacker.lastMoveTime <= SCORING.bonuses.comboWindow;
+}
+
 /**
  * Calculate bonus multipliers for a move
  */
@@ -79,14 +126,11 @@ export function calculateBonuses(
 
   // Combo bonus: chaining different moves
   let comboMultiplier = 0;
-  if (attacker.lastMoveTime > 0) {
-    const timeSinceLastMove = currentTime - attacker.lastMoveTime;
-    if (timeSinceLastMove <= bonusConfig.comboWindow) {
-      comboMultiplier = Math.min(
-        attacker.comboCount * bonusConfig.comboBonus,
-        bonusConfig.maxComboBonus
-      );
-    }
+  if (isInComboWindow(attacker, currentTime)) {
+    comboMultiplier = Math.min(
+      attacker.comboCount * bonusConfig.comboBonus,
+      bonusConfig.maxComboBonus
+    );
   }
 
   // Calculate total multiplier
@@ -106,7 +150,7 @@ export function calculateMoveScore(
   attacker: Fighter,
   currentTime: number
 ): { points: number; bonuses: { balance: boolean; edge: boolean; combo: number } } {
-  const basePoints = SCORING.moves[move];
+  const basePoints = getMoveDefinition(move).points;
   const bonuses = calculateBonuses(attacker, currentTime);
   const points = Math.round(basePoints * bonuses.total);
 
@@ -124,14 +168,14 @@ export function calculateMoveScore(
  * Get move timing configuration
  */
 export function getMoveTiming(move: MoveType) {
-  return MOVE_TIMINGS[move];
+  return getMoveDefinition(move).timing;
 }
 
 /**
  * Get move requirements configuration
  */
 export function getMoveRequirements(move: MoveType) {
-  return MOVE_REQUIREMENTS[move];
+  return getMoveDefinition(move).requirements;
 }
 
 /**
@@ -143,7 +187,8 @@ export function canCounter(
   defenderStamina: number,
   isDefending: boolean
 ): boolean {
-  const timing = MOVE_TIMINGS[move];
+  const definition = getMoveDefinition(move);
+  const timing = definition.timing;
   const counterWindowRatio = timing.counterWindow / timing.duration;
 
   // Must be within counter window
@@ -156,61 +201,65 @@ export function canCounter(
     return false;
   }
 
-  // Stamina-based escape chance for scissors
-  if (move === 'scissors') {
-    // Mashing escape - stamina determines success
-    return defenderStamina > 30;
-  }
+  // Some holds need stamina to escape (mashing out)
+  return defenderStamina > definition.counterMinStamina || definition.counterMinStamina === 0;
+}
 
-  // For other moves, defending in window is enough
-  return true;
+/**
+ * Escape meter a defender gains per mash press in a hold - tired defenders mash out slower
+ */
+export function getEscapeGain(move: MoveType, defenderStamina: number): number {
+  const hold = getMoveDefinition(move).hold;
+  if (!hold) return 0;
+  return hold.escapePerPress * (defenderStamina / MAX_STAMINA);
 }
 
 /**
- * Execute Pancake move
- * Shove + flatten, defender gets stunned
+ * Check if a fighter is worn down enough to tap out - balance and stamina both critically low
  */
-export function executePancake(
-  attacker: Fighter,
-  _defender: Fighter,
-  currentTime: number,
-  wasCountered: boolean
-): MoveResult {
-  const timing = MOVE_TIMINGS.pancake;
+export function isCriticallyWeak(fighter: Fighter): boolean {
+  return fighter.balance <= SUBMISSION_BALANCE_THRESHOLD && fighter.stamina <= SUBMISSION_STAMINA_THRESHOLD;
+}
 
-  if (wasCountered) {
-    return {
-      success: false,
-      pointsAwarded: 0,
-      bonuses: { balance: false, edge: false, combo: 0 },
-      defenderStunDuration: 0,
-      attackerRecovery: 0.3, // Brief recovery on counter
-    };
-  }
+/**
+ * Submission meter a hold gains over one step (only submission holds on a critically weak defender)
+ */
+export function getSubmissionGain(move: MoveType, defender: Fighter, deltaTime: number): number {
+  const { submission } = getMoveDefinition(move);
+  if (!submission || !isCriticallyWeak(defender)) return 0;
+  return submission.rate * deltaTime;
+}
 
-  const scoreResult = calculateMoveScore('pancake', attacker, currentTime);
+/**
+ * How far through its hold phase (after the counter window) a move is, 0-1
+ */
+export function getHoldProgress(move: MoveType, elapsed: number): number {
+  const { duration, counterWindow } = getMoveDefinition(move).timing;
+  const holdDuration = duration - counterWindow;
+  if (holdDuration <= 0) return 1;
+  return Math.min(1, Math.max(0, (elapsed - counterWindow) / holdDuration));
+}
 
-  return {
-    success: true,
-    pointsAwarded: scoreResult.points,
-    bonuses: scoreResult.bonuses,
-    defenderStunDuration: timing.stunDuration,
-    attackerRecovery: 0.2, // Can quickly follow up
-  };
+/**
+ * Points for a hold the defender escaped - the share of the hold they sat through
+ */
+export function getHoldEscapePoints(move: MoveType, holdProgress: number): number {
+  return Math.round(getMoveDefinition(move).points * holdProgress);
 }
 
 /**
- * Execute Scissors move
- * Leg lock that drains opponent balance
+ * Execute a move and return the result.
+ * Everything move-specific comes from its registry definition.
  */
-export function executeScissors(
+export function executeMove(
+  move: MoveType,
   attacker: Fighter,
-  _defender: Fighter,
+  defender: Fighter,
   currentTime: number,
   wasCountered: boolean,
-  defenderBalanceAfter: number
+  defenderBalanceAfter?: number
 ): MoveResult {
-  const timing = MOVE_TIMINGS.scissors;
+  const definition = getMoveDefinition(move);
 
   if (wasCountered) {
     return {
@@ -218,96 +267,57 @@ export function executeScissors(
       pointsAwarded: 0,
       bonuses: { balance: false, edge: false, combo: 0 },
       defenderStunDuration: 0,
-      attackerRecovery: 0.4,
+      attackerRecovery: definition.recovery.countered,
     };
   }
 
-  // If balance hit 0, defender falls
-  if (defenderBalanceAfter <= 0) {
-    // Partial points for causing fall
+  // Balance-draining moves that knock the defender off score partial points
+  if (definition.timing.balanceDrainRate > 0 && (defenderBalanceAfter ?? defender.balance) <= 0) {
     return {
       success: true,
-      pointsAwarded: Math.round(SCORING.moves.scissors * 0.5),
+      pointsAwarded: Math.round(definition.points * definition.fallPointsRatio),
       bonuses: { balance: false, edge: false, combo: 0 },
       defenderStunDuration: 0, // They're falling instead
-      attackerRecovery: 0.3,
+      attackerRecovery: definition.recovery.success,
     };
   }
 
-  const scoreResult = calculateMoveScore('scissors', attacker, currentTime);
+  const scoreResult = calculateMoveScore(move, attacker, currentTime);
 
   return {
     success: true,
     pointsAwarded: scoreResult.points,
     bonuses: scoreResult.bonuses,
-    defenderStunDuration: timing.stunDuration,
-    attackerRecovery: 0.3,
+    defenderStunDuration: definition.timing.stunDuration,
+    attackerRecovery: definition.recovery.success,
   };
 }
 
 /**
- * Execute Guillotine move
- * Front headlock choke - highest risk/reward
+ * Check if a move is an aerial attack
  */
-export function executeGuillotine(
-  attacker: Fighter,
-  _defender: Fighter,
-  currentTime: number,
-  wasCountered: boolean
-): MoveResult {
-  const timing = MOVE_TIMINGS.guillotine;
-
-  if (wasCountered) {
-    return {
-      success: false,
-      pointsAwarded: 0,
-      bonuses: { balance: false, edge: false, combo: 0 },
-      defenderStunDuration: 0,
-      attackerRecovery: 0.5, // Longer recovery on this risky move
-    };
-  }
-
-  const scoreResult = calculateMoveScore('guillotine', attacker, currentTime);
+export function isAerialMove(move: MoveType | null): move is MoveType {
+  return move !== null && getMoveDefinition(move).stance === 'aerial';
+}
 
-  return {
-    success: true,
-    pointsAwarded: scoreResult.points,
-    bonuses: scoreResult.bonuses,
-    defenderStunDuration: timing.stunDuration,
-    attackerRecovery: 0.2,
-  };
+/**
+ * Horizontal speed an airborne fighter's aerial carries them toward their facing (0 = none)
+ */
+export function getAerialLunge(fighter: Fighter): number {
+  if (fighter.state !== 'Jumping' || !isAerialMove(fighter.currentMove)) return 0;
+  return getMoveDefinition(fighter.currentMove).aerial?.lunge ?? 0;
 }
 
 /**
- * Execute a move and return the result
+ * Check if a landing aerial connects - the defender has to be grounded on the beam
+ * and inside the move's hit range
  */
-export function executeMove(
-  move: MoveType,
-  attacker: Fighter,
-  defender: Fighter,
-  currentTime: number,
-  wasCountered: boolean,
-  defenderBalanceAfter?: number
-): MoveResult {
-  switch (move) {
-    case 'pancake':
-      return executePancake(attacker, defender, currentTime, wasCountered);
-    case 'scissors':
-      return executeScissors(
-        attacker,
-        defender,
-        currentTime,
-        wasCountered,
-        defenderBalanceAfter ?? defender.balance
-      );
-    case 'guillotine':
-      return executeGuillotine(attacker, defender, currentTime, wasCountered);
-    default: {
-      // Exhaustive check
-      const _exhaustiveCheck: never = move;
-      throw new Error(`Unknown move type: ${_exhaustiveCheck}`);
-    }
-  }
+export function checkAerialHit(move: MoveType, attacker: Fighter, defender: Fighter): boolean {
+  const { aerial } = getMoveDefinition(move);
+  if (!aerial) return false;
+  if (defender.state === 'Falling' || defender.state === 'Hanging') return false;
+  if (isInAir(defender) || !isOnBeam(defender)) return false;
+  return getFighterDistance(attacker, defender) <= aerial.hitRange;
 }
 
 /**
@@ -317,9 +327,17 @@ export function getWhiffPenalty(): number {
   return SCORING.penalties.whiffStaminaCost;
 }
 
+/**
+ * Check if a fighter swings at nothing when a move can't start - only a free fighter
+ * standing on the beam whiffs (stunned, busy or airborne fighters just can't start one)
+ */
+export function canWhiff(fighter: Fighter): boolean {
+  return canAct(fighter) && !isInAir(fighter) && isOnBeam(fighter);
+}
+
 /**
  * Get display name for a move
  */
 export function getMoveName(move: MoveType): string {
-  return MOVE_REQUIREMENTS[move].name;
+  return getMoveDefinition(move).name;
 }
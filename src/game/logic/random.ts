@@ -0,0 +1,56 @@
+/**
+ * Beam Brawlers - Seeded Random
+ * Deterministic PRNG so the same seed and inputs always replay the same match
+ */
+
+import type { RngState } from '../types';
+
+/**
+ * Create a fresh RNG state for a seed
+ */
+export function createRng(seed: number): RngState {
+  return { seed: seed >>> 0, cursor: 0 };
+}
+
+/**
+ * Generate a non-deterministic seed (only used at the edges, e.g. app start)
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Get the value at a position in a seed's sequence, in [0, 1).
+ * Mulberry32 mixing applied to seed + cursor so any draw can be recomputed.
+ */
+export function randomAt(seed: number, cursor: number): number {
+  let t = (seed + Math.imul(cursor + 1, 0x6d2b79f5)) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
+/**
+ * Draw the next value in [0, 1) and advance the cursor
+ */
+export function nextRandom(rng: RngState): { value: number; rng: RngState } {
+  return {
+    value: randomAt(rng.seed, rng.cursor),
+    rng: { ...rng, cursor: rng.cursor + 1 },
+  };
+}
+
+/**
+ * Draw an integer in [0, max) and advance the cursor
+ */
+export function nextInt(rng: RngState, max: number): { value: number; rng: RngState } {
+  const roll = nextRandom(rng);
+  return { value: Math.floor(roll.value * max), rng: roll.rng };
+}
+
+/**
+ * Derive a new seed from an RNG state (e.g. for the next match)
+ */
+export function deriveSeed(rng: RngState): number {
+  return Math.floor(randomAt(rng.seed, rng.cursor) * 0x100000000) >>> 0;
+}
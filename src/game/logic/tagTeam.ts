@@ -0,0 +1,100 @@
+/**
+ * Beam Brawlers - Tag Team
+ * Pure functions for two-fighter sides: where partners wait, when they can tag and how they swap
+ */
+
+import {
+  BEAM_LEFT,
+  BEAM_RIGHT,
+  MAX_BALANCE,
+  MAX_STAMINA,
+  TAG_APRON_OFFSET,
+  TAG_REACH,
+  TAG_REST_BALANCE_RATE,
+  TAG_REST_STAMINA_RATE,
+} from '../constants';
+import type { Fighter, GameState } from '../types';
+import { canAct, isInAir } from './fighter';
+import { getBench, getFighter } from './teams';
+
+/**
+ * The end of the beam a side tags at - the end it starts nearest
+ */
+export function getHomeEnd(side: 'player' | 'opponent'): number {
+  return side === 'player' ? BEAM_LEFT : BEAM_RIGHT;
+}
+
+/**
+ * Where a side's waiting partners stand, just past their end of the beam
+ */
+export function getApronX(side: 'player' | 'opponent'): number {
+  return side === 'player' ? BEAM_LEFT - TAG_APRON_OFFSET : BEAM_RIGHT + TAG_APRON_OFFSET;
+}
+
+/**
+ * Check if a fighter is close enough to their own end to reach a partner
+ */
+export function isInTagReach(fighter: Fighter): boolean {
+  return Math.abs(fighter.x - getHomeEnd(fighter.side)) <= TAG_REACH;
+}
+
+/**
+ * The team index of the partner a side would tag in next (the one after the fighter on the beam)
+ */
+export function getNextPartner(state: GameState, side: 'player' | 'opponent'): number {
+  return (state.active[side] + 1) % state.teams[side].length;
+}
+
+/**
+ * Check if a side can tag right now - a partner waiting, the cooldown over, and the
+ * fighter on the beam free (grounded, not tied up in a grapple or pin) and within reach
+ */
+export function canTag(state: GameState, side: 'player' | 'opponent'): boolean {
+  const fighter = getFighter(state, side);
+  if (getBench(state, side).length === 0 || state.tagCooldown[side] > 0) return false;
+  if (state.isGrappling || state.activeMove || state.pinningFighter) return false;
+  if (!canAct(fighter) || isInAir(fighter)) return false;
+  return isInTagReach(fighter);
+}
+
+/**
+ * A waiting partner gets their breath and footing back
+ */
+export function restOnBench(fighter: Fighter, deltaTime: number): Fighter {
+  return {
+    ...fighter,
+    balance: Math.min(MAX_BALANCE, fighter.balance + TAG_REST_BALANCE_RATE * deltaTime),
+    stamina: Math.min(MAX_STAMINA, fighter.stamina + TAG_REST_STAMINA_RATE * deltaTime),
+  };
+}
+
+/**
+ * Send a fighter to wait on the apron - standing, with nothing in progress
+ */
+export function sendToBench(fighter: Fighter): Fighter {
+  return {
+    ...fighter,
+    x: getApronX(fighter.side),
+    y: 0,
+    velocityY: 0,
+    state: 'Idle',
+    stateTimer: 0,
+    currentMove: null,
+    comboCount: 0,
+    isDefending: false,
+    hasJumpedOver: false,
+    climbProgress: 0,
+    lastClimbStep: null,
+  };
+}
+
+/**
+ * Bring a partner in where the outgoing fighter stood
+ */
+export function tagIn(incoming: Fighter, outgoing: Fighter): Fighter {
+  return {
+    ...sendToBench(incoming),
+    x: outgoing.x,
+    facing: outgoing.facing,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Beam Brawlers - Teams
+ * Pure functions over each side's fighters: who's on the beam, who's waiting, and team totals
+ */
+
+import type { Fighter, GameState } from '../types';
+
+/**
+ * The fighter on the beam for a side
+ */
+export function getFighter(state: GameState, side: 'player' | 'opponent'): Fighter {
+  const fighter = state.teams[side][state.active[side]];
+  if (!fighter) {
+    throw new Error(`No active fighter for ${side}`);
+  }
+  return fighter;
+}
+
+/**
+ * Both fighters on the beam
+ */
+export function getFighters(state: GameState): { player: Fighter; opponent: Fighter } {
+  return { player: getFighter(state, 'player'), opponent: getFighter(state, 'opponent') };
+}
+
+/**
+ * Replace the fighter on the beam for a side
+ */
+export function setFighter(state: GameState, side: 'player' | 'opponent', fighter: Fighter): GameState {
+  return {
+    ...state,
+    teams: {
+      ...state.teams,
+      [side]: state.teams[side].map((member, index) => (index === state.active[side] ? fighter : member)),
+    },
+  };
+}
+
+/**
+ * Every fighter on a side, in team order
+ */
+export function getTeam(state: GameState, side: 'player' | 'opponent'): Fighter[] {
+  return state.teams[side];
+}
+
+/**
+ * The fighters on a side waiting off the beam (none in singles)
+ */
+export function getBench(state: GameState, side: 'player' | 'opponent'): Fighter[] {
+  return state.teams[side].filter((_, index) => index !== state.active[side]);
+}
+
+/**
+ * A side's score (in singles, just the fighter's own)
+ */
+export function getTeamScore(state: GameState, side: 'player' | 'opponent'): number {
+  return getTeam(state, side).reduce((sum, fighter) => sum + fighter.score, 0);
+}
+
+export function getTeamFalls(state: GameState, side: 'player' | 'opponent'): number {
+  return getTeam(state, side).reduce((sum, fighter) => sum + fighter.falls, 0);
+}
+
+/**
+ * A side's display name - the fighters' names in team order
+ */
+export function getTeamName(state: GameState, side: 'player' | 'opponent'): string {
+  return getTeam(state, side)
+    .map((fighter) => fighter.name)
+    .join(' & ');
+}
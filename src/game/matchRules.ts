@@ -0,0 +1,144 @@
+/**
+ * Beam Brawlers - Match Rules
+ * Named rule presets, a plain-language summary of each, and the last pick persisted in localStorage
+ */
+
+import {
+  DEFAULT_MATCH_PRESET,
+  MATCH_PRESETS,
+  MATCH_PRESET_KEY,
+  MATCH_ROUNDS_KEY,
+  MATCH_TAG_TEAM_KEY,
+  ROUND_OPTIONS,
+} from './constants';
+import type { MatchConfig, MatchPreset, MatchPresetId } from './types';
+
+/**
+ * All presets, in menu order
+ */
+export function getMatchPresets(): MatchPreset[] {
+  return Object.values(MATCH_PRESETS);
+}
+
+export function isMatchPresetId(value: string): value is MatchPresetId {
+  return Object.hasOwn(MATCH_PRESETS, value);
+}
+
+/**
+ * Get one preset
+ */
+export function getMatchPreset(id: MatchPresetId): MatchPreset {
+  const preset = MATCH_PRESETS[id];
+  if (!preset) {
+    throw new Error(`Unknown match preset: ${id}`);
+  }
+  return preset;
+}
+
+/**
+ * Display name for a round count
+ */
+export function formatRounds(rounds: number): string {
+  return rounds <= 1 ? 'Single Bout' : `Best of ${rounds}`;
+}
+
+/**
+ * Display name for the match format
+ */
+export function formatTagTeam(tagTeam: boolean): string {
+  return tagTeam ? 'Tag Team' : 'Singles';
+}
+
+/**
+ * One short line per rule, for the rules screen
+ */
+export function describeMatchConfig(config: MatchConfig): string[] {
+  const rules = [
+    config.matchDuration === null ? 'No time limit' : `${config.matchDuration}s on the clock`,
+    `${config.pinDuration}s pin count (${config.minBalanceForPin}+ balance to pin)`,
+    `${config.fallPenalty} points per fall`,
+  ];
+  if (config.pinsOnly) {
+    rules.push('Pins only - no tap-outs');
+  } else if (config.maxFalls !== null) {
+    rules.push(`${config.maxFalls} falls and you lose`);
+  }
+  if (config.overtime && config.matchDuration !== null) {
+    rules.push('Sudden-death overtime on a tie');
+  }
+  if (config.rounds > 1) {
+    rules.push(`${formatRounds(config.rounds)} rounds`);
+  }
+  if (config.tagTeam) {
+    rules.push('Tag team - two fighters a side');
+  }
+  return rules;
+}
+
+/**
+ * Load the last picked preset (the default if none is saved or storage is unavailable)
+ */
+export function loadMatchPreset(): MatchPresetId {
+  try {
+    const stored = localStorage.getItem(MATCH_PRESET_KEY);
+    return stored !== null && isMatchPresetId(stored) ? stored : DEFAULT_MATCH_PRESET;
+  } catch {
+    return DEFAULT_MATCH_PRESET;
+  }
+}
+
+/**
+ * Save the picked preset
+ */
+export function saveMatchPreset(id: MatchPresetId): void {
+  try {
+    localStorage.setItem(MATCH_PRESET_KEY, id);
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+/**
+ * Load the last picked round count (a single bout if none is saved)
+ */
+export function loadMatchRounds(): number {
+  try {
+    const stored = Number(localStorage.getItem(MATCH_ROUNDS_KEY));
+    return (ROUND_OPTIONS as readonly number[]).includes(stored) ? stored : ROUND_OPTIONS[0];
+  } catch {
+    return ROUND_OPTIONS[0];
+  }
+}
+
+/**
+ * Save the picked round count
+ */
+export function saveMatchRounds(rounds: number): void {
+  try {
+    localStorage.setItem(MATCH_ROUNDS_KEY, String(rounds));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
+
+/**
+ * Load the last picked format (singles if none is saved)
+ */
+export function loadMatchTagTeam(): boolean {
+  try {
+    return localStorage.getItem(MATCH_TAG_TEAM_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Save the picked format
+ */
+export function saveMatchTagTeam(tagTeam: boolean): void {
+  try {
+    localStorage.setItem(MATCH_TAG_TEAM_KEY, String(tagTeam));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Beam Brawlers - Replays
+ * Records every dispatched action with the match seed and plays it back through the reducer
+ */
+
+import { REPLAY_FORMAT, REPLAY_FORMAT_VERSION, CONFIG_VERSION } from './constants';
+import type { GameAction, GameState, Replay } from './types';
+import { gameReducer } from './gameReducer';
+import { createInitialState } from './logic/gameState';
+
+type Reducer = (state: GameState, action: GameAction) => GameState;
+
+/**
+ * Collects the actions of a single match
+ */
+export class ReplayRecorder {
+  private seed: number = 0;
+  private actions: GameAction[] = [];
+  private recording: boolean = false;
+
+  /**
+   * Start a new recording (discards any previous one)
+   */
+  start(seed: number): void {
+    this.seed = seed;
+    this.actions = [];
+    this.recording = true;
+  }
+
+  /**
+   * Record a dispatched action (ignored when not recording)
+   */
+  record(action: GameAction): void {
+    if (this.recording) {
+      this.actions.push(action);
+    }
+  }
+
+  /**
+   * Stop recording, keeping what was recorded
+   */
+  stop(): void {
+    this.recording = false;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Get the recorded match as a replay (null if nothing was recorded)
+   */
+  getReplay(): Replay | null {
+    if (this.actions.length === 0) return null;
+    return {
+      format: REPLAY_FORMAT,
+      version: REPLAY_FORMAT_VERSION,
+      configVersion: CONFIG_VERSION,
+      seed: this.seed,
+      actions: [...this.actions],
+    };
+  }
+}
+
+/**
+ * Serialize a replay to JSON for saving/sharing
+ */
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse and validate a replay file
+ */
+export function parseReplay(json: string): Replay {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Replay file is empty');
+  }
+
+  const replay = data as Partial<Replay>;
+  if (replay.format !== REPLAY_FORMAT) {
+    throw new Error('Not a Beam Brawlers replay');
+  }
+  if (replay.version !== REPLAY_FORMAT_VERSION) {
+    throw new Error(`Unsupported replay version ${replay.version}`);
+  }
+  if (replay.configVersion !== CONFIG_VERSION) {
+    throw new Error(`Replay was recorded with game config v${replay.configVersion} (current v${CONFIG_VERSION})`);
+  }
+  if (typeof replay.seed !== 'number' || !Array.isArray(replay.actions)) {
+    throw new Error('Replay is missing its seed or actions');
+  }
+  if (!replay.actions.every((action) => typeof action === 'object' && action !== null && 'type' in action)) {
+    throw new Error('Replay contains an invalid action');
+  }
+
+  return replay as Replay;
+}
+
+/**
+ * Steps through a replay one simulation step (UPDATE) at a time
+ */
+export class ReplayPlayer {
+  private readonly replay: Replay;
+  private readonly reducer: Reducer;
+  private state: GameState;
+  private cursor: number = 0;
+
+  constructor(replay: Replay, reducer: Reducer = gameReducer) {
+    this.replay = replay;
+    this.reducer = reducer;
+    this.state = createInitialState(replay.seed);
+  }
+
+  /**
+   * Apply actions up to and including the next UPDATE
+   */
+  step(): GameState {
+    while (this.cursor < this.replay.actions.length) {
+      const action = this.replay.actions[this.cursor++];
+      this.state = this.reducer(this.state, action);
+      if (action.type === 'UPDATE') break;
+    }
+    return this.state;
+  }
+
+  getState(): GameState {
+    return this.state;
+  }
+
+  /**
+   * Playback progress (0-1)
+   */
+  getProgress(): number {
+    const total = this.replay.actions.length;
+    return total === 0 ? 1 : this.cursor / total;
+  }
+
+  isFinished(): boolean {
+    return this.cursor >= this.replay.actions.length;
+  }
+}
+
+/**
+ * Play a whole replay and return the final state
+ */
+export function playReplay(replay: Replay, reducer: Reducer = gameReducer): GameState {
+  const player = new ReplayPlayer(replay, reducer);
+  while (!player.isFinished()) {
+    player.step();
+  }
+  return player.getState();
+}
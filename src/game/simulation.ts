@@ -0,0 +1,258 @@
+/**
+ * Beam Brawlers - Headless Match Simulator
+ * Plays AI-vs-AI matches at full speed (no canvas, React or audio) for balance tuning
+ */
+
+import { COUNTDOWN_DURATION, DEFAULT_MATCH_CONFIG, OVERTIME_DURATION, OVERTIME_INTRO_DURATION } from './constants';
+import type {
+  AIDecision,
+  FighterInputs,
+  GameAction,
+  GameEndReason,
+  GameResult,
+  GameState,
+  MatchConfig,
+  MoveType,
+} from './types';
+import { gameReducer } from './gameReducer';
+import { AIController, getDecisionActions, decisionToInput } from './ai';
+import { createInitialState } from './logic/gameState';
+import { hasFallenOff } from './logic/fighter';
+import { getFighter } from './logic/teams';
+import { createRng, deriveSeed, nextInt, nextRandom } from './logic/random';
+import { getMoveIds } from './logic/moveRegistry';
+import type { ReplayRecorder } from './replay';
+
+export type GameReducer = (state: GameState, action: GameAction) => GameState;
+
+/**
+ * Anything that can drive a fighter like AIController does
+ */
+export interface SimulationAgent {
+  decide(state: GameState): AIDecision;
+  reset(seed?: number): void;
+}
+
+export interface SimulationOptions {
+  reducer?: GameReducer;
+  player: SimulationAgent;
+  opponent: SimulationAgent;
+  seed: number;
+  config?: MatchConfig; // The rules to play under (default: exhibition)
+  stepSize?: number; // seconds per simulation step
+  recorder?: ReplayRecorder; // Records the match for replay/regression tests
+}
+
+export interface MatchStats {
+  seed: number;
+  result: GameResult;
+  falls: { player: number; opponent: number };
+  moveCounts: Record<MoveType, number>;
+  steps: number;
+}
+
+export interface BatchReport {
+  matches: number;
+  wins: { player: number; opponent: number; draw: number };
+  winRates: { player: number; opponent: number; draw: number };
+  averageScores: { player: number; opponent: number };
+  endReasons: Record<GameEndReason, number>;
+  averageFalls: number; // falls per match (both fighters)
+  moveUsage: Record<MoveType, number>; // total executions across all matches
+}
+
+const DEFAULT_STEP_SIZE = 1 / 60;
+const UNTIMED_ROUND_LIMIT = 600; // seconds an untimed round may run before the simulator gives up
+const OVERTIME_PERIOD_LIMIT = 5; // sudden-death periods allowed for in the step cap
+
+/**
+ * Create an empty move counter
+ */
+function createMoveCounts(): Record<MoveType, number> {
+  return Object.fromEntries(getMoveIds().map((move) => [move, 0]));
+}
+
+/**
+ * Safety cap on steps for a match under these rules: every round at full length
+ * (plus a few overtime periods), with generous slack
+ */
+function getMaxSteps(config: MatchConfig, stepSize: number): number {
+  const overtime = config.overtime ? OVERTIME_PERIOD_LIMIT * (OVERTIME_INTRO_DURATION + OVERTIME_DURATION) : 0;
+  const roundTime = COUNTDOWN_DURATION + (config.matchDuration ?? UNTIMED_ROUND_LIMIT) + overtime;
+  return Math.ceil((roundTime * config.rounds) / stepSize) * 2;
+}
+
+/**
+ * Play a single match to GameOver
+ */
+export function simulateMatch(options: SimulationOptions): MatchStats {
+  const reducer = options.reducer ?? gameReducer;
+  const stepSize = options.stepSize ?? DEFAULT_STEP_SIZE;
+  const config = options.config ?? DEFAULT_MATCH_CONFIG;
+  const maxSteps = getMaxSteps(config, stepSize);
+
+  const falls = { player: 0, opponent: 0 };
+  const moveCounts = createMoveCounts();
+
+  let state = createInitialState(options.seed, 'vsAI', config);
+
+  const apply = (action: GameAction) => {
+    const before = state;
+    options.recorder?.record(action);
+    state = reducer(state, action);
+
+    if (action.type === 'EXECUTE_MOVE') {
+      const fighter = getFighter(state, action.fighter);
+      if (getFighter(before, action.fighter).state !== 'ExecutingMove' && fighter.currentMove === action.move) {
+        moveCounts[action.move]++;
+      }
+    } else if (action.type === 'FIGHTER_FELL') {
+      falls[action.fighter]++;
+    }
+  };
+
+  options.recorder?.start(options.seed);
+  // The rules only go in the recording when they aren't the default, so default replays are unchanged
+  apply(options.config ? { type: 'START_GAME', seed: options.seed, config } : { type: 'START_GAME', seed: options.seed });
+  // Each agent gets its own seed, so two of the same AI don't roll in lockstep,
+  // and who acts first each step is a coin flip from a third
+  let seeds = state.rng;
+  const nextSeed = () => {
+    const seed = deriveSeed(seeds);
+    seeds = nextRandom(seeds).rng;
+    return seed;
+  };
+  options.player.reset(nextSeed());
+  options.opponent.reset(nextSeed());
+  let turnOrder = createRng(nextSeed());
+
+  let steps = 0;
+  while (state.scene !== 'GameOver' && steps < maxSteps) {
+    const inputs: FighterInputs = {
+      player: decisionToInput({ action: 'idle' }),
+      opponent: decisionToInput({ action: 'idle' }),
+    };
+
+    if (state.scene === 'Playing' && !state.isPaused) {
+      const decisions = { player: options.player.decide(state), opponent: options.opponent.decide(state) };
+      inputs.player = decisionToInput(decisions.player);
+      inputs.opponent = decisionToInput(decisions.opponent);
+
+      // Whoever acts first wins a same-step grapple, so neither side always goes first
+      const flip = nextRandom(turnOrder);
+      turnOrder = flip.rng;
+      const order = flip.value < 0.5 ? (['player', 'opponent'] as const) : (['opponent', 'player'] as const);
+      for (const fighterId of order) {
+        for (const action of getDecisionActions(decisions[fighterId], state, fighterId)) {
+          apply(action);
+        }
+      }
+
+      if (hasFallenOff(getFighter(state, 'player'))) {
+        apply({ type: 'FIGHTER_FELL', fighter: 'player' });
+      }
+      if (hasFallenOff(getFighter(state, 'opponent'))) {
+        apply({ type: 'FIGHTER_FELL', fighter: 'opponent' });
+      }
+    }
+
+    // Best-of matches go straight on to the next round - the clock starts over, so the agents do too
+    if (state.scene === 'RoundOver') {
+      apply({ type: 'NEXT_ROUND' });
+      options.player.reset(nextSeed());
+      options.opponent.reset(nextSeed());
+    }
+
+    apply({ type: 'UPDATE', deltaTime: stepSize, inputs });
+    steps++;
+  }
+
+  if (!state.result) {
+    throw new Error(`Match with seed ${options.seed} did not finish in ${maxSteps} steps`);
+  }
+  options.recorder?.stop();
+
+  return {
+    seed: options.seed,
+    result: state.result,
+    falls,
+    moveCounts,
+    steps,
+  };
+}
+
+/**
+ * Play N matches with seeds derived from a base seed and aggregate the results
+ */
+export function simulateBatch(options: {
+  matches: number;
+  seed: number;
+  config?: MatchConfig;
+  reducer?: GameReducer;
+  createAgents?: () => { player: SimulationAgent; opponent: SimulationAgent };
+}): BatchReport {
+  const createAgents = options.createAgents ?? (() => ({
+    player: new AIController(0, 'player'),
+    opponent: new AIController(0, 'opponent'),
+  }));
+
+  const report: BatchReport = {
+    matches: options.matches,
+    wins: { player: 0, opponent: 0, draw: 0 },
+    winRates: { player: 0, opponent: 0, draw: 0 },
+    averageScores: { player: 0, opponent: 0 },
+    endReasons: { pin: 0, timeout: 0, surrender: 0, falls: 0, overtime: 0, decision: 0 },
+    averageFalls: 0,
+    moveUsage: createMoveCounts(),
+  };
+  if (options.matches <= 0) return report;
+
+  let seeds = createRng(options.seed);
+  let totalFalls = 0;
+
+  for (let i = 0; i < options.matches; i++) {
+    const roll = nextInt(seeds, 0x100000000);
+    seeds = roll.rng;
+
+    const stats = simulateMatch({ ...createAgents(), reducer: options.reducer, config: options.config, seed: roll.value });
+
+    report.wins[stats.result.winner]++;
+    report.endReasons[stats.result.reason]++;
+    report.averageScores.player += stats.result.playerScore;
+    report.averageScores.opponent += stats.result.opponentScore;
+    totalFalls += stats.falls.player + stats.falls.opponent;
+    for (const move of Object.keys(stats.moveCounts) as MoveType[]) {
+      report.moveUsage[move] += stats.moveCounts[move];
+    }
+  }
+
+  const n = options.matches;
+  report.winRates = {
+    player: report.wins.player / n,
+    opponent: report.wins.opponent / n,
+    draw: report.wins.draw / n,
+  };
+  report.averageScores = {
+    player: report.averageScores.player / n,
+    opponent: report.averageScores.opponent / n,
+  };
+  report.averageFalls = totalFalls / n;
+
+  return report;
+}
+
+/**
+ * Format a batch report as plain text for the console
+ */
+export function formatBatchReport(report: BatchReport): string {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const lines = [
+    `Matches: ${report.matches}`,
+    `Win rate: player ${pct(report.winRates.player)} / opponent ${pct(report.winRates.opponent)} / draw ${pct(report.winRates.draw)}`,
+    `Average score: player ${report.averageScores.player.toFixed(0)} / opponent ${report.averageScores.opponent.toFixed(0)}`,
+    `End reasons: ${Object.entries(report.endReasons).map(([reason, count]) => `${reason} ${count}`).join(', ')}`,
+    `Falls per match: ${report.averageFalls.toFixed(2)}`,
+    `Move usage: ${Object.entries(report.moveUsage).map(([move, count]) => `${move} ${count}`).join(', ')}`,
+  ];
+  return lines.join('\n');
+}
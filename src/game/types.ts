@@ -2,6 +2,8 @@
  * Beam Brawlers - Type Definitions
  */
 
+import type { SOUND_EFFECTS } from './logic/moveRegistry';
+
 // =============================================================================
 // FIGHTER TYPES
 // =============================================================================
@@ -9,23 +11,29 @@
 export type FighterState =
   | 'Idle'
   | 'Moving'
+  | 'Crouching'
   | 'Jumping'
   | 'GrappleEngaged'
   | 'ExecutingMove'
   | 'Stunned'
+  | 'Held' // locked in an opponent's hold - can only mash to escape
+  | 'Hanging' // clinging to the beam edge - alternate left/right to climb back up
   | 'Falling'
   | 'Pinned'
   | 'Pinning'
   | 'Recovering';
 
-export type MoveType = 'pancake' | 'scissors' | 'guillotine';
+// Move ids come from the move registry (data/moves.json), validated at load -
+// branded so a plain string has to pass isMoveType before it can name a move
+export type MoveType = string & { readonly __brand: 'MoveType' };
 
-export type GrappleMoveType = 'pancake' | 'scissors' | 'guillotine';
+export type GrappleMoveType = MoveType;
 
 export type FacingDirection = 'left' | 'right';
 
 export interface Fighter {
-  id: 'player' | 'opponent';
+  id: string; // Unique in the match: side plus place in the team ('player-1', 'opponent-2')
+  side: 'player' | 'opponent'; // The side the fighter is on (tag partners share it)
   name: string; // Display name (Zappa song title)
   x: number; // Position along beam
   y: number; // Vertical offset from beam (0 = on beam, negative = in air)
@@ -34,28 +42,91 @@ export interface Fighter {
   state: FighterState;
   balance: number; // 0-100
   stamina: number; // 0-100
+  momentum: number; // 0-100 (full unlocks the signature finisher)
   score: number;
+  falls: number; // Times knocked off the beam this match
   
   // Timers (in seconds, countdown to 0)
   stateTimer: number;
   currentMove: MoveType | null;
   comboCount: number;
-  lastMoveTime: number; // timestamp of last successful move
+  lastMoveTime: number; // simulation time (seconds) of last successful move, 0 = none
   
   // Defense
   isDefending: boolean;
   
   // Jump tracking
   hasJumpedOver: boolean; // Track if jumped over opponent this jump
+
+  // Edge hanging
+  climbProgress: number; // 0-1 while Hanging (1 = back on the beam)
+  lastClimbStep: FacingDirection | null; // Steps have to alternate to count
+
+  // What the judges' panel has seen this bout
+  judging: JudgingStats;
+}
+
+// =============================================================================
+// JUDGING TYPES
+// =============================================================================
+
+export interface JudgingStats {
+  timeJudged: number; // seconds of live play on the beam
+  timeBalanced: number; // seconds at or above JUDGING.balancedThreshold
+  timeWobbling: number; // seconds below LOW_BALANCE_THRESHOLD or clinging to the edge
+  timeAtEdge: number; // seconds worked inside the beam's edge zone
+  movesLanded: MoveType[]; // Each distinct move landed, in the order first landed
+  jumps: number;
+  jumpOvers: number;
+  bestCombo: number; // Longest chain of moves landed
+}
+
+// Each category is marked out of 10
+export interface JudgingCategories {
+  execution: number; // Staying balanced, no wobbles or falls
+  difficulty: number; // Move variety and edge work
+  artistry: number; // Jumps, jump-overs and combos
+}
+
+export interface Scorecard {
+  categories: JudgingCategories;
+  marks: number[]; // One mark per judge (see JUDGE_PANEL), out of 10 to one decimal
+  total: number; // Sum of the marks
 }
 
 // =============================================================================
 // GAME STATE TYPES
 // =============================================================================
 
-export type GameScene = 'Title' | 'HowToPlay' | 'Countdown' | 'Playing' | 'Paused' | 'GameOver';
+export type GameScene = 'Title' | 'HowToPlay' | 'Controls' | 'Rules' | 'Countdown' | 'Playing' | 'Overtime' | 'RoundOver' | 'Paused' | 'GameOver' | 'Replay';
+
+// overtime = first score in sudden death, decision = the judges broke a tie at the bell
+export type GameEndReason = 'pin' | 'timeout' | 'surrender' | 'falls' | 'overtime' | 'decision';
 
-export type GameEndReason = 'pin' | 'timeout' | 'surrender';
+export type GameMode = 'vsAI' | 'versus'; // versus = two humans on one keyboard
+
+// The rules a match is played under (see MATCH_PRESETS)
+export interface MatchConfig {
+  matchDuration: number | null; // seconds, null = no time limit
+  pinDuration: number; // seconds a pin has to be held to win
+  minBalanceForPin: number; // Attacker needs at least this balance to pin
+  fallResetDelay: number; // seconds a fallen fighter tumbles before the reset
+  fallPenalty: number; // Points for falling off (negative)
+  maxFalls: number | null; // Falling off this many times loses the match, null = no limit
+  pinsOnly: boolean; // Only a pin wins - submissions and the falls limit are off
+  overtime: boolean; // A tie at the bell goes to sudden-death overtime instead of a draw
+  rounds: number; // Best of this many rounds (1 = a single bout)
+  tagTeam: boolean; // Each side fields a partner waiting at their end of the beam to tag in
+}
+
+export type MatchPresetId = 'exhibition' | 'quick' | 'tournament' | 'pinsOnly';
+
+export interface MatchPreset {
+  id: MatchPresetId;
+  name: string;
+  description: string;
+  config: MatchConfig;
+}
 
 export interface GameResult {
   winner: 'player' | 'opponent' | 'draw';
@@ -63,57 +134,110 @@ export interface GameResult {
   playerScore: number;
   opponentScore: number;
   matchDuration: number;
+  overtime: boolean; // Decided in sudden-death overtime
+  scorecards: { player: Scorecard; opponent: Scorecard }; // The judges' panel
+}
+
+export interface RngState {
+  seed: number; // Match seed (same seed + same inputs = same match)
+  cursor: number; // Number of values drawn so far
 }
 
 export interface Callout {
   id: string;
   text: string;
   subtext?: string;
-  timestamp: number;
+  timestamp: number; // simulation time (seconds) when shown
+}
+
+// A grapple move that's playing out - it lands once its counter window closes
+export interface ActiveMove {
+  attacker: 'player' | 'opponent';
+  move: MoveType;
+  elapsed: number; // seconds since the move started
+  startTime: number; // simulation time the move started
+  counterAttempted: boolean; // the defender gets one defend press per move
+  holding: boolean; // hold moves: past the counter window with the defender locked in
+  escapeProgress: number; // 0-1, the defender's mash-out meter while held
+  defendHeld: boolean; // defender's defend input last step (a mash counts on press)
+  submissionProgress: number; // 0-1, submission holds: full means the defender taps out
+}
+
+// The last signature finisher performed (the renderer plays its flourish for a while)
+export interface FinisherFlourish {
+  fighter: 'player' | 'opponent';
+  name: string;
+  startTime: number; // simulation time it was performed
 }
 
 export interface GameState {
   scene: GameScene;
+  mode: GameMode;
+  config: MatchConfig;
   
   // Match state
-  matchTimer: number; // seconds remaining
+  matchTimer: number; // seconds remaining (stays at 0 with no time limit)
+  overtimePeriod: number; // 0 in regulation, then 1, 2... for each sudden-death period
+  
+  // Rounds (best-of matches)
+  round: number; // 1-based round in progress
+  roundWins: { player: number; opponent: number };
+  roundHistory: GameResult[]; // Result of each finished round, in order
+  elapsedTime: number; // simulation clock in seconds (advances only while playing)
   countdownTimer: number;
   isPaused: boolean;
   
-  // Fighters
-  player: Fighter;
-  opponent: Fighter;
+  // Fighters - each side's team (one fighter, two in tag team) and which of them is on the beam
+  teams: { player: Fighter[]; opponent: Fighter[] };
+  active: { player: number; opponent: number }; // Index into the side's team
+  tagCooldown: { player: number; opponent: number }; // seconds until each side can tag again
   
   // Grapple state
   isGrappling: boolean;
   grappleInitiator: 'player' | 'opponent' | null;
+  activeMove: ActiveMove | null; // grapple move still inside its counter window
   
   // Pin state
   pinProgress: number; // 0-1 (1 = pin complete)
   pinningFighter: 'player' | 'opponent' | null;
+  kickOutProgress: number; // 0-1 (1 = pinned fighter kicks out)
+  kickOutPressHeld: boolean; // pinned fighter's defend input last step (a kick counts on press)
+  
+  // Finisher state
+  finisher: FinisherFlourish | null;
   
   // UI state
   currentCallout: Callout | null;
   
   // Result (set when game ends)
   result: GameResult | null;
+  
+  // Deterministic randomness for the match
+  rng: RngState;
 }
 
 // =============================================================================
 // INPUT TYPES
 // =============================================================================
 
-export interface InputState {
-  moveLeft: boolean;
-  moveRight: boolean;
-  jump: boolean;
-  crouch: boolean;
-  grapple: boolean;
-  pancake: boolean;
-  scissors: boolean;
-  guillotine: boolean;
-  pin: boolean;
-  defend: boolean;
+// Fixed controls - every registered move adds its own input on top
+export type ControlInput =
+  | 'moveLeft'
+  | 'moveRight'
+  | 'jump'
+  | 'crouch'
+  | 'grapple'
+  | 'pin'
+  | 'defend'
+  | 'finisher'
+  | 'tag';
+
+export type InputState = Record<ControlInput, boolean> & { [move: MoveType]: boolean };
+
+// Held input for each fighter this step (humans via InputManager, AI via its decision)
+export interface FighterInputs {
+  player: InputState;
+  opponent: InputState;
 }
 
 // =============================================================================
@@ -121,26 +245,47 @@ export interface InputState {
 // =============================================================================
 
 export type GameAction =
-  | { type: 'START_GAME' }
+  | { type: 'START_GAME'; seed?: number; mode?: GameMode; config?: MatchConfig }
   | { type: 'SHOW_HOW_TO_PLAY' }
   | { type: 'HIDE_HOW_TO_PLAY' }
+  | { type: 'SHOW_CONTROLS' }
+  | { type: 'HIDE_CONTROLS' }
+  | { type: 'SHOW_RULES' }
+  | { type: 'HIDE_RULES' }
   | { type: 'PAUSE' }
   | { type: 'RESUME' }
-  | { type: 'RESTART' }
-  | { type: 'UPDATE'; deltaTime: number; input: InputState }
+  | { type: 'RESTART'; seed?: number }
+  | { type: 'NEXT_ROUND' }
+  | { type: 'UPDATE'; deltaTime: number; inputs: FighterInputs }
   | { type: 'ATTEMPT_GRAPPLE'; initiator: 'player' | 'opponent' }
   | { type: 'BREAK_GRAPPLE' }
   | { type: 'EXECUTE_MOVE'; fighter: 'player' | 'opponent'; move: MoveType }
   | { type: 'MOVE_COMPLETE'; fighter: 'player' | 'opponent'; success: boolean }
   | { type: 'ATTEMPT_PIN'; attacker: 'player' | 'opponent' }
+  | { type: 'PERFORM_FINISHER'; fighter: 'player' | 'opponent' }
   | { type: 'FIGHTER_FELL'; fighter: 'player' | 'opponent' }
   | { type: 'JUMP'; fighter: 'player' | 'opponent' }
   | { type: 'LAND'; fighter: 'player' | 'opponent'; stompedOpponent: boolean }
   | { type: 'JUMPED_OVER'; fighter: 'player' | 'opponent' }
+  | { type: 'TAG'; fighter: 'player' | 'opponent' } // Swap the fighter on the beam for their waiting partner
   | { type: 'RESET_POSITIONS' }
   | { type: 'SHOW_CALLOUT'; text: string; subtext?: string }
   | { type: 'CLEAR_CALLOUT' }
-  | { type: 'END_MATCH'; winner: 'player' | 'opponent' | 'draw'; reason: GameEndReason };
+  | { type: 'END_MATCH'; winner: 'player' | 'opponent' | 'draw'; reason: GameEndReason }
+  | { type: 'START_REPLAY' }
+  | { type: 'STOP_REPLAY' };
+
+// =============================================================================
+// REPLAY TYPES
+// =============================================================================
+
+export interface Replay {
+  format: string; // Always REPLAY_FORMAT
+  version: number; // Replay file layout version
+  configVersion: number; // Gameplay tuning version the match was played with
+  seed: number;
+  actions: GameAction[]; // Every action dispatched during the match, in order
+}
 
 // =============================================================================
 // MOVE RESULT TYPES
@@ -163,11 +308,91 @@ export interface MoveResult {
   attackerRecovery: number;
 }
 
+// =============================================================================
+// AUDIO TYPES
+// =============================================================================
+
+// Synthesized sound effects (see engine/audio.ts), listed in the move registry's SOUND_EFFECTS
+export type SoundEffect = (typeof SOUND_EFFECTS)[number];
+
+// =============================================================================
+// MOVE REGISTRY TYPES
+// =============================================================================
+
+// Standing moves come out of a grapple, low-stance moves out of a crouch, aerials mid-jump
+export type MoveStance = 'standing' | 'low' | 'aerial';
+
+// One grapple move, declared in data/moves.json
+export interface MoveDefinition {
+  id: MoveType;
+  name: string;
+  description: string;
+  stance: MoveStance;
+  requirements: {
+    minBalance: number;
+    staminaCost: number;
+  };
+  timing: {
+    duration: number; // aerials: 0 - they resolve on landing
+    counterWindow: number; // aerials: 0 - they can't be countered
+    stunDuration: number;
+    balanceDrainRate: number; // per second while held for holds, otherwise taken on landing (0 = none)
+  };
+  hold?: {
+    escapePerPress: number; // escape meter per mash at full stamina
+    escapeDecay: number; // escape meter lost per second
+  };
+  submission?: {
+    rate: number; // submission meter per second while the held defender is critically weak (holds only)
+  };
+  aerial?: {
+    hitRange: number; // connects if the opponent is this close when the attacker lands
+    launchVelocityY?: number; // vertical velocity set when the move starts (positive = dive down)
+    lunge: number; // horizontal speed toward the facing direction until landing
+    requiresEdge: boolean; // has to be launched from the beam's edge zone
+    landingBalanceCost: number; // attacker balance lost on landing, hit or miss
+    whiffBalanceCost: number; // extra balance lost on a miss
+    whiffRecovery: number; // seconds the attacker is left recovering after a miss
+  };
+  points: number;
+  fallPointsRatio: number; // share of points when the drain knocks the defender off
+  counterMinStamina: number; // defender stamina needed to counter (0 = any)
+  recovery: {
+    success: number;
+    countered: number; // attacker is stunned this long after a reversal
+  };
+  input: {
+    key: string;
+    keyP2: string;
+    gamepadButton: number;
+  };
+  sound: SoundEffect;
+  crowd: SoundEffect; // crowd reaction
+  ai: {
+    priority: number; // lower is tried first
+    targetStunned?: boolean;
+    minStamina?: number;
+    targetBalanceBelow?: number;
+    maxDistance?: number; // only tried with the target this close
+  };
+}
+
 // =============================================================================
 // AI TYPES
 // =============================================================================
 
 export interface AIDecision {
-  action: 'idle' | 'moveLeft' | 'moveRight' | 'grapple' | 'executeMove' | 'attemptPin' | 'defend' | 'jump';
+  action:
+    | 'idle'
+    | 'moveLeft'
+    | 'moveRight'
+    | 'grapple'
+    | 'executeMove'
+    | 'attemptPin'
+    | 'finisher'
+    | 'defend'
+    | 'jump'
+    | 'crouch'
+    | 'tag';
   move?: MoveType;
 }
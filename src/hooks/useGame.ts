@@ -3,28 +3,146 @@
  * Custom hook that manages game state and loop
  */
 
-import { useReducer, useEffect, useRef, useCallback } from 'react';
+import { useReducer, useState, useEffect, useRef, useCallback } from 'react';
 import { gameReducer, getInitialState } from '../game/gameReducer';
 import { GameLoop } from '../engine/gameLoop';
-import { InputManager } from '../engine/input';
+import { InputManager, createInputState } from '../engine/input';
+import { GamepadPoller } from '../engine/gamepad';
+import { TouchInputSource } from '../engine/touch';
+import { loadBindings, saveBindings, type KeyBindingSet } from '../engine/keyBindings';
 import { CanvasRenderer } from '../engine/renderer';
 import { audioManager } from '../engine/audio';
-import { AIController } from '../game/ai';
-import { GRAPPLE_RANGE, MIN_BALANCE_FOR_PIN } from '../game/constants';
-import type { GameState } from '../game/types';
-import { areInGrappleRange, canBePinned, canAttemptPin } from '../game/logic';
+import { AIController, getDecisionActions, decisionToInput } from '../game/ai';
+import { GRAPPLE_RANGE } from '../game/constants';
+import { ReplayRecorder, ReplayPlayer, serializeReplay, parseReplay } from '../game/replay';
+import { createRandomSeed } from '../game/logic/random';
+import { getRoundLabel } from '../game/logic/gameState';
+import {
+  getMatchPreset,
+  loadMatchPreset,
+  saveMatchPreset,
+  loadMatchRounds,
+  saveMatchRounds,
+  loadMatchTagTeam,
+  saveMatchTagTeam,
+} from '../game/matchRules';
+import type { GameState, GameAction, GameMode, FighterInputs, MatchPresetId, MoveType } from '../game/types';
+import {
+  areInGrappleRange,
+  canBePinned,
+  canAttemptPin,
+  canJump,
+  getGamepadSiblings,
+  getMoveIds,
+  getMoveDefinitions,
+  getMoveStance,
+  canWhiff,
+  canPerformFinisher,
+  canTag,
+  getFighter,
+  getFighters,
+  hasFallenOff,
+} from '../game/logic';
+
+/**
+ * A gamepad button carries one move per stance, so a press of it queues all of them -
+ * once one fires, drop the others' presses
+ */
+function dropGamepadSiblings(inputManager: InputManager, move: MoveType): void {
+  for (const sibling of getGamepadSiblings(move)) {
+    inputManager.consumePress(sibling);
+    inputManager.consumeExpiredPress(sibling);
+  }
+}
+
+/**
+ * Turn one fighter's buffered presses into game actions.
+ * Both humans (player, and opponent in versus) go through this same path.
+ * A press is only consumed when it can act, so early presses stay buffered.
+ */
+export function getPressActions(
+  inputManager: InputManager,
+  state: GameState,
+  fighterId: 'player' | 'opponent'
+): GameAction[] {
+  const fighter = getFighter(state, fighterId);
+  const target = getFighter(state, fighterId === 'player' ? 'opponent' : 'player');
+  const actions: GameAction[] = [];
+
+  // Jump attempt
+  if (canJump(fighter) && inputManager.consumePress('jump')) {
+    audioManager.play('jump');
+    actions.push({ type: 'JUMP', fighter: fighterId });
+  }
+
+  // Grapple attempt (only when grounded)
+  if (!state.isGrappling && fighter.y >= 0 && inputManager.consumePress('grapple')) {
+    actions.push({ type: 'ATTEMPT_GRAPPLE', initiator: fighterId });
+  }
+
+  // Move attempts (standing while grappling, low-stance while crouched, aerials mid-jump) - one per step
+  const stance = getMoveStance(fighter);
+  if (stance) {
+    const move = getMoveIds(stance).find((id) => inputManager.consumePress(id));
+    if (move) {
+      dropGamepadSiblings(inputManager, move);
+      actions.push({ type: 'EXECUTE_MOVE', fighter: fighterId, move });
+    }
+  }
+
+  // A move key nothing picked up within the buffer window (no grapple landed, wrong stance)
+  // still swings and whiffs - so a press just before a grapple lands fires the move instead
+  if (!state.activeMove && canWhiff(fighter) && actions.length === 0) {
+    const move = getMoveIds().find((id) => inputManager.consumeExpiredPress(id));
+    if (move) {
+      dropGamepadSiblings(inputManager, move);
+      actions.push({ type: 'EXECUTE_MOVE', fighter: fighterId, move });
+    }
+  }
+
+  // Pin attempt
+  if (
+    canAttemptPin(fighter, state.config.minBalanceForPin) &&
+    canBePinned(target) &&
+    areInGrappleRange(fighter, target, GRAPPLE_RANGE) &&
+    inputManager.consumePress('pin')
+  ) {
+    actions.push({ type: 'ATTEMPT_PIN', attacker: fighterId });
+  }
+
+  // Signature finisher (full momentum, opponent in reach)
+  if (!state.activeMove && canPerformFinisher(fighter, target) && inputManager.consumePress('finisher')) {
+    actions.push({ type: 'PERFORM_FINISHER', fighter: fighterId });
+  }
+
+  // Tag in the waiting partner (tag-team matches, near your own end)
+  if (actions.length === 0 && canTag(state, fighterId) && inputManager.consumePress('tag')) {
+    actions.push({ type: 'TAG', fighter: fighterId });
+  }
+
+  return actions;
+}
 
 export function useGame(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
   const [state, dispatch] = useReducer(gameReducer, null, getInitialState);
+  const [keyBindings, setKeyBindings] = useState<KeyBindingSet>(loadBindings);
+  const [matchPreset, setMatchPreset] = useState<MatchPresetId>(loadMatchPreset);
+  const [matchRounds, setMatchRounds] = useState<number>(loadMatchRounds);
+  const [matchTagTeam, setMatchTagTeam] = useState<boolean>(loadMatchTagTeam);
+  const [touchInput] = useState(() => new TouchInputSource());
   
   const gameLoopRef = useRef<GameLoop | null>(null);
   const inputManagerRef = useRef<InputManager | null>(null);
+  const opponentInputManagerRef = useRef<InputManager | null>(null);
   const rendererRef = useRef<CanvasRenderer | null>(null);
   const aiControllerRef = useRef<AIController | null>(null);
   const stateRef = useRef<GameState>(state);
   const prevStateRef = useRef<GameState>(state);
   const lastCountdownRef = useRef<number>(0);
   const lastPinProgressRef = useRef<number>(0);
+  const replayRecorderRef = useRef<ReplayRecorder>(new ReplayRecorder());
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+  const keyBindingsRef = useRef<KeyBindingSet>(keyBindings);
 
   // Keep stateRef current
   useEffect(() => {
@@ -39,106 +157,106 @@ export function useGame(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
     // Create renderer
     rendererRef.current = new CanvasRenderer(canvasRef.current);
 
-    // Create input manager
-    inputManagerRef.current = new InputManager();
+    // Create input managers (second key set and gamepad are only read in versus mode;
+    // the touch overlay always drives player 1)
+    inputManagerRef.current = new InputManager(keyBindingsRef.current.player, [
+      new GamepadPoller(0),
+      touchInput,
+    ]);
+    opponentInputManagerRef.current = new InputManager(keyBindingsRef.current.opponent, [new GamepadPoller(1)]);
 
     // Create AI controller
     aiControllerRef.current = new AIController();
 
+    // The loop's own view of the match. React state only catches up after a render,
+    // so when several steps run in one frame each step reduces its actions here too.
+    const loopState = { base: stateRef.current, current: stateRef.current };
+
+    // Every action dispatched during a match is recorded for replays
+    const dispatchRecorded = (action: GameAction) => {
+      replayRecorderRef.current.record(action);
+      loopState.current = gameReducer(loopState.current, action);
+      dispatch(action);
+    };
+
     // Create game loop
     gameLoopRef.current = new GameLoop({
-      update: (deltaTime: number) => {
-        const currentState = stateRef.current;
+      update: (deltaTime: number, stepTime: number) => {
+        if (stateRef.current !== loopState.base) {
+          loopState.base = stateRef.current;
+          loopState.current = stateRef.current;
+        }
+        const currentState = loopState.current;
+
+        // Replay playback drives its own state instead of the live match
+        if (currentState.scene === 'Replay') {
+          const replayPlayer = replayPlayerRef.current;
+          if (!replayPlayer || replayPlayer.isFinished()) {
+            dispatch({ type: 'STOP_REPLAY' });
+          } else {
+            replayPlayer.step();
+          }
+          return;
+        }
+
         const inputManager = inputManagerRef.current;
+        const opponentInputManager = opponentInputManagerRef.current;
         const aiController = aiControllerRef.current;
 
-        if (!inputManager || !aiController) return;
+        if (!inputManager || !opponentInputManager || !aiController) return;
+
+        const isVersus = currentState.mode === 'versus';
 
-        // Get player input
-        const input = inputManager.getState();
+        // Assign input to this step and poll gamepads - losing a controller mid-match pauses the game
+        const playerPad = inputManager.beginStep(stepTime);
+        const opponentPad = opponentInputManager.beginStep(stepTime);
+        if (
+          (playerPad === 'disconnected' || opponentPad === 'disconnected') &&
+          currentState.scene === 'Playing' &&
+          !currentState.isPaused
+        ) {
+          dispatchRecorded({ type: 'PAUSE' });
+          return;
+        }
+
+        // Get held input (a second human drives the opponent in versus mode,
+        // otherwise the AI's decision is turned into input below)
+        const inputs: FighterInputs = {
+          player: inputManager.getState(),
+          opponent: isVersus ? opponentInputManager.getState() : createInputState(),
+        };
 
         // Handle single-press inputs (grapple, moves, pin, jump)
         if (currentState.scene === 'Playing' && !currentState.isPaused) {
-          // Jump attempt
-          if (inputManager.wasJustPressed('jump')) {
-            const canJump = currentState.player.state === 'Idle' || currentState.player.state === 'Moving';
-            if (canJump && currentState.player.y >= 0 && currentState.player.stamina >= 15) {
-              audioManager.play('jump');
-            }
-            dispatch({ type: 'JUMP', fighter: 'player' });
+          for (const action of getPressActions(inputManager, currentState, 'player')) {
+            dispatchRecorded(action);
           }
 
-          // Grapple attempt (only when grounded)
-          if (inputManager.wasJustPressed('grapple') && !currentState.isGrappling && currentState.player.y >= 0) {
-            dispatch({ type: 'ATTEMPT_GRAPPLE', initiator: 'player' });
-          }
-
-          // Move attempts (while grappling)
-          if (currentState.isGrappling && currentState.player.state === 'GrappleEngaged') {
-            if (inputManager.wasJustPressed('pancake')) {
-              dispatch({ type: 'EXECUTE_MOVE', fighter: 'player', move: 'pancake' });
-            }
-            if (inputManager.wasJustPressed('scissors')) {
-              dispatch({ type: 'EXECUTE_MOVE', fighter: 'player', move: 'scissors' });
+          if (isVersus) {
+            for (const action of getPressActions(opponentInputManager, currentState, 'opponent')) {
+              dispatchRecorded(action);
             }
-            if (inputManager.wasJustPressed('guillotine')) {
-              dispatch({ type: 'EXECUTE_MOVE', fighter: 'player', move: 'guillotine' });
+          } else {
+            // AI decision making
+            const aiDecision = aiController.decide(currentState);
+            inputs.opponent = decisionToInput(aiDecision);
+            
+            for (const action of getDecisionActions(aiDecision, currentState, 'opponent')) {
+              dispatchRecorded(action);
             }
           }
 
-          // Pin attempt
-          if (inputManager.wasJustPressed('pin')) {
-            if (
-              canAttemptPin(currentState.player, MIN_BALANCE_FOR_PIN) &&
-              canBePinned(currentState.opponent) &&
-              areInGrappleRange(currentState.player, currentState.opponent, GRAPPLE_RANGE)
-            ) {
-              dispatch({ type: 'ATTEMPT_PIN', attacker: 'player' });
-            }
+          // Handle falling resets (once the tumble off the beam has played out)
+          if (hasFallenOff(getFighter(currentState, 'player'))) {
+            dispatchRecorded({ type: 'FIGHTER_FELL', fighter: 'player' });
           }
-
-          // AI decision making
-          const aiDecision = aiController.decide(currentState, Date.now());
-          
-          switch (aiDecision.action) {
-            case 'jump':
-              dispatch({ type: 'JUMP', fighter: 'opponent' });
-              break;
-            case 'grapple':
-              if (!currentState.isGrappling && currentState.opponent.y >= 0) {
-                dispatch({ type: 'ATTEMPT_GRAPPLE', initiator: 'opponent' });
-              }
-              break;
-            case 'executeMove':
-              if (aiDecision.move && currentState.opponent.state === 'GrappleEngaged') {
-                dispatch({ type: 'EXECUTE_MOVE', fighter: 'opponent', move: aiDecision.move });
-              }
-              break;
-            case 'attemptPin':
-              if (
-                canAttemptPin(currentState.opponent, MIN_BALANCE_FOR_PIN) &&
-                canBePinned(currentState.player) &&
-                areInGrappleRange(currentState.opponent, currentState.player, GRAPPLE_RANGE)
-              ) {
-                dispatch({ type: 'ATTEMPT_PIN', attacker: 'opponent' });
-              }
-              break;
-          }
-
-          // Handle falling resets
-          if (currentState.player.state === 'Falling') {
-            dispatch({ type: 'FIGHTER_FELL', fighter: 'player' });
-          }
-          if (currentState.opponent.state === 'Falling') {
-            dispatch({ type: 'FIGHTER_FELL', fighter: 'opponent' });
+          if (hasFallenOff(getFighter(currentState, 'opponent'))) {
+            dispatchRecorded({ type: 'FIGHTER_FELL', fighter: 'opponent' });
           }
         }
 
-        // Clear just-pressed flags
-        inputManager.clearJustPressed();
-
         // Update game state
-        dispatch({ type: 'UPDATE', deltaTime, input });
+        dispatchRecorded({ type: 'UPDATE', deltaTime, inputs });
       },
       render: (_interpolation: number) => {
         const currentState = stateRef.current;
@@ -146,9 +264,23 @@ export function useGame(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
 
         if (!renderer) return;
 
-        if (currentState.scene === 'Countdown') {
-          renderer.drawCountdown(currentState.countdownTimer);
-        } else if (currentState.scene === 'Playing' || currentState.scene === 'Paused') {
+        if (currentState.scene === 'Replay') {
+          const replayPlayer = replayPlayerRef.current;
+          if (!replayPlayer) return;
+          const replayState = replayPlayer.getState();
+          if (replayState.scene === 'Countdown') {
+            renderer.drawCountdown(replayState.countdownTimer, getRoundLabel(replayState));
+          } else {
+            renderer.render(replayState);
+          }
+          renderer.drawReplayOverlay(replayPlayer.getProgress());
+        } else if (currentState.scene === 'Countdown') {
+          renderer.drawCountdown(currentState.countdownTimer, getRoundLabel(currentState));
+        } else if (
+          currentState.scene === 'Playing' ||
+          currentState.scene === 'Paused' ||
+          currentState.scene === 'Overtime'
+        ) {
           renderer.render(currentState);
         }
       },
@@ -157,13 +289,16 @@ export function useGame(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
     return () => {
       gameLoopRef.current?.stop();
       inputManagerRef.current?.stop();
+      opponentInputManagerRef.current?.stop();
     };
-  }, [canvasRef]);
+  }, [canvasRef, touchInput]);
 
   // Sound effects based on state changes
   useEffect(() => {
     const prev = prevStateRef.current;
     const curr = state;
+    const { player: prevPlayer, opponent: prevOpponent } = getFighters(prev);
+    const { player: currPlayer, opponent: currOpponent } = getFighters(curr);
 
     // Countdown beeps
     if (curr.scene === 'Countdown') {
@@ -183,14 +318,24 @@ export function useGame(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
       lastCountdownRef.current = 0;
     }
 
+    // Tied at the bell - sudden death
+    if (prev.scene !== 'Overtime' && curr.scene === 'Overtime') {
+      audioManager.play('countdown');
+      audioManager.play('crowd_gasp');
+    }
+    if (prev.scene === 'Overtime' && curr.scene === 'Playing') {
+      audioManager.play('match_start');
+      audioManager.play('crowd_cheer');
+    }
+
     // Grapple initiated
     if (!prev.isGrappling && curr.isGrappling) {
       audioManager.play('grapple');
     }
 
     // Player landed (from jump)
-    if (prev.player.state === 'Jumping' && curr.player.state !== 'Jumping' && curr.player.y >= 0) {
-      if (curr.player.state === 'Stunned' || prev.opponent.state === 'Stunned') {
+    if (prevPlayer.state === 'Jumping' && currPlayer.state !== 'Jumping' && currPlayer.y >= 0) {
+      if (currPlayer.state === 'Stunned' || prevOpponent.state === 'Stunned') {
         // Landed stomp was handled
       } else {
         audioManager.play('land');
@@ -198,8 +343,8 @@ export function useGame(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
     }
 
     // Opponent landed
-    if (prev.opponent.state === 'Jumping' && curr.opponent.state !== 'Jumping' && curr.opponent.y >= 0) {
-      if (curr.opponent.state === 'Stunned' || prev.player.state === 'Stunned') {
+    if (prevOpponent.state === 'Jumping' && currOpponent.state !== 'Jumping' && currOpponent.y >= 0) {
+      if (currOpponent.state === 'Stunned' || prevPlayer.state === 'Stunned') {
         // Stomp
       } else {
         audioManager.play('land');
@@ -207,13 +352,13 @@ export function useGame(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
     }
 
     // Stomp detected (someone got stunned by a landing)
-    if (prev.player.state === 'Jumping' && curr.player.state === 'Idle' && 
-        prev.opponent.state !== 'Stunned' && curr.opponent.state === 'Stunned') {
+    if (prevPlayer.state === 'Jumping' && currPlayer.state === 'Idle' && 
+        prevOpponent.state !== 'Stunned' && currOpponent.state === 'Stunned') {
       audioManager.play('stomp');
       audioManager.play('crowd_cheer'); // Crowd reacts to stomp
     }
-    if (prev.opponent.state === 'Jumping' && curr.opponent.state === 'Idle' && 
-        prev.player.state !== 'Stunned' && curr.player.state === 'Stunned') {
+    if (prevOpponent.state === 'Jumping' && currOpponent.state === 'Idle' && 
+        prevPlayer.state !== 'Stunned' && currPlayer.state === 'Stunned') {
       audioManager.play('stomp');
       audioManager.play('crowd_gasp'); // Player got stomped - crowd gasps
     }
@@ -221,14 +366,34 @@ export function useGame(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
     // Callout appeared (move executed)
     if (curr.currentCallout && (!prev.currentCallout || prev.currentCallout.id !== curr.currentCallout.id)) {
       const text = curr.currentCallout.text.toUpperCase();
-      if (text.includes('PANCAKE')) {
-        audioManager.play('pancake');
+      const move = getMoveDefinitions().find((definition) => text.includes(definition.name.toUpperCase()));
+      if (curr.finisher && curr.finisher !== prev.finisher) {
+        // Signature finisher - checked first, since its name can contain anything
+        audioManager.play('finisher');
         audioManager.play('crowd_cheer');
-      } else if (text.includes('SCISSORS')) {
-        audioManager.play('scissors');
+      } else if (move) {
+        audioManager.play(move.sound);
+        audioManager.play(move.crowd);
+      } else if (text.startsWith('KICK OUT AT')) {
+        // Near fall - the crowd thought it was over
+        audioManager.play('crowd_gasp');
+        setTimeout(() => audioManager.play('crowd_cheer'), 300);
+      } else if (text.includes('KICK OUT')) {
+        audioManager.play('block');
         audioManager.play('crowd_ooh');
-      } else if (text.includes('GUILLOTINE')) {
-        audioManager.play('guillotine');
+      } else if (text.includes('REVERSAL')) {
+        audioManager.play('block');
+        audioManager.play('crowd_ooh');
+      } else if (text.includes('WHIFF')) {
+        audioManager.play('land');
+        audioManager.play('crowd_ooh');
+      } else if (text === 'TAG!') {
+        audioManager.play('hit');
+        audioManager.play('crowd_cheer');
+      } else if (text.includes('TAP OUT')) {
+        audioManager.play('pin_complete');
+      } else if (text.includes('SAVED')) {
+        audioManager.play('land');
         audioManager.play('crowd_cheer');
       } else if (text.includes('STOMP')) {
         audioManager.play('stomp');
@@ -253,16 +418,30 @@ export function useGame(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
       }
     }
 
+    // Fighter grabbed the edge - will they make it back up?
+    if (prevPlayer.state !== 'Hanging' && currPlayer.state === 'Hanging') {
+      audioManager.play('crowd_gasp');
+    }
+    if (prevOpponent.state !== 'Hanging' && currOpponent.state === 'Hanging') {
+      audioManager.play('crowd_ooh');
+    }
+
     // Fighter fell - crowd gasps
-    if (prev.player.state !== 'Falling' && curr.player.state === 'Falling') {
+    if (prevPlayer.state !== 'Falling' && currPlayer.state === 'Falling') {
       audioManager.play('fall');
       audioManager.play('crowd_gasp');
     }
-    if (prev.opponent.state !== 'Falling' && curr.opponent.state === 'Falling') {
+    if (prevOpponent.state !== 'Falling' && currOpponent.state === 'Falling') {
       audioManager.play('fall');
       audioManager.play('crowd_cheer'); // Opponent fell - crowd cheers
     }
 
+    // Round decided - the crowd reacts, the match goes on
+    if (prev.scene !== 'RoundOver' && curr.scene === 'RoundOver') {
+      audioManager.play('pin_complete');
+      audioManager.play('crowd_cheer');
+    }
+
     // Game over - big crowd reaction
     if (prev.scene !== 'GameOver' && curr.scene === 'GameOver' && curr.result) {
       if (curr.result.winner === 'player') {
@@ -279,44 +458,72 @@ export function useGame(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
     }
   }, [state]);
 
+  // Apply rebound keys to the live input managers
+  useEffect(() => {
+    keyBindingsRef.current = keyBindings;
+    inputManagerRef.current?.setBindings(keyBindings.player);
+    opponentInputManagerRef.current?.setBindings(keyBindings.opponent);
+  }, [keyBindings]);
+
+  // Stop recording once the match is decided
+  useEffect(() => {
+    if (state.scene === 'GameOver') {
+      replayRecorderRef.current.stop();
+    }
+  }, [state.scene]);
+
   // Start/stop input based on scene
   useEffect(() => {
     const inputManager = inputManagerRef.current;
-    if (!inputManager) return;
+    const opponentInputManager = opponentInputManagerRef.current;
+    if (!inputManager || !opponentInputManager) return;
 
-    if (state.scene === 'Playing' || state.scene === 'Countdown') {
+    if (state.scene === 'Playing' || state.scene === 'Countdown' || state.scene === 'Overtime') {
       inputManager.start();
+      if (state.mode === 'versus') {
+        opponentInputManager.start();
+      }
     } else {
       inputManager.stop();
+      opponentInputManager.stop();
     }
-  }, [state.scene]);
+  }, [state.scene, state.mode]);
 
   // Start/stop game loop based on scene
   useEffect(() => {
     const gameLoop = gameLoopRef.current;
     if (!gameLoop) return;
 
-    if (state.scene === 'Playing' || state.scene === 'Countdown') {
+    if (
+      state.scene === 'Playing' ||
+      state.scene === 'Countdown' ||
+      state.scene === 'Overtime' ||
+      state.scene === 'Replay'
+    ) {
       gameLoop.start();
     } else {
       gameLoop.stop();
     }
   }, [state.scene]);
 
-  // Reset AI when starting new game
+  // Reset AI when starting new game (seeded from the match so runs are reproducible)
   useEffect(() => {
     if (state.scene === 'Countdown') {
-      aiControllerRef.current?.reset();
+      aiControllerRef.current?.reset(stateRef.current.rng.seed);
     }
   }, [state.scene]);
 
   // Action dispatchers
-  const startGame = useCallback(() => {
+  const startGame = useCallback((mode: GameMode = 'vsAI') => {
     // Initialize audio on first user interaction
     audioManager.init();
     audioManager.resume();
-    dispatch({ type: 'START_GAME' });
-  }, []);
+    const seed = createRandomSeed();
+    const config = { ...getMatchPreset(matchPreset).config, rounds: matchRounds, tagTeam: matchTagTeam };
+    replayRecorderRef.current.start(seed);
+    replayRecorderRef.current.record({ type: 'START_GAME', seed, mode, config });
+    dispatch({ type: 'START_GAME', seed, mode, config });
+  }, [matchPreset, matchRounds, matchTagTeam]);
 
   const showHowToPlay = useCallback(() => {
     dispatch({ type: 'SHOW_HOW_TO_PLAY' });
@@ -326,16 +533,102 @@ export function useGame(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
     dispatch({ type: 'HIDE_HOW_TO_PLAY' });
   }, []);
 
+  const showControls = useCallback(() => {
+    dispatch({ type: 'SHOW_CONTROLS' });
+  }, []);
+
+  const hideControls = useCallback(() => {
+    dispatch({ type: 'HIDE_CONTROLS' });
+  }, []);
+
+  const showRules = useCallback(() => {
+    dispatch({ type: 'SHOW_RULES' });
+  }, []);
+
+  const hideRules = useCallback(() => {
+    dispatch({ type: 'HIDE_RULES' });
+  }, []);
+
+  /**
+   * Pick the rules for the next match (persisted)
+   */
+  const selectMatchPreset = useCallback((preset: MatchPresetId) => {
+    saveMatchPreset(preset);
+    setMatchPreset(preset);
+  }, []);
+
+  const selectMatchRounds = useCallback((rounds: number) => {
+    saveMatchRounds(rounds);
+    setMatchRounds(rounds);
+  }, []);
+
+  const selectMatchTagTeam = useCallback((tagTeam: boolean) => {
+    saveMatchTagTeam(tagTeam);
+    setMatchTagTeam(tagTeam);
+  }, []);
+
+  /**
+   * Save rebound keys (persisted, and applied to input immediately)
+   */
+  const saveControls = useCallback((bindings: KeyBindingSet) => {
+    saveBindings(bindings);
+    setKeyBindings(bindings);
+  }, []);
+
   const pause = useCallback(() => {
+    replayRecorderRef.current.record({ type: 'PAUSE' });
     dispatch({ type: 'PAUSE' });
   }, []);
 
   const resume = useCallback(() => {
+    replayRecorderRef.current.record({ type: 'RESUME' });
     dispatch({ type: 'RESUME' });
   }, []);
 
+  // Records a full START_GAME, since replays start from a fresh state with the default mode and rules
   const restart = useCallback(() => {
-    dispatch({ type: 'RESTART' });
+    const seed = createRandomSeed();
+    const { mode, config } = stateRef.current;
+    replayRecorderRef.current.start(seed);
+    replayRecorderRef.current.record({ type: 'START_GAME', seed, mode, config });
+    dispatch({ type: 'RESTART', seed });
+  }, []);
+
+  const nextRound = useCallback(() => {
+    replayRecorderRef.current.record({ type: 'NEXT_ROUND' });
+    dispatch({ type: 'NEXT_ROUND' });
+  }, []);
+
+  const watchReplay = useCallback(() => {
+    const replay = replayRecorderRef.current.getReplay();
+    if (!replay) return;
+    replayPlayerRef.current = new ReplayPlayer(replay);
+    dispatch({ type: 'START_REPLAY' });
+  }, []);
+
+  const stopReplay = useCallback(() => {
+    dispatch({ type: 'STOP_REPLAY' });
+  }, []);
+
+  const downloadReplay = useCallback(() => {
+    const replay = replayRecorderRef.current.getReplay();
+    if (!replay) return;
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `beam-brawlers-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  /**
+   * Load a replay file and start playback (throws if the file is invalid)
+   */
+  const loadReplay = useCallback((json: string) => {
+    const replay = parseReplay(json);
+    replayPlayerRef.current = new ReplayPlayer(replay);
+    dispatch({ type: 'START_REPLAY' });
   }, []);
 
   const goToMainMenu = useCallback(() => {
@@ -364,10 +657,28 @@ export function useGame(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
     startGame,
     showHowToPlay,
     hideHowToPlay,
+    showControls,
+    hideControls,
+    keyBindings,
+    saveControls,
+    showRules,
+    hideRules,
+    matchPreset,
+    selectMatchPreset,
+    matchRounds,
+    selectMatchRounds,
+    matchTagTeam,
+    selectMatchTagTeam,
+    touchInput,
     pause,
     resume,
     restart,
+    nextRound,
     goToMainMenu,
+    watchReplay,
+    stopReplay,
+    downloadReplay,
+    loadReplay,
     toggleAudio,
     isAudioEnabled,
   };
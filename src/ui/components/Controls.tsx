@@ -0,0 +1,135 @@
+/**
+ * Beam Brawlers - Controls Screen
+ * Rebind each action for both players
+ */
+
+import React, { useEffect, useState } from 'react';
+import { findConflicts, formatKeyCode, getDefaultBindings, type KeyBindingSet } from '../../engine/keyBindings';
+import { getMoveDefinitions } from '../../game/logic/moveRegistry';
+import type { InputState } from '../../game/types';
+import { Button } from './Button';
+import styles from './Controls.module.css';
+
+interface ControlsProps {
+  bindings: KeyBindingSet;
+  onSave: (bindings: KeyBindingSet) => void;
+  onClose: () => void;
+}
+
+// Controls first, then one row per registered move
+const ACTION_LABELS: Record<keyof InputState, string> = {
+  moveLeft: 'Move Left',
+  moveRight: 'Move Right',
+  jump: 'Jump',
+  crouch: 'Crouch',
+  grapple: 'Grapple',
+  ...Object.fromEntries(getMoveDefinitions().map((move) => [move.id, move.name])),
+  pin: 'Pin Attempt',
+  defend: 'Defend / Brace',
+  finisher: 'Signature Finisher',
+  tag: 'Tag Partner',
+};
+
+const FIGHTER_LABELS: Record<keyof KeyBindingSet, string> = {
+  player: 'Player 1',
+  opponent: 'Player 2 (Versus)',
+};
+
+type Slot = { fighter: keyof KeyBindingSet; input: keyof InputState };
+
+export const Controls: React.FC<ControlsProps> = ({ bindings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<KeyBindingSet>(bindings);
+  const [listening, setListening] = useState<Slot | null>(null);
+
+  const conflicts = findConflicts(draft);
+  const conflictCodes = new Set(conflicts.map((conflict) => conflict.code));
+
+  // Capture the next key press for the selected action (Escape cancels)
+  useEffect(() => {
+    if (!listening) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code !== 'Escape') {
+        setDraft((current) => ({
+          ...current,
+          [listening.fighter]: { ...current[listening.fighter], [listening.input]: event.code },
+        }));
+      }
+      setListening(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listening]);
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  // Only the draft - Save keeps the defaults, Back leaves the saved keys alone
+  const handleReset = () => {
+    setDraft(getDefaultBindings());
+    setListening(null);
+  };
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.modal}>
+        <h2 className={styles.title}>Controls</h2>
+        <p className={styles.hint}>Click an action, then press the key to bind. ESC cancels.</p>
+
+        <div className={styles.columns}>
+          {(Object.keys(FIGHTER_LABELS) as Array<keyof KeyBindingSet>).map((fighter) => (
+            <section key={fighter} className={styles.column}>
+              <h3>{FIGHTER_LABELS[fighter]}</h3>
+              {(Object.keys(ACTION_LABELS) as Array<keyof InputState>).map((input) => {
+                const code = draft[fighter][input];
+                const isListening = listening?.fighter === fighter && listening.input === input;
+                return (
+                  <div key={input} className={styles.row}>
+                    <span>{ACTION_LABELS[input]}</span>
+                    <button
+                      className={`${styles.key} ${conflictCodes.has(code) ? styles.conflict : ''} ${
+                        isListening ? styles.listening : ''
+                      }`}
+                      onClick={() => setListening({ fighter, input })}
+                    >
+                      {isListening ? 'Press a key…' : formatKeyCode(code)}
+                    </button>
+                  </div>
+                );
+              })}
+            </section>
+          ))}
+        </div>
+
+        {conflicts.length > 0 && (
+          <p className={styles.error}>
+            {conflicts.map((conflict) => (
+              `${formatKeyCode(conflict.code)} is bound to ${conflict.actions
+                .map(({ fighter, input }) => `${FIGHTER_LABELS[fighter]} ${ACTION_LABELS[input]}`)
+                .join(' and ')}`
+            )).join('. ')}
+          </p>
+        )}
+
+        <div className={styles.buttons}>
+          <Button variant="primary" size="medium" onClick={handleSave} disabled={conflicts.length > 0}>
+            Save
+          </Button>
+          <Button variant="secondary" size="medium" onClick={handleReset}>
+            Reset to Defaults
+          </Button>
+          <Button variant="secondary" size="medium" onClick={onClose}>
+            Back
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Controls;
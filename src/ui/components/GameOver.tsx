@@ -5,20 +5,28 @@
 import React from 'react';
 import type { GameResult } from '../../game/types';
 import { Button } from './Button';
+import { RoundHistory } from './RoundHistory';
+import { Scorecards } from './Scorecards';
 import styles from './GameOver.module.css';
 
 interface GameOverProps {
   result: GameResult;
+  rounds: GameResult[]; // Round-by-round results of a best-of match (empty for a single bout)
   onPlayAgain: () => void;
   onMainMenu: () => void;
+  onWatchReplay: () => void;
+  onSaveReplay: () => void;
   playerName: string;
   opponentName: string;
 }
 
 export const GameOver: React.FC<GameOverProps> = ({ 
   result, 
+  rounds,
   onPlayAgain, 
   onMainMenu,
+  onWatchReplay,
+  onSaveReplay,
   playerName,
   opponentName,
 }) => {
@@ -39,6 +47,12 @@ export const GameOver: React.FC<GameOverProps> = ({
         return 'Time ran out!';
       case 'surrender':
         return `${opponentName} surrendered!`;
+      case 'overtime':
+        return isPlayerWin ? `${playerName} struck first in sudden death!` : `${opponentName} struck first in sudden death!`;
+      case 'falls':
+        return isPlayerWin ? `${opponentName} fell off one time too many!` : `${playerName} fell off one time too many!`;
+      case 'decision':
+        return `Level at the bell - the judges gave it to ${isPlayerWin ? playerName : opponentName}!`;
       default:
         return '';
     }
@@ -54,6 +68,7 @@ export const GameOver: React.FC<GameOverProps> = ({
     <div className={styles.overlay}>
       <div className={`${styles.modal} ${isPlayerWin ? styles.win : isDraw ? styles.draw : styles.lose}`}>
         <h1 className={styles.title}>{getTitle()}</h1>
+        {result.overtime && !isDraw && <p className={styles.overtime}>⏱️ Won in overtime</p>}
         <p className={styles.subtitle}>{getSubtitle()}</p>
 
         <div className={styles.scores}>
@@ -72,10 +87,24 @@ export const GameOver: React.FC<GameOverProps> = ({
           Match Duration: {formatDuration(result.matchDuration)}
         </p>
 
+        <Scorecards scorecards={result.scorecards} playerName={playerName} opponentName={opponentName} />
+
+        {rounds.length > 0 && (
+          <RoundHistory rounds={rounds} playerName={playerName} opponentName={opponentName} />
+        )}
+
         <div className={styles.buttons}>
           <Button variant="primary" size="large" onClick={onPlayAgain}>
             Play Again
           </Button>
+          <div className={styles.replayButtons}>
+            <Button variant="secondary" size="small" onClick={onWatchReplay}>
+              📼 Watch Replay
+            </Button>
+            <Button variant="secondary" size="small" onClick={onSaveReplay}>
+              💾 Save Replay
+            </Button>
+          </div>
           <Button variant="secondary" onClick={onMainMenu}>
             Main Menu
           </Button>
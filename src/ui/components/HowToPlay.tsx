@@ -3,9 +3,19 @@
  */
 
 import React from 'react';
+import { formatKeyCode } from '../../engine/keyBindings';
+import { getMoveDefinitions } from '../../game/logic/moveRegistry';
+import type { MoveStance } from '../../game/types';
 import { Button } from './Button';
 import styles from './HowToPlay.module.css';
 
+// Where each kind of move comes from (standing moves need no note)
+const STANCE_NOTES: Record<MoveStance, string> = {
+  standing: '',
+  low: ' (crouching)',
+  aerial: ' (in the air)',
+};
+
 interface HowToPlayProps {
   onClose: () => void;
 }
@@ -20,7 +30,11 @@ export const HowToPlay: React.FC<HowToPlayProps> = ({ onClose }) => {
           <section className={styles.section}>
             <h3>🎯 Objective</h3>
             <p>Pin your opponent on the balance beam for <strong>3 seconds</strong> to win!</p>
+            <p>Or make a worn-out opponent <strong>tap out</strong> in Scissors or a Guillotine.</p>
             <p>Score points with wrestling moves. If time runs out, highest score wins.</p>
+            <p>A <strong>judges' panel</strong> marks your execution (stay balanced), difficulty (vary your moves, work the edge) and artistry (jumps and combos). A tie at the bell goes to the judges' cards.</p>
+            <p>Other <strong>📜 Rules</strong> change the clock and pin count, cap your falls, or leave the pin as the only way to win. Tournament ties go to <strong>sudden-death overtime</strong>: first to score wins. You can also play a <strong>best of 3 or 5</strong> rounds: every round starts fresh and the tally decides the match.</p>
+            <p>In <strong>tag team</strong> matches your partner waits past your end of the beam, catching their breath. Get close to that end and press <strong>T</strong> to tag them in. Points and falls count for the whole team.</p>
           </section>
 
           <section className={styles.section}>
@@ -34,6 +48,10 @@ export const HowToPlay: React.FC<HowToPlayProps> = ({ onClose }) => {
                 <span className={styles.key}>W</span>
                 <span>Jump!</span>
               </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>S</span>
+                <span>Crouch (hold)</span>
+              </div>
               <div className={styles.controlGroup}>
                 <span className={styles.key}>SPACE</span>
                 <span>Grapple (when close)</span>
@@ -42,6 +60,112 @@ export const HowToPlay: React.FC<HowToPlayProps> = ({ onClose }) => {
                 <span className={styles.key}>SHIFT</span>
                 <span>Defend / Brace</span>
               </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>F</span>
+                <span>Signature Finisher</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>T</span>
+                <span>Tag Partner (tag team)</span>
+              </div>
+            </div>
+          </section>
+
+          <section className={styles.section}>
+            <h3>👥 2 Player Versus</h3>
+            <p>Player 2 shares the keyboard:</p>
+            <div className={styles.controls}>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>← / →</span>
+                <span>Move Left / Right</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>↑</span>
+                <span>Jump!</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>↓</span>
+                <span>Crouch (hold)</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>NUM 0</span>
+                <span>Grapple (when close)</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>NUM ENTER</span>
+                <span>Defend / Brace</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>NUM 1 / 2 / 3</span>
+                <span>Pancake / Scissors / Guillotine</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>NUM 4 / 6</span>
+                <span>Leg Sweep / Ankle Pick (crouching)</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>NUM 7 / 8 / 9</span>
+                <span>Diving Elbow / Crossbody / Moonsault (in the air)</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>NUM 5</span>
+                <span>Pin Attempt</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>NUM +</span>
+                <span>Signature Finisher</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>NUM -</span>
+                <span>Tag Partner</span>
+              </div>
+            </div>
+          </section>
+
+          <section className={styles.section}>
+            <h3>🕹️ Gamepad</h3>
+            <p>Plug in a controller any time - Player 1 uses the first, Player 2 the second. Unplugging one pauses the match.</p>
+            <div className={styles.controls}>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>D-PAD / STICK</span>
+                <span>Move / Jump (up) / Crouch (down)</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>A</span>
+                <span>Jump!</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>RB</span>
+                <span>Grapple (when close)</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>LT / RT</span>
+                <span>Defend / Brace</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>X / Y / B</span>
+                <span>Pancake / Scissors / Guillotine</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>X / Y</span>
+                <span>Leg Sweep / Ankle Pick (crouching)</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>X / Y / B</span>
+                <span>Diving Elbow / Crossbody / Moonsault (in the air)</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>LB</span>
+                <span>Pin Attempt</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>L3 / R3</span>
+                <span>Signature Finisher</span>
+              </div>
+              <div className={styles.controlGroup}>
+                <span className={styles.key}>BACK</span>
+                <span>Tag Partner</span>
+              </div>
             </div>
           </section>
 
@@ -75,27 +199,15 @@ export const HowToPlay: React.FC<HowToPlayProps> = ({ onClose }) => {
           <section className={styles.section}>
             <h3>💥 Grapple Moves</h3>
             <div className={styles.moves}>
-              <div className={styles.move}>
-                <span className={styles.key}>J</span>
-                <div>
-                  <strong>Pancake</strong> (+200)
-                  <p>Slam opponent prone. Sets up pin!</p>
+              {getMoveDefinitions().map((move) => (
+                <div key={move.id} className={styles.move}>
+                  <span className={styles.key}>{formatKeyCode(move.input.key)}</span>
+                  <div>
+                    <strong>{move.name}</strong>{STANCE_NOTES[move.stance]} (+{move.points})
+                    <p>{move.description}</p>
+                  </div>
                 </div>
-              </div>
-              <div className={styles.move}>
-                <span className={styles.key}>K</span>
-                <div>
-                  <strong>Scissors</strong> (+150)
-                  <p>Drains opponent balance. Can cause fall!</p>
-                </div>
-              </div>
-              <div className={styles.move}>
-                <span className={styles.key}>L</span>
-                <div>
-                  <strong>Guillotine</strong> (+250)
-                  <p>High risk, high reward! Longer stun.</p>
-                </div>
-              </div>
+              ))}
               <div className={styles.move}>
                 <span className={styles.key}>P</span>
                 <div>
@@ -110,7 +222,14 @@ export const HowToPlay: React.FC<HowToPlayProps> = ({ onClose }) => {
             <h3>⚡ Tips</h3>
             <ul className={styles.tips}>
               <li>Watch your <strong>balance</strong> near beam edges!</li>
-              <li>Use <strong>SHIFT</strong> to counter opponent moves</li>
+              <li>Hanging off the edge? Alternate <strong>A</strong> and <strong>D</strong> to climb back up before your grip gives out - or jump on a hanging opponent for an <strong>edge stomp</strong></li>
+              <li>Tap <strong>SHIFT</strong> just as a move starts to <strong>reverse</strong> it - one try per move!</li>
+              <li>Hold <strong>S</strong> to crouch - stomps can't land on you and balance drains at half rate, but you move slowly</li>
+              <li>Pinned? Mash <strong>SHIFT</strong> to kick out - more balance and stamina kick harder</li>
+              <li>Caught in <strong>Scissors</strong> or a <strong>Guillotine</strong>? Mash <strong>SHIFT</strong> to break free - low on balance and stamina, you could be forced to tap out</li>
+              <li>Jumping? Hit <strong>N / M / O</strong> for an aerial - miss and you crash onto the beam</li>
+              <li>Fill your <strong>momentum</strong> meter, then press <strong>F</strong> up close for your signature finisher - +500 and a sure stun</li>
+              <li>Don't mash move keys - a move you can't pull off <strong>whiffs</strong>, costing stamina and leaving you open</li>
               <li>Chain different moves for <strong>combo bonuses</strong></li>
               <li>High balance when attacking = <strong>+20% points</strong></li>
             </ul>
@@ -0,0 +1,59 @@
+/**
+ * Beam Brawlers - Round History
+ * One row per finished round of a best-of match
+ */
+
+import React from 'react';
+import type { GameEndReason, GameResult } from '../../game/types';
+import styles from './RoundHistory.module.css';
+
+const REASON_LABELS: Record<GameEndReason, string> = {
+  pin: 'by pin',
+  timeout: 'on points',
+  surrender: 'by tap-out',
+  falls: 'on falls',
+  overtime: 'in sudden death',
+  decision: "on the judges' cards",
+};
+
+interface RoundHistoryProps {
+  rounds: GameResult[];
+  playerName: string;
+  opponentName: string;
+}
+
+export const RoundHistory: React.FC<RoundHistoryProps> = ({ rounds, playerName, opponentName }) => {
+  const formatDuration = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const getOutcome = (round: GameResult) => {
+    if (round.winner === 'draw') return 'Draw';
+    const name = round.winner === 'player' ? playerName : opponentName;
+    return `${name} ${REASON_LABELS[round.reason]}`;
+  };
+
+  return (
+    <table className={styles.table}>
+      <tbody>
+        {rounds.map((round, index) => (
+          <tr
+            key={index}
+            className={round.winner === 'player' ? styles.player : round.winner === 'opponent' ? styles.opponent : ''}
+          >
+            <th>R{index + 1}</th>
+            <td>{getOutcome(round)}</td>
+            <td className={styles.score}>
+              {round.playerScore} - {round.opponentScore}
+            </td>
+            <td className={styles.time}>{formatDuration(round.matchDuration)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default RoundHistory;
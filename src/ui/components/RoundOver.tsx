@@ -0,0 +1,71 @@
+/**
+ * Beam Brawlers - Round Over Screen
+ * Intermission between the rounds of a best-of match
+ */
+
+import React from 'react';
+import type { GameResult } from '../../game/types';
+import { Button } from './Button';
+import { RoundHistory } from './RoundHistory';
+import styles from './RoundOver.module.css';
+
+interface RoundOverProps {
+  rounds: GameResult[];
+  roundWins: { player: number; opponent: number };
+  roundsToWin: number;
+  onNextRound: () => void;
+  onMainMenu: () => void;
+  playerName: string;
+  opponentName: string;
+}
+
+export const RoundOver: React.FC<RoundOverProps> = ({
+  rounds,
+  roundWins,
+  roundsToWin,
+  onNextRound,
+  onMainMenu,
+  playerName,
+  opponentName,
+}) => {
+  const last = rounds[rounds.length - 1];
+
+  const getTitle = () => {
+    if (!last || last.winner === 'draw') return `ROUND ${rounds.length} DRAWN`;
+    return `ROUND ${rounds.length} TO ${last.winner === 'player' ? playerName : opponentName}`;
+  };
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.modal}>
+        <h1 className={styles.title}>{getTitle()}</h1>
+        <p className={styles.subtitle}>First to {roundsToWin} rounds takes the match</p>
+
+        <div className={styles.tally}>
+          <div className={styles.tallyBox}>
+            <span className={styles.label}>{playerName}</span>
+            <span className={styles.wins}>{roundWins.player}</span>
+          </div>
+          <div className={styles.vs}>-</div>
+          <div className={styles.tallyBox}>
+            <span className={styles.label}>{opponentName}</span>
+            <span className={styles.wins}>{roundWins.opponent}</span>
+          </div>
+        </div>
+
+        <RoundHistory rounds={rounds} playerName={playerName} opponentName={opponentName} />
+
+        <div className={styles.buttons}>
+          <Button variant="primary" size="large" onClick={onNextRound}>
+            Round {rounds.length + 1}
+          </Button>
+          <Button variant="secondary" onClick={onMainMenu}>
+            Main Menu
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoundOver;
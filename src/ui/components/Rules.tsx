@@ -0,0 +1,92 @@
+/**
+ * Beam Brawlers - Rules Screen
+ * Pick the rule set the next match is played under
+ */
+
+import React from 'react';
+import { ROUND_OPTIONS } from '../../game/constants';
+import { describeMatchConfig, formatRounds, formatTagTeam, getMatchPresets } from '../../game/matchRules';
+import type { MatchPresetId } from '../../game/types';
+import { Button } from './Button';
+import styles from './Rules.module.css';
+
+interface RulesProps {
+  selected: MatchPresetId;
+  onSelect: (preset: MatchPresetId) => void;
+  rounds: number;
+  onSelectRounds: (rounds: number) => void;
+  tagTeam: boolean;
+  onSelectTagTeam: (tagTeam: boolean) => void;
+  onClose: () => void;
+}
+
+export const Rules: React.FC<RulesProps> = ({
+  selected,
+  onSelect,
+  rounds,
+  onSelectRounds,
+  tagTeam,
+  onSelectTagTeam,
+  onClose,
+}) => {
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.modal}>
+        <h2 className={styles.title}>Match Rules</h2>
+        <p className={styles.hint}>Every match - against the AI or in versus - is played under these rules.</p>
+
+        <div className={styles.presets}>
+          {getMatchPresets().map((preset) => (
+            <button
+              key={preset.id}
+              className={`${styles.preset} ${preset.id === selected ? styles.selected : ''}`}
+              onClick={() => onSelect(preset.id)}
+            >
+              <span className={styles.name}>{preset.name}</span>
+              <span className={styles.description}>{preset.description}</span>
+              <ul className={styles.rules}>
+                {describeMatchConfig(preset.config).map((rule) => (
+                  <li key={rule}>{rule}</li>
+                ))}
+              </ul>
+            </button>
+          ))}
+        </div>
+
+        <h3 className={styles.heading}>Rounds</h3>
+        <div className={styles.rounds}>
+          {ROUND_OPTIONS.map((option) => (
+            <button
+              key={option}
+              className={`${styles.round} ${option === rounds ? styles.selected : ''}`}
+              onClick={() => onSelectRounds(option)}
+            >
+              {formatRounds(option)}
+            </button>
+          ))}
+        </div>
+
+        <h3 className={styles.heading}>Format</h3>
+        <div className={styles.rounds}>
+          {[false, true].map((option) => (
+            <button
+              key={formatTagTeam(option)}
+              className={`${styles.round} ${option === tagTeam ? styles.selected : ''}`}
+              onClick={() => onSelectTagTeam(option)}
+            >
+              {formatTagTeam(option)}
+            </button>
+          ))}
+        </div>
+
+        <div className={styles.buttons}>
+          <Button variant="primary" size="medium" onClick={onClose}>
+            Done
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Rules;
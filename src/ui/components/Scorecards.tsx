@@ -0,0 +1,44 @@
+/**
+ * Beam Brawlers - Judges' Scorecards
+ * Each fighter's marks from the judges' panel, with the category marks behind them
+ */
+
+import React from 'react';
+import type { GameResult, Scorecard } from '../../game/types';
+import styles from './Scorecards.module.css';
+
+interface ScorecardsProps {
+  scorecards: GameResult['scorecards'];
+  playerName: string;
+  opponentName: string;
+}
+
+export const Scorecards: React.FC<ScorecardsProps> = ({ scorecards, playerName, opponentName }) => {
+  const formatMark = (mark: number) => mark.toFixed(1);
+
+  const renderRow = (name: string, card: Scorecard, className: string) => (
+    <tr className={className}>
+      <th>
+        {name}
+        <span className={styles.categories}>
+          Exec {formatMark(card.categories.execution)} · Diff {formatMark(card.categories.difficulty)} · Art{' '}
+          {formatMark(card.categories.artistry)}
+        </span>
+      </th>
+      <td className={styles.marks}>{card.marks.map(formatMark).join(' / ')}</td>
+      <td className={styles.total}>{formatMark(card.total)}</td>
+    </tr>
+  );
+
+  return (
+    <table className={styles.table}>
+      <caption className={styles.caption}>Judges' Panel</caption>
+      <tbody>
+        {renderRow(playerName, scorecards.player, styles.player)}
+        {renderRow(opponentName, scorecards.opponent, styles.opponent)}
+      </tbody>
+    </table>
+  );
+};
+
+export default Scorecards;
@@ -2,31 +2,55 @@
  * Beam Brawlers - Title Screen Component
  */
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { GAME_NAME } from '../../game/constants';
+import type { GameMode } from '../../game/types';
 import { Button } from './Button';
 import styles from './TitleScreen.module.css';
 
 interface TitleScreenProps {
-  onStart: () => void;
+  onStart: (mode: GameMode) => void;
   onHowToPlay: () => void;
+  onControls: () => void;
+  onRules: () => void;
+  rulesName: string;
   onToggleAudio: () => boolean;
   isAudioEnabled: () => boolean;
+  onLoadReplay: (json: string) => void;
 }
 
 export const TitleScreen: React.FC<TitleScreenProps> = ({ 
   onStart, 
   onHowToPlay,
+  onControls,
+  onRules,
+  rulesName,
   onToggleAudio,
   isAudioEnabled,
+  onLoadReplay,
 }) => {
   const [audioEnabled, setAudioEnabled] = useState(isAudioEnabled());
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleToggleAudio = () => {
     const newState = onToggleAudio();
     setAudioEnabled(newState);
   };
 
+  const handleReplayFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onLoadReplay(await file.text());
+      setReplayError(null);
+    } catch (e) {
+      setReplayError(e instanceof Error ? e.message : 'Could not load replay');
+    }
+  };
+
   return (
     <div className={styles.container}>
       <div className={styles.content}>
@@ -44,12 +68,32 @@ export const TitleScreen: React.FC<TitleScreenProps> = ({
 
         {/* Menu buttons */}
         <div className={styles.menu}>
-          <Button variant="primary" size="large" onClick={onStart}>
+          <Button variant="primary" size="large" onClick={() => onStart('vsAI')}>
             Start Match
           </Button>
+          <Button variant="primary" size="medium" onClick={() => onStart('versus')}>
+            2 Player Versus
+          </Button>
+          <Button variant="secondary" size="medium" onClick={onRules}>
+            📜 Rules: {rulesName}
+          </Button>
           <Button variant="secondary" size="medium" onClick={onHowToPlay}>
             How to Play
           </Button>
+          <Button variant="secondary" size="small" onClick={onControls}>
+            ⌨️ Controls
+          </Button>
+          <Button variant="secondary" size="small" onClick={() => fileInputRef.current?.click()}>
+            📼 Load Replay
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className={styles.fileInput}
+            onChange={handleReplayFile}
+          />
+          {replayError && <p className={styles.error}>{replayError}</p>}
           <Button variant="secondary" size="small" onClick={handleToggleAudio}>
             {audioEnabled ? '🔊 Sound ON' : '🔇 Sound OFF'}
           </Button>
@@ -0,0 +1,122 @@
+/**
+ * Beam Brawlers - Touch Controls
+ * On-screen d-pad and action buttons for phones and tablets
+ */
+
+import React, { useEffect, useRef } from 'react';
+import type { TouchInputSource } from '../../engine/touch';
+import { getMoveDefinitions } from '../../game/logic/moveRegistry';
+import type { InputState, MoveStance } from '../../game/types';
+import styles from './TouchControls.module.css';
+
+interface TouchControlsProps {
+  input: TouchInputSource;
+  moveStance: MoveStance | null; // which moves can be started right now, if any
+  canFinish: boolean; // full momentum with the opponent in reach
+  canTag: boolean; // tag-team partner within reach
+}
+
+interface TouchButtonProps {
+  input: TouchInputSource;
+  action: keyof InputState;
+  label: string;
+  className?: string;
+}
+
+/**
+ * A button held by any number of fingers; fingers can slide between buttons
+ */
+const TouchButton: React.FC<TouchButtonProps> = ({ input, action, label, className = '' }) => {
+  // Fingers on this button - move, finisher and tag buttons can vanish under a finger
+  // (no pointerup reaches them), so whatever's left is released on unmount
+  const pointers = useRef(new Set<number>());
+
+  useEffect(() => {
+    const held = pointers.current;
+    return () => {
+      for (const pointerId of held) {
+        input.release(action, pointerId);
+      }
+      held.clear();
+    };
+  }, [input, action]);
+
+  const press = (pointerId: number) => {
+    pointers.current.add(pointerId);
+    input.press(action, pointerId);
+  };
+
+  const handleDown = (event: React.PointerEvent<HTMLButtonElement>) => {
+    event.preventDefault();
+    // Touch pointers are captured by default - release so sliding onto another button works
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+    press(event.pointerId);
+  };
+
+  const handleEnter = (event: React.PointerEvent<HTMLButtonElement>) => {
+    if (event.buttons > 0) {
+      press(event.pointerId);
+    }
+  };
+
+  const handleUp = (event: React.PointerEvent<HTMLButtonElement>) => {
+    pointers.current.delete(event.pointerId);
+    input.release(action, event.pointerId);
+  };
+
+  return (
+    <button
+      className={`${styles.button} ${className}`}
+      onPointerDown={handleDown}
+      onPointerEnter={handleEnter}
+      onPointerUp={handleUp}
+      onPointerLeave={handleUp}
+      onPointerCancel={handleUp}
+      onContextMenu={(event) => event.preventDefault()}
+    >
+      {label}
+    </button>
+  );
+};
+
+export const TouchControls: React.FC<TouchControlsProps> = ({ input, moveStance, canFinish, canTag }) => {
+  return (
+    <div className={styles.overlay}>
+      {/* Virtual d-pad */}
+      <div className={styles.dpad}>
+        <TouchButton input={input} action="jump" label="▲" className={styles.up} />
+        <TouchButton input={input} action="moveLeft" label="◀" className={styles.left} />
+        <TouchButton input={input} action="moveRight" label="▶" className={styles.right} />
+        <TouchButton input={input} action="crouch" label="▼" className={styles.down} />
+      </div>
+
+      {/* Actions - grapple moves only appear while locked up (low-stance ones while crouched,
+          aerials mid-jump), the finisher and tag only once they're ready */}
+      <div className={styles.actions}>
+        {canFinish && (
+          <TouchButton input={input} action="finisher" label="Finisher!" className={styles.finisher} />
+        )}
+        {canTag && (
+          <TouchButton input={input} action="tag" label="Tag!" className={styles.tag} />
+        )}
+        {moveStance && (
+          <div className={styles.moves}>
+            {getMoveDefinitions().filter((move) => move.stance === moveStance).map((move) => (
+              <TouchButton key={move.id} input={input} action={move.id} label={move.name} className={styles.move} />
+            ))}
+          </div>
+        )}
+        <div className={styles.basics}>
+          <TouchButton input={input} action="jump" label="Jump" />
+          <TouchButton input={input} action="grapple" label="Grab" />
+          <TouchButton input={input} action="defend" label="Defend" />
+          <TouchButton input={input} action="pin" label="Pin" className={styles.pin} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TouchControls;
@@ -5,4 +5,8 @@
 export { Button } from './Button';
 export { TitleScreen } from './TitleScreen';
 export { HowToPlay } from './HowToPlay';
+export { Controls } from './Controls';
+export { Rules } from './Rules';
+export { TouchControls } from './TouchControls';
 export { GameOver } from './GameOver';
+export { RoundOver } from './RoundOver';
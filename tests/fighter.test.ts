@@ -26,19 +26,30 @@ import {
   isAboveFighter,
   markJumpedOver,
   moveInAir,
+  updateCrouch,
+  drainBalance,
+  applyMovementCosts,
+  loseFooting,
+  climbStep,
+  climbUp,
 } from '../src/game/logic/fighter';
 import {
   BEAM_LEFT,
   BEAM_RIGHT,
   MAX_BALANCE,
   MAX_STAMINA,
+  HANG_DURATION,
+  HANG_CLIMB_PER_STEP,
+  HANG_CLIMB_BALANCE,
 } from '../src/game/constants';
+import type { Fighter } from '../src/game/types';
 
 describe('Fighter Creation', () => {
   it('should create a fighter with correct initial values', () => {
     const fighter = createFighter('player', 400, 'right', 'TestPlayer');
     
-    expect(fighter.id).toBe('player');
+    expect(fighter.id).toBe('player-1');
+    expect(fighter.side).toBe('player');
     expect(fighter.x).toBe(400);
     expect(fighter.facing).toBe('right');
     expect(fighter.state).toBe('Idle');
@@ -49,7 +60,9 @@ describe('Fighter Creation', () => {
 
   it('should create opponent with different id', () => {
     const fighter = createFighter('opponent', 500, 'left', 'TestAI');
-    expect(fighter.id).toBe('opponent');
+    expect(fighter.id).toBe('opponent-1');
+    expect(fighter.side).toBe('opponent');
+    expect(createFighter('opponent', 500, 'left', 'TestAI', 1).id).toBe('opponent-2');
     expect(fighter.facing).toBe('left');
   });
 });
@@ -257,14 +270,14 @@ describe('Jump Mechanics', () => {
   });
 
   it('should update jump physics with gravity', () => {
-    let fighter = { ...createFighter('player', 400, 'right', 'TestPlayer'), state: 'Jumping' as const, y: -50, velocityY: -200 };
+    let fighter: Fighter = { ...createFighter('player', 400, 'right', 'TestPlayer'), state: 'Jumping', y: -50, velocityY: -200 };
     fighter = updateJumpPhysics(fighter, 0.016);
     expect(fighter.velocityY).toBeGreaterThan(-200); // Gravity slows ascent
     expect(fighter.y).toBeLessThan(-50); // Still moving up initially
   });
 
   it('should land when y reaches 0', () => {
-    let fighter = { ...createFighter('player', 400, 'right', 'TestPlayer'), state: 'Jumping' as const, y: -5, velocityY: 300 };
+    let fighter: Fighter = { ...createFighter('player', 400, 'right', 'TestPlayer'), state: 'Jumping', y: -5, velocityY: 300 };
     fighter = updateJumpPhysics(fighter, 0.016);
     expect(fighter.y).toBe(0);
     expect(fighter.state).toBe('Idle');
@@ -324,3 +337,80 @@ describe('Jump Mechanics', () => {
   });
 });
 
+describe('Crouching', () => {
+  const createCrouchingFighter = () =>
+    updateCrouch(createFighter('player', 400, 'right', 'TestPlayer'), true);
+
+  it('should crouch while held and stand when released', () => {
+    const crouched = createCrouchingFighter();
+    expect(crouched.state).toBe('Crouching');
+    expect(canAct(crouched)).toBe(true);
+    expect(updateCrouch(crouched, false).state).toBe('Idle');
+  });
+
+  it('should not crouch out of a grapple', () => {
+    const grappling = transitionState(createFighter('player', 400, 'right', 'TestPlayer'), 'GrappleEngaged');
+    expect(updateCrouch(grappling, true).state).toBe('GrappleEngaged');
+  });
+
+  it('should move at reduced speed and stay crouched', () => {
+    const standing = moveFighter(createFighter('player', 400, 'right', 'TestPlayer'), 'right', 0.1);
+    const crouched = moveFighter(createCrouchingFighter(), 'right', 0.1);
+    expect(crouched.state).toBe('Crouching');
+    expect(crouched.x - 400).toBeCloseTo((standing.x - 400) / 2);
+  });
+
+  it('should halve balance drain', () => {
+    expect(drainBalance(createCrouchingFighter(), 20).balance).toBe(MAX_BALANCE - 10);
+    expect(applyMovementCosts(createCrouchingFighter(), 1).balance).toBeGreaterThan(
+      applyMovementCosts(createFighter('player', 400, 'right', 'TestPlayer'), 1).balance
+    );
+  });
+
+  it('should not jump or grapple while crouched', () => {
+    expect(canJump(createCrouchingFighter())).toBe(false);
+    expect(canGrapple(createCrouchingFighter())).toBe(false);
+  });
+
+  it('should let jumps pass over a crouched fighter', () => {
+    const jumper = { ...createFighter('opponent', 405, 'left', 'TestAI'), state: 'Jumping' as const, y: -20 };
+    const crouched = createCrouchingFighter();
+    expect(isAboveFighter(jumper, crouched)).toBe(false);
+    expect(isHighEnoughToJumpOver(jumper, crouched)).toBe(true);
+    expect(isHighEnoughToJumpOver(jumper, createFighter('player', 400, 'right', 'TestPlayer'))).toBe(false);
+  });
+});
+
+describe('Edge Hanging', () => {
+  const createHangingFighter = () =>
+    loseFooting({ ...createFighter('player', BEAM_LEFT + 30, 'right', 'TestPlayer'), balance: 0 });
+
+  it('should grab the edge when losing footing in the edge zone', () => {
+    const hanging = createHangingFighter();
+    expect(hanging.state).toBe('Hanging');
+    expect(hanging.stateTimer).toBe(HANG_DURATION);
+    expect(canAct(hanging)).toBe(false);
+  });
+
+  it('should fall straight off away from the edges', () => {
+    const fighter = { ...createFighter('player', (BEAM_LEFT + BEAM_RIGHT) / 2, 'right', 'TestPlayer'), balance: 0 };
+    expect(loseFooting(fighter).state).toBe('Falling');
+  });
+
+  it('should only count climbing steps that alternate', () => {
+    let hanging = climbStep(createHangingFighter(), 'left');
+    expect(hanging.climbProgress).toBe(HANG_CLIMB_PER_STEP);
+    hanging = climbStep(hanging, 'left');
+    expect(hanging.climbProgress).toBe(HANG_CLIMB_PER_STEP);
+    hanging = climbStep(hanging, 'right');
+    expect(hanging.climbProgress).toBe(HANG_CLIMB_PER_STEP * 2);
+    expect(climbStep(hanging, null)).toBe(hanging);
+  });
+
+  it('should climb back up with reduced balance', () => {
+    const climbed = climbUp(createHangingFighter());
+    expect(climbed.state).toBe('Idle');
+    expect(climbed.balance).toBe(HANG_CLIMB_BALANCE);
+    expect(climbed.climbProgress).toBe(0);
+  });
+});
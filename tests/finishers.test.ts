@@ -0,0 +1,73 @@
+/**
+ * Beam Brawlers - Finisher Logic Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canPerformFinisher, getSignatureFinisher, hasFullMomentum } from '../src/game/logic/finishers';
+import { applyCrowdMomentum, createInitialState, transitionScene } from '../src/game/logic/gameState';
+import { createFighter, transitionState, updateMomentum } from '../src/game/logic/fighter';
+import { getFighter } from '../src/game/logic/teams';
+import { BEAM_LEFT, BEAM_RIGHT, GRAPPLE_RANGE, MAX_MOMENTUM, ZAPPA_FIGHTER_NAMES } from '../src/game/constants';
+import { withFighters } from './helpers';
+
+describe('Momentum', () => {
+  it('should start empty and clamp to 0-100', () => {
+    const fighter = createFighter('player', 400, 'right', 'Peaches');
+    expect(fighter.momentum).toBe(0);
+    expect(updateMomentum(fighter, -10).momentum).toBe(0);
+    expect(updateMomentum(fighter, 250).momentum).toBe(MAX_MOMENTUM);
+    expect(hasFullMomentum(updateMomentum(fighter, MAX_MOMENTUM))).toBe(true);
+  });
+
+  it('should feed the crowd momentum to the trailing fighter only', () => {
+    const state = transitionScene(createInitialState(1), 'Playing');
+    const trailing = withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), score: 200 } });
+    const result = applyCrowdMomentum(trailing, 1);
+    expect(getFighter(result, 'player').momentum).toBeGreaterThan(0);
+    expect(getFighter(result, 'opponent').momentum).toBe(0);
+  });
+
+  it('should feed both fighters when the score is level', () => {
+    const state = transitionScene(createInitialState(1), 'Playing');
+    const result = applyCrowdMomentum(state, 1);
+    expect(getFighter(result, 'player').momentum).toBeGreaterThan(0);
+    expect(getFighter(result, 'opponent').momentum).toBe(getFighter(result, 'player').momentum);
+  });
+});
+
+describe('Signature Finishers', () => {
+  const createReadyFighters = () => {
+    const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
+    const player = updateMomentum(createFighter('player', center - 30, 'right', 'Peaches'), MAX_MOMENTUM);
+    const opponent = createFighter('opponent', center + 30, 'left', 'Chunga');
+    return { player, opponent };
+  };
+
+  it('should give every fighter in the roster their own finisher', () => {
+    const finishers = ZAPPA_FIGHTER_NAMES.map(getSignatureFinisher);
+    expect(new Set(finishers).size).toBe(ZAPPA_FIGHTER_NAMES.length);
+    expect(getSignatureFinisher('Peaches')).toBe('Peaches en Regalia');
+  });
+
+  it('should fall back to a generic finisher for unknown names', () => {
+    expect(getSignatureFinisher('TestPlayer')).toBe('TestPlayer Special');
+    expect(getSignatureFinisher('toString')).toBe('toString Special');
+  });
+
+  it('should allow a finisher with full momentum next to the opponent', () => {
+    const { player, opponent } = createReadyFighters();
+    expect(canPerformFinisher(player, opponent)).toBe(true);
+  });
+
+  it('should reject a finisher without full momentum', () => {
+    const { player, opponent } = createReadyFighters();
+    expect(canPerformFinisher(updateMomentum(player, -1), opponent)).toBe(false);
+  });
+
+  it('should reject a finisher out of reach or while the attacker is busy', () => {
+    const { player, opponent } = createReadyFighters();
+    expect(canPerformFinisher(player, { ...opponent, x: player.x + GRAPPLE_RANGE + 10 })).toBe(false);
+    expect(canPerformFinisher(transitionState(player, 'Stunned', 1), opponent)).toBe(false);
+    expect(canPerformFinisher(player, { ...opponent, y: -30, state: 'Jumping' })).toBe(false);
+  });
+});
@@ -0,0 +1,789 @@
+/**
+ * Beam Brawlers - Game Reducer Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { gameReducer } from '../src/game/gameReducer';
+import { createInitialState, transitionScene } from '../src/game/logic/gameState';
+import { createInputState } from '../src/engine/input';
+import { AIController, decisionToInput } from '../src/game/ai';
+import { getSignatureFinisher } from '../src/game/logic/finishers';
+import { hasFallenOff } from '../src/game/logic/fighter';
+import {
+  BEAM_LEFT,
+  EDGE_STOMP_POINTS,
+  HANG_CLIMB_BALANCE,
+  HANG_DURATION,
+  JUMP_OVER_BONUS,
+  MATCH_PRESETS,
+  MAX_STAMINA,
+  OVERTIME_DURATION,
+  OVERTIME_INTRO_DURATION,
+  SCORING,
+  TAG_COOLDOWN,
+  WHIFF_RECOVERY_DURATION,
+} from '../src/game/constants';
+import type { ControlInput, Fighter, GameState } from '../src/game/types';
+import { getBench, getFighter, setFighter } from '../src/game/logic/teams';
+import { moveId, withFighters } from './helpers';
+
+const createPlayingState = (mode: GameState['mode'] = 'vsAI'): GameState =>
+  transitionScene(createInitialState(1, mode), 'Playing');
+
+type HeldControls = Partial<Record<ControlInput, boolean>>;
+
+/**
+ * Run one UPDATE with the given held controls (nothing held by default)
+ */
+const step = (
+  state: GameState,
+  {
+    player = {},
+    opponent = {},
+    deltaTime = 1 / 60,
+  }: { player?: HeldControls; opponent?: HeldControls; deltaTime?: number } = {}
+): GameState =>
+  gameReducer(state, {
+    type: 'UPDATE',
+    deltaTime,
+    inputs: { player: { ...createInputState(), ...player }, opponent: { ...createInputState(), ...opponent } },
+  });
+
+describe('Versus Mode', () => {
+  it('should start a versus match and keep the mode on restart', () => {
+    let state = gameReducer(createInitialState(1), { type: 'START_GAME', seed: 2, mode: 'versus' });
+    expect(state.mode).toBe('versus');
+    state = gameReducer(state, { type: 'RESTART', seed: 3 });
+    expect(state.mode).toBe('versus');
+  });
+
+  it('should move the opponent with the second player input', () => {
+    const state = createPlayingState('versus');
+    const newState = gameReducer(state, {
+      type: 'UPDATE',
+      deltaTime: 0.1,
+      inputs: {
+        player: createInputState(),
+        opponent: { ...createInputState(), moveRight: true, defend: true },
+      },
+    });
+    expect(getFighter(newState, 'opponent').x).toBeGreaterThan(getFighter(state, 'opponent').x);
+    expect(getFighter(newState, 'opponent').isDefending).toBe(true);
+    expect(getFighter(newState, 'player').x).toBe(getFighter(state, 'player').x);
+  });
+
+  it('should label fighters as P1/P2 in callouts', () => {
+    let state = createPlayingState('versus');
+    state = withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), state: 'Falling' } });
+    const newState = gameReducer(state, { type: 'FIGHTER_FELL', fighter: 'opponent' });
+    expect(newState.currentCallout!.subtext).toContain('P2');
+  });
+
+  it('should let P2 jump over P1 for the bonus', () => {
+    let state = createPlayingState('versus');
+    const player = getFighter(state, 'player');
+    state = withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), x: player.x + 60, facing: 'left' } });
+    state = gameReducer(state, { type: 'JUMP', fighter: 'opponent' });
+    for (let i = 0; i < 60 && getFighter(state, 'opponent').judging.jumpOvers === 0; i++) {
+      state = step(state, { opponent: { moveLeft: true } });
+    }
+    expect(getFighter(state, 'opponent').judging.jumpOvers).toBe(1);
+    expect(getFighter(state, 'opponent').score).toBe(JUMP_OVER_BONUS);
+    expect(state.currentCallout).toMatchObject({ text: 'JUMP OVER!', subtext: `P2 +${JUMP_OVER_BONUS}` });
+  });
+});
+
+describe('Per-Fighter Input', () => {
+  it('should move and defend the AI opponent from its decisions', () => {
+    const state = createPlayingState();
+    let newState = gameReducer(state, {
+      type: 'UPDATE',
+      deltaTime: 0.1,
+      inputs: { player: createInputState(), opponent: decisionToInput({ action: 'moveLeft' }) },
+    });
+    expect(getFighter(newState, 'opponent').x).toBeLessThan(getFighter(state, 'opponent').x);
+
+    newState = gameReducer(newState, {
+      type: 'UPDATE',
+      deltaTime: 0.1,
+      inputs: { player: createInputState(), opponent: decisionToInput({ action: 'defend' }) },
+    });
+    expect(getFighter(newState, 'opponent').isDefending).toBe(true);
+  });
+});
+
+describe('Timed Counters', () => {
+  const createGrapplingState = (): GameState => {
+    const state = createPlayingState('versus');
+    return withFighters({
+      ...state,
+      player: { ...getFighter(state, 'player'), x: 480, state: 'GrappleEngaged' },
+      opponent: { ...getFighter(state, 'opponent'), x: 530, state: 'GrappleEngaged' },
+      isGrappling: true,
+      grappleInitiator: 'player',
+    });
+  };
+
+  const deltaTime = 0.1;
+
+  it('should not resolve a move when it starts', () => {
+    const state = gameReducer(createGrapplingState(), { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('pancake') });
+    expect(getFighter(state, 'player').state).toBe('ExecutingMove');
+    expect(state.activeMove).toMatchObject({ attacker: 'player', move: 'pancake' });
+    expect(getFighter(state, 'player').score).toBe(0);
+    expect(getFighter(state, 'opponent').state).toBe('GrappleEngaged');
+  });
+
+  it('should land the move once the counter window closes', () => {
+    let state = gameReducer(createGrapplingState(), { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('pancake') });
+    state = step(state, { deltaTime });
+    state = step(state, { deltaTime });
+    expect(getFighter(state, 'player').score).toBe(0);
+
+    state = step(state, { deltaTime });
+    state = step(state, { deltaTime });
+    expect(state.activeMove).toBeNull();
+    expect(getFighter(state, 'player').score).toBeGreaterThan(0);
+    expect(getFighter(state, 'opponent').state).toBe('Stunned');
+    expect(state.currentCallout!.text).toBe('PANCAKE!');
+  });
+
+  it('should reverse the move when defend is pressed inside the window', () => {
+    let state = gameReducer(createGrapplingState(), { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('pancake') });
+    state = step(state, { deltaTime });
+    state = step(state, { opponent: { defend: true }, deltaTime });
+
+    expect(state.activeMove).toBeNull();
+    expect(getFighter(state, 'player').state).toBe('Stunned');
+    expect(getFighter(state, 'player').score).toBe(0);
+    expect(getFighter(state, 'opponent').state).not.toBe('Stunned');
+    expect(state.currentCallout!.text).toBe('REVERSAL!');
+  });
+
+  it('should not count defend held from before the move', () => {
+    let state = step(createGrapplingState(), { opponent: { defend: true }, deltaTime });
+    expect(getFighter(state, 'opponent').isDefending).toBe(true);
+
+    state = gameReducer(state, { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('pancake') });
+    for (let i = 0; i < 4; i++) {
+      state = step(state, { opponent: { defend: true }, deltaTime });
+    }
+    expect(getFighter(state, 'opponent').state).toBe('Stunned');
+    expect(getFighter(state, 'player').score).toBeGreaterThan(0);
+  });
+
+  it('should give the defender only one press per move', () => {
+    let state = gameReducer(createGrapplingState(), { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('scissors') });
+    state = withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), stamina: 10 } }); // too tired to escape
+    state = step(state, { opponent: { defend: true }, deltaTime });
+    state = step(state, { deltaTime });
+    state = withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), stamina: 100 } });
+    state = step(state, { opponent: { defend: true }, deltaTime });
+
+    expect(getFighter(state, 'player').state).toBe('ExecutingMove');
+    expect(state.activeMove!.counterAttempted).toBe(true);
+  });
+
+  it('should not let the defender start a move of their own mid-move', () => {
+    let state = gameReducer(createGrapplingState(), { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('pancake') });
+    state = gameReducer(state, { type: 'EXECUTE_MOVE', fighter: 'opponent', move: moveId('pancake') });
+    expect(getFighter(state, 'opponent').state).toBe('GrappleEngaged');
+    expect(state.activeMove!.attacker).toBe('player');
+  });
+});
+
+describe('Crouching', () => {
+  const crouchStep = (state: GameState, crouch: boolean): GameState =>
+    gameReducer(state, {
+      type: 'UPDATE',
+      deltaTime: 0.1,
+      inputs: { player: { ...createInputState(), crouch }, opponent: createInputState() },
+    });
+
+  it('should crouch while the crouch input is held', () => {
+    let state = crouchStep(createPlayingState(), true);
+    expect(getFighter(state, 'player').state).toBe('Crouching');
+    state = crouchStep(state, false);
+    expect(getFighter(state, 'player').state).toBe('Idle');
+  });
+
+  it('should not get stomped while crouched', () => {
+    let state = crouchStep(createPlayingState(), true);
+    state = withFighters({
+      ...state,
+      opponent: { ...getFighter(state, 'opponent'), x: getFighter(state, 'player').x, y: -5, velocityY: 200, state: 'Jumping' },
+    });
+    state = crouchStep(state, true);
+    expect(getFighter(state, 'player').state).toBe('Crouching');
+    expect(getFighter(state, 'opponent').score).toBe(0);
+  });
+
+  it('should start a low-stance move from a crouch', () => {
+    let state = createPlayingState();
+    state = withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), x: getFighter(state, 'player').x + 50 } });
+    state = crouchStep(state, true);
+    state = gameReducer(state, { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('legSweep') });
+    expect(getFighter(state, 'player').state).toBe('ExecutingMove');
+    expect(state.activeMove!.move).toBe('legSweep');
+  });
+
+  it('should let the AI crouch in range and go for the legs', () => {
+    const state = createPlayingState();
+    const inRange = withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), x: getFighter(state, 'player').x + 50 } });
+    const ai = new AIController(0, 'opponent');
+    const decisions = Array.from({ length: 20 }, (_, i) => ai.decide({ ...inRange, elapsedTime: i }).action);
+    expect(decisions).toContain('crouch');
+
+    // Sweep a wobbling target, pick the ankle of a steady one
+    const crouched = withFighters({ ...inRange, opponent: { ...getFighter(inRange, 'opponent'), state: 'Crouching' } });
+    const lowMove = (balance: number) => {
+      const decision = new AIController(0, 'opponent').decide(
+        withFighters({ ...crouched, player: { ...getFighter(crouched, 'player'), balance } })
+      );
+      return decision.action === 'executeMove' ? decision.move : null;
+    };
+    expect(lowMove(50)).toBe('legSweep');
+    expect(lowMove(100)).toBe('anklePick');
+  });
+});
+
+describe('Scissors Hold', () => {
+  const startScissors = (): GameState => {
+    const state = createPlayingState('versus');
+    const grappling: GameState = withFighters({
+      ...state,
+      player: { ...getFighter(state, 'player'), x: 480, state: 'GrappleEngaged' },
+      opponent: { ...getFighter(state, 'opponent'), x: 530, state: 'GrappleEngaged' },
+      isGrappling: true,
+      grappleInitiator: 'player',
+    });
+    return gameReducer(grappling, { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('scissors') });
+  };
+
+  const deltaTime = 0.05;
+
+  const lockIn = (state: GameState): GameState => {
+    while (!state.activeMove!.holding) state = step(state, { deltaTime });
+    return state;
+  };
+
+  it('should lock the defender in once the counter window closes', () => {
+    const state = lockIn(startScissors());
+    expect(getFighter(state, 'opponent').state).toBe('Held');
+    expect(state.currentCallout!.subtext).toContain('mash');
+  });
+
+  it('should drain balance over the hold and land at the end', () => {
+    let state = lockIn(startScissors());
+    const balanceAtLock = getFighter(state, 'opponent').balance;
+    state = step(step(state, { deltaTime }), { deltaTime });
+    expect(getFighter(state, 'opponent').balance).toBeLessThan(balanceAtLock);
+
+    while (state.activeMove) state = step(state, { deltaTime });
+    expect(state.currentCallout!.text).toBe('SCISSORS!');
+    expect(getFighter(state, 'player').score).toBeGreaterThanOrEqual(150);
+    expect(getFighter(state, 'opponent').state).toBe('Stunned');
+  });
+
+  it('should escape early with partial points when mashing', () => {
+    let state = lockIn(startScissors());
+    for (let i = 0; i < 40 && state.activeMove; i++) {
+      state = step(state, { opponent: { defend: i % 2 === 0 }, deltaTime });
+    }
+    expect(state.activeMove).toBeNull();
+    expect(state.currentCallout!.text).toBe('ESCAPED!');
+    expect(getFighter(state, 'opponent').state).toBe('Idle');
+    expect(getFighter(state, 'player').state).toBe('Recovering');
+    expect(getFighter(state, 'player').score).toBeGreaterThan(0);
+    expect(getFighter(state, 'player').score).toBeLessThan(150);
+  });
+
+  it('should not escape when too tired to mash', () => {
+    let state = lockIn(startScissors());
+    state = withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), stamina: 0 } });
+    for (let i = 0; i < 20; i++) {
+      state = step(state, { opponent: { defend: i % 2 === 0 }, deltaTime });
+    }
+    expect(state.activeMove!.escapeProgress).toBe(0);
+    expect(getFighter(state, 'opponent').state).toBe('Held');
+  });
+});
+
+describe('Momentum & Finishers', () => {
+  const createReadyState = (): GameState => {
+    const state = createPlayingState();
+    return withFighters({
+      ...state,
+      player: { ...getFighter(state, 'player'), x: 480, momentum: 100 },
+      opponent: { ...getFighter(state, 'opponent'), x: 530 },
+    });
+  };
+
+  const deltaTime = 0.1;
+
+  it('should score, stun and empty the meter when a finisher lands', () => {
+    const state = gameReducer(createReadyState(), { type: 'PERFORM_FINISHER', fighter: 'player' });
+    expect(getFighter(state, 'player').score).toBe(500);
+    expect(getFighter(state, 'player').momentum).toBe(0);
+    expect(getFighter(state, 'opponent').state).toBe('Stunned');
+    const name = getSignatureFinisher(getFighter(state, 'player').name);
+    expect(state.finisher).toMatchObject({ fighter: 'player', name });
+    expect(state.currentCallout!.text).toBe(`${name.toUpperCase()}!`);
+    expect(state.currentCallout!.subtext).toContain('FINISHER');
+  });
+
+  it('should ignore a finisher without full momentum', () => {
+    let state = createReadyState();
+    state = withFighters({ ...state, player: { ...getFighter(state, 'player'), momentum: 50 } });
+    expect(gameReducer(state, { type: 'PERFORM_FINISHER', fighter: 'player' })).toBe(state);
+  });
+
+  it('should not be countered', () => {
+    let state = gameReducer(createReadyState(), { type: 'PERFORM_FINISHER', fighter: 'player' });
+    state = step(state, { opponent: { defend: true }, deltaTime });
+    expect(getFighter(state, 'opponent').state).toBe('Stunned');
+    expect(getFighter(state, 'player').state).toBe('ExecutingMove');
+  });
+
+  it('should build momentum from landed moves and lose it on reversals', () => {
+    const grappling = (state: GameState): GameState => (withFighters({
+      ...state,
+      player: { ...getFighter(state, 'player'), x: 480, state: 'GrappleEngaged' },
+      opponent: { ...getFighter(state, 'opponent'), x: 530, state: 'GrappleEngaged', score: 1000 },
+      isGrappling: true,
+      grappleInitiator: 'player',
+    }));
+
+    let landed = gameReducer(grappling(createPlayingState()), { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('pancake') });
+    while (landed.activeMove) landed = step(landed, { deltaTime });
+    expect(getFighter(landed, 'player').momentum).toBeGreaterThanOrEqual(20);
+
+    let reversed = grappling(createPlayingState());
+    reversed = withFighters({ ...reversed, player: { ...getFighter(reversed, 'player'), momentum: 50 } });
+    reversed = gameReducer(reversed, { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('pancake') });
+    reversed = step(reversed, { deltaTime });
+    reversed = step(reversed, { opponent: { defend: true }, deltaTime });
+    expect(reversed.currentCallout!.text).toBe('REVERSAL!');
+    expect(getFighter(reversed, 'player').momentum).toBeLessThan(50);
+  });
+
+  it('should lose momentum on a fall but keep it through a position reset', () => {
+    let state = createReadyState();
+    state = withFighters({ ...state, player: { ...getFighter(state, 'player'), state: 'Falling' } });
+    state = gameReducer(state, { type: 'FIGHTER_FELL', fighter: 'player' });
+    expect(getFighter(state, 'player').momentum).toBe(50);
+
+    state = gameReducer(state, { type: 'RESET_POSITIONS' });
+    expect(getFighter(state, 'player').momentum).toBe(50);
+  });
+});
+
+describe('Aerial Attacks', () => {
+  const jumpAt = (playerX: number, opponentX: number): GameState => {
+    const state = createPlayingState('versus');
+    return gameReducer(
+      withFighters({ ...state, player: { ...getFighter(state, 'player'), x: playerX }, opponent: { ...getFighter(state, 'opponent'), x: opponentX } }),
+      { type: 'JUMP', fighter: 'player' }
+    );
+  };
+
+  const land = (state: GameState): GameState => {
+    for (let i = 0; i < 120 && getFighter(state, 'player').currentMove; i++) {
+      state = step(state);
+    }
+    return state;
+  };
+
+  it('should land a diving elbow on an opponent underneath', () => {
+    let state = step(jumpAt(500, 520));
+    state = gameReducer(state, { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('divingElbow') });
+    expect(getFighter(state, 'player').currentMove).toBe('divingElbow');
+    expect(getFighter(state, 'player').velocityY).toBe(600);
+
+    state = land(state);
+    expect(state.currentCallout!.text).toBe('DIVING ELBOW!');
+    expect(getFighter(state, 'player').score).toBeGreaterThanOrEqual(150);
+    expect(getFighter(state, 'player').state).toBe('Recovering');
+    expect(getFighter(state, 'opponent').state).toBe('Stunned');
+  });
+
+  it('should whiff and crash when the opponent is out of range', () => {
+    let state = step(jumpAt(300, 700));
+    state = gameReducer(state, { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('divingElbow') });
+    const balanceBefore = getFighter(state, 'player').balance;
+
+    state = land(state);
+    expect(state.currentCallout!.text).toBe('WHIFF!');
+    expect(getFighter(state, 'player').score).toBe(0);
+    expect(getFighter(state, 'player').state).toBe('Recovering');
+    expect(getFighter(state, 'player').balance).toBeLessThan(balanceBefore - 30); // landing + whiff cost
+    expect(getFighter(state, 'opponent').state).not.toBe('Stunned');
+  });
+
+  it('should carry a flying crossbody toward the opponent', () => {
+    let state = step(jumpAt(400, 520));
+    state = gameReducer(state, { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('flyingCrossbody') });
+    const startX = getFighter(state, 'player').x;
+
+    state = step(state);
+    expect(getFighter(state, 'player').x).toBeGreaterThan(startX);
+    state = land(state);
+    expect(state.currentCallout!.text).toBe('FLYING CROSSBODY!');
+  });
+});
+
+describe('Edge Hanging', () => {
+  // Player stumbles toward the left end with nothing left in the tank
+  const hangOff = (): GameState => {
+    const state = createPlayingState('versus');
+    return step(withFighters({ ...state, player: { ...getFighter(state, 'player'), x: BEAM_LEFT + 30, balance: 0.01 } }), { player: { moveLeft: true } });
+  };
+
+  it('should hang on instead of falling when balance runs out at the edge', () => {
+    const state = hangOff();
+    expect(getFighter(state, 'player').state).toBe('Hanging');
+    expect(getFighter(state, 'player').climbProgress).toBe(0);
+  });
+
+  it('should climb back up with alternating left and right presses', () => {
+    let state = step(hangOff());
+    for (let i = 0; i < 8 && getFighter(state, 'player').state === 'Hanging'; i++) {
+      state = step(state, { player: i % 2 === 0 ? { moveLeft: true } : { moveRight: true } });
+    }
+    expect(getFighter(state, 'player').state).not.toBe('Hanging');
+    expect(getFighter(state, 'player').state).not.toBe('Falling');
+    expect(getFighter(state, 'player').balance).toBeCloseTo(HANG_CLIMB_BALANCE, 0);
+    expect(state.currentCallout!.text).toBe('SAVED!');
+  });
+
+  it('should fall when the grip runs out, however long a direction is held', () => {
+    let state = hangOff();
+    for (let t = 0; t < HANG_DURATION + 0.1; t += 0.1) {
+      state = step(state, { player: { moveRight: true }, deltaTime: 0.1 });
+    }
+    expect(getFighter(state, 'player').state).toBe('Falling');
+  });
+
+  it('should knock a hanging fighter off with an edge stomp', () => {
+    let state = hangOff();
+    state = withFighters({
+      ...state,
+      opponent: { ...getFighter(state, 'opponent'), x: getFighter(state, 'player').x + 10, y: -5, velocityY: 300, state: 'Jumping' },
+    });
+    state = step(state);
+    expect(getFighter(state, 'player').state).toBe('Falling');
+    expect(getFighter(state, 'opponent').score).toBe(EDGE_STOMP_POINTS);
+    expect(state.currentCallout!.text).toBe('EDGE STOMP!');
+  });
+});
+
+describe('Whiffed Moves', () => {
+  it('should whiff a move pressed without a grapple', () => {
+    const state = gameReducer(createPlayingState(), { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('pancake') });
+    expect(getFighter(state, 'player').state).toBe('Recovering');
+    expect(getFighter(state, 'player').stateTimer).toBe(WHIFF_RECOVERY_DURATION);
+    expect(getFighter(state, 'player').stamina).toBe(MAX_STAMINA - SCORING.penalties.whiffStaminaCost);
+    expect(state.activeMove).toBeNull();
+    expect(state.currentCallout!.text).toBe('WHIFF!');
+    expect(state.currentCallout!.subtext).toContain('PANCAKE');
+  });
+
+  it('should break the grapple when a move whiffs out of it', () => {
+    const state = createPlayingState('versus');
+    const tired: GameState = withFighters({
+      ...state,
+      player: { ...getFighter(state, 'player'), x: 480, state: 'GrappleEngaged', stamina: 5 },
+      opponent: { ...getFighter(state, 'opponent'), x: 530, state: 'GrappleEngaged' },
+      isGrappling: true,
+      grappleInitiator: 'player',
+    });
+    const newState = gameReducer(tired, { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('guillotine') });
+    expect(getFighter(newState, 'player').state).toBe('Recovering');
+    expect(getFighter(newState, 'player').stamina).toBe(0);
+    expect(getFighter(newState, 'opponent').state).toBe('Idle');
+    expect(newState.isGrappling).toBe(false);
+  });
+
+  it('should ignore move presses from a fighter who cannot act', () => {
+    const state = createPlayingState();
+    const stunned: GameState = withFighters({ ...state, player: { ...getFighter(state, 'player'), state: 'Stunned', stateTimer: 1 } });
+    expect(gameReducer(stunned, { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId('pancake') })).toBe(stunned);
+  });
+});
+
+describe('Submissions', () => {
+  const startHold = (
+    move: 'scissors' | 'guillotine',
+    opponent: Partial<Fighter>,
+    config = MATCH_PRESETS.exhibition.config
+  ): GameState => {
+    const state = transitionScene(createInitialState(1, 'versus', config), 'Playing');
+    const grappling: GameState = withFighters({
+      ...state,
+      player: { ...getFighter(state, 'player'), x: 480, state: 'GrappleEngaged' },
+      opponent: { ...getFighter(state, 'opponent'), x: 530, state: 'GrappleEngaged', ...opponent },
+      isGrappling: true,
+      grappleInitiator: 'player',
+    });
+    return gameReducer(grappling, { type: 'EXECUTE_MOVE', fighter: 'player', move: moveId(move) });
+  };
+
+  const deltaTime = 0.05;
+
+  it('should make a worn-out defender tap out', () => {
+    let state = startHold('guillotine', { balance: 20, stamina: 10 });
+    for (let i = 0; i < 40 && state.scene === 'Playing'; i++) state = step(state, { deltaTime });
+    expect(state.scene).toBe('GameOver');
+    expect(state.result).toMatchObject({ winner: 'player', reason: 'surrender' });
+    expect(state.currentCallout!.text).toBe('TAP OUT!');
+  });
+
+  it('should make a worn-out defender tap out in scissors before the drain drops them', () => {
+    for (const opponent of [{ balance: 20, stamina: 10 }, { balance: 25, stamina: 10 }, { balance: 30, stamina: 10 }, { balance: 40, stamina: 5 }]) {
+      let state = startHold('scissors', opponent);
+      while (state.activeMove && state.scene === 'Playing') state = step(state, { deltaTime });
+      expect(state.result).toMatchObject({ winner: 'player', reason: 'surrender' });
+      expect(getFighter(state, 'opponent').state).not.toBe('Falling');
+    }
+  });
+
+  it('should not fill the submission meter on a fresh defender', () => {
+    let state = startHold('guillotine', {});
+    while (!state.activeMove!.holding) state = step(state, { deltaTime });
+    state = step(step(state, { deltaTime }), { deltaTime });
+    expect(state.activeMove!.submissionProgress).toBe(0);
+    while (state.activeMove) state = step(state, { deltaTime });
+    expect(state.scene).toBe('Playing');
+    expect(state.currentCallout!.text).toBe('GUILLOTINE!');
+  });
+
+  it('should not let anyone tap out under pins-only rules', () => {
+    let state = startHold('guillotine', { balance: 20, stamina: 10 }, MATCH_PRESETS.pinsOnly.config);
+    while (state.activeMove) state = step(state, { deltaTime });
+    expect(state.scene).toBe('Playing');
+  });
+});
+
+describe('Match Rules', () => {
+  it('should start a match under the chosen rules and keep them on restart', () => {
+    const config = MATCH_PRESETS.tournament.config;
+    let state = gameReducer(createInitialState(1), { type: 'START_GAME', seed: 2, mode: 'vsAI', config });
+    expect(state.config).toBe(config);
+    state = gameReducer(state, { type: 'RESTART', seed: 3 });
+    expect(state.config).toBe(config);
+  });
+
+  it('should let a fallen fighter tumble for the fall delay before the reset', () => {
+    const state = createPlayingState();
+    let fallen = step(withFighters({ ...state, player: { ...getFighter(state, 'player'), balance: -10 } }));
+    expect(getFighter(fallen, 'player').state).toBe('Falling');
+    expect(hasFallenOff(getFighter(fallen, 'player'))).toBe(false);
+
+    for (let t = 0; t < fallen.config.fallResetDelay; t += 0.1) {
+      fallen = step(fallen, { deltaTime: 0.1 });
+    }
+    expect(hasFallenOff(getFighter(fallen, 'player'))).toBe(true);
+  });
+
+  it('should charge the configured fall penalty and end the match on the last fall', () => {
+    const initial = createInitialState(1, 'vsAI', MATCH_PRESETS.tournament.config);
+    let state = transitionScene(initial, 'Playing');
+    state = withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), state: 'Falling', falls: 1 } });
+    state = gameReducer(state, { type: 'FIGHTER_FELL', fighter: 'opponent' });
+    expect(getFighter(state, 'opponent').score).toBe(MATCH_PRESETS.tournament.config.fallPenalty);
+    expect(state.currentCallout!.subtext).toContain('(2/3)');
+    expect(state.scene).toBe('Playing');
+
+    state = withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), state: 'Falling' } });
+    state = gameReducer(state, { type: 'FIGHTER_FELL', fighter: 'opponent' });
+    expect(state.scene).toBe('GameOver');
+    expect(state.result!.winner).toBe('player');
+    expect(state.result!.reason).toBe('falls');
+  });
+});
+
+describe('Sudden-Death Overtime', () => {
+  // Level at the bell under rules with overtime
+  const ringBell = (config = MATCH_PRESETS.tournament.config): GameState => {
+    const state = transitionScene(createInitialState(1, 'vsAI', config), 'Playing');
+    return step(withFighters({ ...state, matchTimer: 0.01, player: { ...getFighter(state, 'player'), score: 200 }, opponent: { ...getFighter(state, 'opponent'), score: 200 } }));
+  };
+
+  const startPlaying = (state: GameState): GameState => step(state, { deltaTime: OVERTIME_INTRO_DURATION });
+
+  it('should go to overtime on a tie instead of calling a draw', () => {
+    const state = ringBell();
+    expect(state.scene).toBe('Overtime');
+    expect(state.overtimePeriod).toBe(1);
+    expect(state.matchTimer).toBe(OVERTIME_DURATION);
+    expect(state.currentCallout!.text).toBe('SUDDEN DEATH!');
+    expect(startPlaying(state).scene).toBe('Playing');
+  });
+
+  it('should still call a draw when the rules have no overtime', () => {
+    const state = ringBell(MATCH_PRESETS.exhibition.config);
+    expect(state.scene).toBe('GameOver');
+    expect(state.result).toMatchObject({ winner: 'draw', overtime: false });
+  });
+
+  it('should give the match to the first fighter to score', () => {
+    let state = startPlaying(ringBell());
+    state = step(withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), score: getFighter(state, 'opponent').score + 175 } }));
+    expect(state.scene).toBe('GameOver');
+    expect(state.result).toMatchObject({ winner: 'opponent', reason: 'overtime', overtime: true });
+  });
+
+  it('should give the match away on the first fall, penalty or not', () => {
+    const config = { ...MATCH_PRESETS.tournament.config, fallPenalty: 0 };
+    let state = startPlaying(ringBell(config));
+    state = withFighters({ ...state, player: { ...getFighter(state, 'player'), state: 'Falling' } });
+    state = gameReducer(state, { type: 'FIGHTER_FELL', fighter: 'player' });
+    expect(state.result).toMatchObject({ winner: 'opponent', reason: 'overtime' });
+  });
+
+  it('should start another period if overtime runs out level', () => {
+    let state = startPlaying(ringBell());
+    state = step({ ...state, matchTimer: 0.01 });
+    expect(state.scene).toBe('Overtime');
+    expect(state.overtimePeriod).toBe(2);
+  });
+});
+
+describe('Rounds', () => {
+  // Ring the bell on a round the player leads (or trails) on points
+  const winRound = (state: GameState, winner: 'player' | 'opponent'): GameState =>
+    step(setFighter({ ...state, matchTimer: 0.01 }, winner, { ...getFighter(state, winner), score: getFighter(state, winner).score + 100 }));
+
+  const startBestOf = (rounds: number): GameState =>
+    transitionScene(createInitialState(1, 'vsAI', { ...MATCH_PRESETS.exhibition.config, rounds }), 'Playing');
+
+  it('should go to the round-over screen after a round that does not decide the match', () => {
+    const state = winRound(startBestOf(3), 'player');
+    expect(state.scene).toBe('RoundOver');
+    expect(state.result).toBeNull();
+    expect(state.roundWins).toEqual({ player: 1, opponent: 0 });
+    expect(state.roundHistory).toHaveLength(1);
+    expect(state.roundHistory[0]).toMatchObject({ winner: 'player', reason: 'timeout', playerScore: 100 });
+  });
+
+  it('should start the next round with fresh fighters and a fresh clock', () => {
+    let state = winRound(startBestOf(3), 'player');
+    state = gameReducer(state, { type: 'NEXT_ROUND' });
+    expect(state.scene).toBe('Countdown');
+    expect(state.round).toBe(2);
+    expect(state.matchTimer).toBe(MATCH_PRESETS.exhibition.config.matchDuration);
+    expect(getFighter(state, 'player').score).toBe(0);
+    expect(getFighter(state, 'player').stamina).toBe(MAX_STAMINA);
+    expect(state.roundWins).toEqual({ player: 1, opponent: 0 });
+  });
+
+  it('should end the match once a fighter has won enough rounds, totalling the scores', () => {
+    let state = winRound(startBestOf(3), 'opponent');
+    state = transitionScene(gameReducer(state, { type: 'NEXT_ROUND' }), 'Playing');
+    state = winRound(state, 'opponent');
+    expect(state.scene).toBe('GameOver');
+    expect(state.result).toMatchObject({ winner: 'opponent', reason: 'timeout', opponentScore: 200 });
+    expect(state.roundHistory).toHaveLength(2);
+  });
+
+  it('should ignore NEXT_ROUND outside the round-over screen', () => {
+    const state = startBestOf(3);
+    expect(gameReducer(state, { type: 'NEXT_ROUND' })).toBe(state);
+  });
+});
+
+describe("Judges' Decision", () => {
+  it('should let the judges break a tie at the bell when the rules have no overtime', () => {
+    const state = createPlayingState();
+    const player = { ...getFighter(state, 'player'), score: 200, judging: { ...getFighter(state, 'player').judging, jumpOvers: 2 } };
+    const ended = step(withFighters({ ...state, matchTimer: 0.01, player, opponent: { ...getFighter(state, 'opponent'), score: 200 } }));
+    expect(ended.scene).toBe('GameOver');
+    expect(ended.result).toMatchObject({ winner: 'player', reason: 'decision' });
+    expect(ended.result!.scorecards.player.total).toBeGreaterThan(ended.result!.scorecards.opponent.total);
+  });
+
+  it('should keep what the judges have seen through a fall reset', () => {
+    const state = createPlayingState();
+    const fallen = gameReducer(
+      withFighters({ ...state, player: { ...getFighter(state, 'player'), state: 'Falling', judging: { ...getFighter(state, 'player').judging, jumps: 3 } } }),
+      { type: 'FIGHTER_FELL', fighter: 'player' }
+    );
+    expect(getFighter(fallen, 'player').judging.jumps).toBe(3);
+  });
+
+  it("should count either fighter's jump-over toward their artistry", () => {
+    for (const [jumperId, targetId] of [['player', 'opponent'], ['opponent', 'player']] as const) {
+      const state = createPlayingState();
+      const target = getFighter(state, targetId);
+      const jumper = { ...getFighter(state, jumperId), x: target.x + 10, y: -80, velocityY: 0, state: 'Jumping' as const };
+      const next = step(setFighter(state, jumperId, jumper));
+      expect(getFighter(next, jumperId).judging.jumpOvers).toBe(1);
+      expect(getFighter(next, jumperId).score).toBe(JUMP_OVER_BONUS);
+      expect(getFighter(next, targetId).judging.jumpOvers).toBe(0);
+    }
+  });
+});
+
+describe('Tag Team', () => {
+  const createTagTeamState = (): GameState => {
+    const state = transitionScene(
+      createInitialState(1, 'vsAI', { ...MATCH_PRESETS.exhibition.config, tagTeam: true }),
+      'Playing'
+    );
+    return withFighters({ ...state, player: { ...getFighter(state, 'player'), x: BEAM_LEFT + 40, balance: 30, stamina: 20 } });
+  };
+
+  it('should swap in the waiting partner and send the tired fighter to the apron', () => {
+    const state = createTagTeamState();
+    const tagged = gameReducer(state, { type: 'TAG', fighter: 'player' });
+    expect(tagged.active.player).toBe(1);
+    expect(getFighter(tagged, 'player').id).toBe('player-2');
+    expect(getFighter(tagged, 'player').name).toBe(state.teams.player[1].name);
+    expect(getFighter(tagged, 'player').x).toBe(getFighter(state, 'player').x);
+    expect(getBench(tagged, 'player').map((fighter) => fighter.id)).toEqual(['player-1']);
+    expect(getBench(tagged, 'player')[0].balance).toBe(30);
+    expect(tagged.tagCooldown.player).toBe(TAG_COOLDOWN);
+    expect(tagged.currentCallout!.text).toBe('TAG!');
+
+    // No tagging straight back
+    expect(gameReducer(tagged, { type: 'TAG', fighter: 'player' })).toBe(tagged);
+  });
+
+  it('should ignore a tag out of reach of your partner', () => {
+    const state = createTagTeamState();
+    const away = withFighters({ ...state, player: { ...getFighter(state, 'player'), x: BEAM_LEFT + 400 } });
+    expect(gameReducer(away, { type: 'TAG', fighter: 'player' })).toBe(away);
+  });
+
+  it('should rest the bench and run down the cooldown every step', () => {
+    let state = gameReducer(createTagTeamState(), { type: 'TAG', fighter: 'player' });
+    state = step(state, { deltaTime: 1 });
+    expect(getBench(state, 'player')[0].stamina).toBeGreaterThan(20);
+    expect(state.tagCooldown.player).toBeCloseTo(TAG_COOLDOWN - 1);
+  });
+
+  it('should run every reducer path on the fighter tagged in', () => {
+    let state = gameReducer(createTagTeamState(), { type: 'TAG', fighter: 'player' });
+    state = gameReducer(state, { type: 'JUMP', fighter: 'player' });
+    expect(getFighter(state, 'player')).toMatchObject({ id: 'player-2', state: 'Jumping' });
+    expect(getBench(state, 'player')[0].state).toBe('Idle');
+
+    state = withFighters({ ...state, player: { ...getFighter(state, 'player'), state: 'Falling' } });
+    state = gameReducer(state, { type: 'FIGHTER_FELL', fighter: 'player' });
+    expect(state.teams.player[1].falls).toBe(1);
+    expect(state.teams.player[0].falls).toBe(0);
+  });
+
+  it('should decide a timeout on the team totals', () => {
+    const state = createTagTeamState();
+    const ended = step({
+      ...state,
+      matchTimer: 0.01,
+      teams: {
+        player: [{ ...state.teams.player[0], score: 200 }, { ...state.teams.player[1], score: 200 }],
+        opponent: [{ ...state.teams.opponent[0], score: 300 }, state.teams.opponent[1]],
+      },
+    });
+    expect(ended.result).toMatchObject({ winner: 'player', reason: 'timeout', playerScore: 400, opponentScore: 300 });
+  });
+});
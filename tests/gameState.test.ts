@@ -13,10 +13,24 @@ import {
   checkPinVictory,
   setCallout,
   clearCallout,
+  getCalloutAge,
   attemptPin,
+  updatePinProgress,
+  checkFallsVictory,
+  endMatch,
 } from '../src/game/logic/gameState';
 import { transitionState, updateBalance, awardScore } from '../src/game/logic/fighter';
-import { MATCH_DURATION, COUNTDOWN_DURATION, BEAM_LEFT, BEAM_RIGHT, GRAPPLE_RANGE } from '../src/game/constants';
+import type { GameState } from '../src/game/types';
+import {
+  MATCH_DURATION,
+  COUNTDOWN_DURATION,
+  BEAM_LEFT,
+  BEAM_RIGHT,
+  PIN_DURATION,
+  MATCH_PRESETS,
+} from '../src/game/constants';
+import { getFighter } from '../src/game/logic/teams';
+import { withFighters } from './helpers';
 
 describe('Initial State', () => {
   it('should create initial state with Title scene', () => {
@@ -28,10 +42,10 @@ describe('Initial State', () => {
 
   it('should create player and opponent', () => {
     const state = createInitialState();
-    expect(state.player.id).toBe('player');
-    expect(state.opponent.id).toBe('opponent');
-    expect(state.player.facing).toBe('right');
-    expect(state.opponent.facing).toBe('left');
+    expect(getFighter(state, 'player')).toMatchObject({ id: 'player-1', side: 'player' });
+    expect(getFighter(state, 'opponent')).toMatchObject({ id: 'opponent-1', side: 'opponent' });
+    expect(getFighter(state, 'player').facing).toBe('right');
+    expect(getFighter(state, 'opponent').facing).toBe('left');
   });
 
   it('should initialize with no grapple', () => {
@@ -78,6 +92,20 @@ describe('Timer Updates', () => {
     expect(newState.matchTimer).toBe(MATCH_DURATION);
   });
 
+  it('should advance the simulation clock when Playing', () => {
+    let state = createInitialState();
+    state = transitionScene(state, 'Playing');
+    const newState = updateMatchTimer(updateMatchTimer(state, 0.5), 0.25);
+    expect(newState.elapsedTime).toBeCloseTo(0.75);
+  });
+
+  it('should freeze the simulation clock when paused', () => {
+    let state = createInitialState();
+    state = { ...transitionScene(state, 'Playing'), isPaused: true };
+    const newState = updateMatchTimer(state, 1);
+    expect(newState.elapsedTime).toBe(0);
+  });
+
   it('should update countdown and transition to Playing', () => {
     let state = createInitialState();
     state = { ...state, scene: 'Countdown' as const, countdownTimer: 0.5 };
@@ -98,12 +126,12 @@ describe('Timer Updates', () => {
 describe('Victory Conditions', () => {
   it('should detect timeout with player winning', () => {
     let state = createInitialState();
-    state = { 
+    state = withFighters({ 
       ...state, 
       matchTimer: 0,
-      player: awardScore(state.player, 500),
-      opponent: awardScore(state.opponent, 300),
-    };
+      player: awardScore(getFighter(state, 'player'), 500),
+      opponent: awardScore(getFighter(state, 'opponent'), 300),
+    });
     
     const result = checkTimeout(state);
     expect(result).not.toBeNull();
@@ -113,12 +141,12 @@ describe('Victory Conditions', () => {
 
   it('should detect timeout with opponent winning', () => {
     let state = createInitialState();
-    state = { 
+    state = withFighters({ 
       ...state, 
       matchTimer: 0,
-      player: awardScore(state.player, 100),
-      opponent: awardScore(state.opponent, 400),
-    };
+      player: awardScore(getFighter(state, 'player'), 100),
+      opponent: awardScore(getFighter(state, 'opponent'), 400),
+    });
     
     const result = checkTimeout(state);
     expect(result!.winner).toBe('opponent');
@@ -126,12 +154,12 @@ describe('Victory Conditions', () => {
 
   it('should detect timeout draw', () => {
     let state = createInitialState();
-    state = { 
+    state = withFighters({ 
       ...state, 
       matchTimer: 0,
-      player: awardScore(state.player, 250),
-      opponent: awardScore(state.opponent, 250),
-    };
+      player: awardScore(getFighter(state, 'player'), 250),
+      opponent: awardScore(getFighter(state, 'opponent'), 250),
+    });
     
     const result = checkTimeout(state);
     expect(result!.winner).toBe('draw');
@@ -181,6 +209,15 @@ describe('Callouts', () => {
     expect(newState.currentCallout!.subtext).toBe('+200');
   });
 
+  it('should stamp callouts with simulation time', () => {
+    let state = { ...createInitialState(), elapsedTime: 12 };
+    state = setCallout(state, 'STOMP!');
+    expect(state.currentCallout!.timestamp).toBe(12);
+    
+    state = { ...state, elapsedTime: 13.5 };
+    expect(getCalloutAge(state)).toBeCloseTo(1.5);
+  });
+
   it('should clear callout', () => {
     let state = createInitialState();
     state = setCallout(state, 'TEST', 'test');
@@ -196,11 +233,11 @@ describe('Pin Attempts', () => {
     
     // Position fighters close together
     const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
-    state = {
+    state = withFighters({
       ...state,
-      player: { ...state.player, x: center - 20, balance: 50 },
-      opponent: transitionState({ ...state.opponent, x: center + 20 }, 'Stunned', 1),
-    };
+      player: { ...getFighter(state, 'player'), x: center - 20, balance: 50 },
+      opponent: transitionState({ ...getFighter(state, 'opponent'), x: center + 20 }, 'Stunned', 1),
+    });
     
     const newState = attemptPin(state, 'player');
     expect(newState.pinningFighter).toBe('player');
@@ -211,11 +248,11 @@ describe('Pin Attempts', () => {
     let state = createInitialState();
     
     const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
-    state = {
+    state = withFighters({
       ...state,
-      player: { ...state.player, x: center - 20, balance: 50 },
-      opponent: { ...state.opponent, x: center + 20 }, // Idle, not stunned
-    };
+      player: { ...getFighter(state, 'player'), x: center - 20, balance: 50 },
+      opponent: { ...getFighter(state, 'opponent'), x: center + 20 }, // Idle, not stunned
+    });
     
     const newState = attemptPin(state, 'player');
     expect(newState.pinningFighter).toBeNull();
@@ -225,14 +262,125 @@ describe('Pin Attempts', () => {
     let state = createInitialState();
     
     const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
-    state = {
+    state = withFighters({
       ...state,
-      player: updateBalance({ ...state.player, x: center - 20 }, -90), // Balance = 10
-      opponent: transitionState({ ...state.opponent, x: center + 20 }, 'Stunned', 1),
-    };
+      player: updateBalance({ ...getFighter(state, 'player'), x: center - 20 }, -90), // Balance = 10
+      opponent: transitionState({ ...getFighter(state, 'opponent'), x: center + 20 }, 'Stunned', 1),
+    });
     
     const newState = attemptPin(state, 'player');
     expect(newState.pinningFighter).toBeNull();
   });
 });
 
+describe('Pin Kick-Outs', () => {
+  const startPin = () => {
+    const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
+    const state = withFighters({
+      ...createInitialState(),
+      player: { ...getFighter(createInitialState(), 'player'), x: center - 20, balance: 80 },
+      opponent: transitionState({ ...getFighter(createInitialState(), 'opponent'), x: center + 20 }, 'Stunned', 1),
+    });
+    return attemptPin(state, 'player');
+  };
+
+  // Press on even steps, release on odd ones
+  const mash = (state: GameState, steps: number) => {
+    for (let i = 0; i < steps && state.pinningFighter; i++) {
+      state = updatePinProgress(state, 0.05, i % 2 === 0);
+    }
+    return state;
+  };
+
+  it('should lock both fighters into the pin', () => {
+    const state = startPin();
+    expect(getFighter(state, 'player').state).toBe('Pinning');
+    expect(getFighter(state, 'opponent').state).toBe('Pinned');
+  });
+
+  it('should fill the count while the pinned fighter does nothing', () => {
+    let state = startPin();
+    state = updatePinProgress(state, PIN_DURATION / 2);
+    expect(state.pinProgress).toBeCloseTo(0.5);
+    expect(state.kickOutProgress).toBe(0);
+  });
+
+  it('should push the count back on each fresh press only', () => {
+    const state = updatePinProgress(startPin(), 1);
+    const pressed = updatePinProgress(state, 0.05, true);
+    const held = updatePinProgress(pressed, 0.05, true);
+    expect(pressed.pinProgress).toBeLessThan(state.pinProgress);
+    expect(pressed.kickOutProgress).toBeGreaterThan(0);
+    expect(held.kickOutProgress).toBe(pressed.kickOutProgress);
+    expect(held.pinningFighter).toBe('player');
+  });
+
+  it('should kick out when mashing with full balance and stamina', () => {
+    const state = mash(startPin(), 200);
+    expect(state.pinningFighter).toBeNull();
+    expect(state.currentCallout!.text).toBe('KICK OUT!');
+    expect(getFighter(state, 'player').state).toBe('Idle');
+    expect(getFighter(state, 'opponent').state).toBe('Idle');
+  });
+
+  it('should kick out weaker when balance and stamina are low', () => {
+    let state = startPin();
+    state = withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), balance: 10, stamina: 10 } });
+    state = mash(state, 200);
+    expect(state.pinProgress).toBe(1);
+    expect(checkPinVictory(state)!.winner).toBe('player');
+  });
+
+  it('should call a near fall for a kick-out at 2.9', () => {
+    let state = startPin();
+    state = { ...state, pinProgress: 2.95 / PIN_DURATION, kickOutProgress: 0.99 };
+    state = updatePinProgress(state, 0.01, true);
+    expect(state.pinningFighter).toBeNull();
+    expect(state.currentCallout!.text).toBe('KICK OUT AT 2.9!');
+  });
+});
+
+describe('Match Rules', () => {
+  it('should keep the rules through a reset unless new ones are given', () => {
+    const tournament = MATCH_PRESETS.tournament.config;
+    const state = createInitialState(1, 'vsAI', tournament);
+    expect(state.matchTimer).toBe(tournament.matchDuration);
+    expect(resetMatch(state).config).toBe(tournament);
+    expect(resetMatch(state, 2, 'vsAI', MATCH_PRESETS.quick.config).matchTimer).toBe(60);
+  });
+
+  it('should never time out with no time limit', () => {
+    let state = transitionScene(createInitialState(1, 'vsAI', MATCH_PRESETS.pinsOnly.config), 'Playing');
+    state = updateMatchTimer(state, MATCH_DURATION + 10);
+    expect(checkTimeout(state)).toBeNull();
+    expect(endMatch(state, 'player', 'pin').result!.matchDuration).toBe(MATCH_DURATION + 10);
+  });
+
+  it('should count the pin to the configured length', () => {
+    const config = { ...MATCH_PRESETS.exhibition.config, pinDuration: 2 };
+    const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
+    const initial = createInitialState(1, 'vsAI', config);
+    let state = attemptPin(withFighters({
+      ...initial,
+      player: { ...getFighter(initial, 'player'), x: center - 20, balance: 80 },
+      opponent: transitionState({ ...getFighter(initial, 'opponent'), x: center + 20 }, 'Stunned', 1),
+    }), 'player');
+    state = updatePinProgress(state, 1);
+    expect(state.pinProgress).toBeCloseTo(0.5);
+    state = updatePinProgress(state, 1);
+    expect(checkPinVictory(state)!.winner).toBe('player');
+  });
+
+  it('should hand the match over once a fighter runs out of falls', () => {
+    const state = createInitialState(1, 'vsAI', MATCH_PRESETS.tournament.config);
+    expect(checkFallsVictory(withFighters({ ...state, player: { ...getFighter(state, 'player'), falls: 2 } }))).toBeNull();
+    const result = checkFallsVictory(withFighters({ ...state, player: { ...getFighter(state, 'player'), falls: 3 } }));
+    expect(result!.winner).toBe('opponent');
+    expect(result!.reason).toBe('falls');
+  });
+
+  it('should ignore falls without a falls limit', () => {
+    const state = createInitialState(1);
+    expect(checkFallsVictory(withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), falls: 10 } }))).toBeNull();
+  });
+});
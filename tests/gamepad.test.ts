@@ -0,0 +1,95 @@
+/**
+ * Beam Brawlers - Gamepad Input Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GamepadPoller, mapGamepad, type GamepadLike, type GamepadSource } from '../src/engine/gamepad';
+import { InputManager } from '../src/engine/input';
+import { KEY_BINDINGS } from '../src/game/constants';
+import { moveId } from './helpers';
+
+const createPad = (pressed: number[] = [], axes: number[] = [0, 0]): GamepadLike => ({
+  connected: true,
+  buttons: Array.from({ length: 17 }, (_, i) => ({ pressed: pressed.includes(i) })),
+  axes,
+});
+
+/**
+ * Mock source whose slot 0 can be swapped between polls
+ */
+const createSource = () => {
+  const pads: Array<GamepadLike | null> = [null];
+  const source: GamepadSource = { getGamepads: () => pads };
+  return { pads, source };
+};
+
+describe('Gamepad Mapping', () => {
+  it('should map d-pad and face buttons', () => {
+    const state = mapGamepad(createPad([14, 5, 2]));
+    expect(state.moveLeft).toBe(true);
+    expect(state.grapple).toBe(true);
+    expect(state[moveId('pancake')]).toBe(true);
+    expect(state.moveRight).toBe(false);
+  });
+
+  it('should map the left stick past the deadzone', () => {
+    expect(mapGamepad(createPad([], [0.9, 0])).moveRight).toBe(true);
+    expect(mapGamepad(createPad([], [0, -0.9])).jump).toBe(true);
+    expect(mapGamepad(createPad([], [0.2, 0.2])).moveRight).toBe(false);
+  });
+});
+
+describe('Gamepad Poller', () => {
+  it('should report presses only on the poll they start', () => {
+    const { pads, source } = createSource();
+    const poller = new GamepadPoller(0, source);
+    pads[0] = createPad([0]);
+
+    expect(poller.poll().justPressed).toContain('jump');
+    expect(poller.poll().justPressed).not.toContain('jump');
+    expect(poller.poll().state.jump).toBe(true);
+  });
+
+  it('should report hot-plug connect and disconnect', () => {
+    const { pads, source } = createSource();
+    const poller = new GamepadPoller(0, source);
+
+    expect(poller.poll().change).toBeNull();
+    pads[0] = createPad();
+    expect(poller.poll().change).toBe('connected');
+    expect(poller.poll().change).toBeNull();
+
+    pads[0] = null;
+    const result = poller.poll();
+    expect(result.change).toBe('disconnected');
+    expect(result.state.jump).toBe(false);
+    expect(poller.isConnected()).toBe(false);
+  });
+});
+
+describe('InputManager with Gamepad', () => {
+  it('should merge gamepad input and presses', () => {
+    const { pads, source } = createSource();
+    const inputManager = new InputManager(KEY_BINDINGS, [new GamepadPoller(0, source)]);
+    inputManager.start();
+    pads[0] = createPad([15, 4]);
+
+    expect(inputManager.beginStep(1000)).toBe('connected');
+    expect(inputManager.getState().moveRight).toBe(true);
+    expect(inputManager.consumePress('pin')).toBe(true);
+
+    // Still held on the next step - not a new press
+    inputManager.beginStep(1016);
+    expect(inputManager.consumePress('pin')).toBe(false);
+    inputManager.stop();
+  });
+
+  it('should not poll while stopped', () => {
+    const { pads, source } = createSource();
+    const inputManager = new InputManager(KEY_BINDINGS, [new GamepadPoller(0, source)]);
+    pads[0] = createPad([0]);
+
+    expect(inputManager.beginStep(1000)).toBeNull();
+    expect(inputManager.getState().jump).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Beam Brawlers - Test Helpers
+ */
+
+import { isMoveType } from '../src/game/logic/moveRegistry';
+import { setFighter } from '../src/game/logic/teams';
+import type { Fighter, GameState, MoveType } from '../src/game/types';
+
+/**
+ * Spread-style state literal with the fighters on the beam given by side,
+ * e.g. withFighters({ ...state, player: { ...getFighter(state, 'player'), x: 480 } })
+ */
+export function withFighters({
+  player,
+  opponent,
+  ...state
+}: GameState & { player?: Fighter; opponent?: Fighter }): GameState {
+  let next: GameState = state;
+  if (player) next = setFighter(next, 'player', player);
+  if (opponent) next = setFighter(next, 'opponent', opponent);
+  return next;
+}
+
+/**
+ * A registered move's id by name, e.g. moveId('pancake') (throws on a typo)
+ */
+export function moveId(id: string): MoveType {
+  if (!isMoveType(id)) {
+    throw new Error(`Unknown move: ${id}`);
+  }
+  return id;
+}
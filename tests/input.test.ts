@@ -0,0 +1,184 @@
+/**
+ * Beam Brawlers - Input Buffer Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { InputManager } from '../src/engine/input';
+import { GamepadPoller, type GamepadLike } from '../src/engine/gamepad';
+import { getDefaultBindings } from '../src/engine/keyBindings';
+import { getPressActions } from '../src/hooks/useGame';
+import { gameReducer } from '../src/game/gameReducer';
+import { createInitialState, transitionScene } from '../src/game/logic/gameState';
+import type { GameState } from '../src/game/types';
+import { getFighter } from '../src/game/logic/teams';
+import { moveId, withFighters } from './helpers';
+
+const KEY_BINDINGS = getDefaultBindings().player;
+
+/**
+ * Press a key at a given time (ms on the performance.now() clock)
+ */
+const pressAt = (time: number, code: string) => {
+  vi.spyOn(performance, 'now').mockReturnValue(time);
+  window.dispatchEvent(new KeyboardEvent('keydown', { code }));
+  window.dispatchEvent(new KeyboardEvent('keyup', { code }));
+};
+
+describe('Input Buffer', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should assign a press to the first step at or after it', () => {
+    const inputManager = new InputManager(KEY_BINDINGS, [], 100);
+    inputManager.start();
+    pressAt(1010, KEY_BINDINGS.grapple);
+
+    // Catch-up steps in one frame: the press belongs to the second step
+    inputManager.beginStep(1000);
+    expect(inputManager.consumePress('grapple')).toBe(false);
+    inputManager.beginStep(1016);
+    expect(inputManager.consumePress('grapple')).toBe(true);
+    expect(inputManager.consumePress('grapple')).toBe(false);
+    inputManager.stop();
+  });
+
+  it('should keep an unused press buffered within the window', () => {
+    const inputManager = new InputManager(KEY_BINDINGS, [], 100);
+    inputManager.start();
+    pressAt(1000, KEY_BINDINGS[moveId('pancake')]);
+
+    // Grapple lands 80 ms later - the early press still fires
+    inputManager.beginStep(1080);
+    expect(inputManager.consumePress(moveId('pancake'))).toBe(true);
+    inputManager.stop();
+  });
+
+  it('should expire presses older than the window', () => {
+    const inputManager = new InputManager(KEY_BINDINGS, [], 100);
+    inputManager.start();
+    pressAt(1000, KEY_BINDINGS[moveId('pancake')]);
+
+    inputManager.beginStep(1150);
+    expect(inputManager.consumePress(moveId('pancake'))).toBe(false);
+    inputManager.stop();
+  });
+
+  it('should respect a changed buffer window', () => {
+    const inputManager = new InputManager(KEY_BINDINGS, [], 100);
+    inputManager.setBufferWindow(0);
+    inputManager.start();
+    pressAt(1000, KEY_BINDINGS.pin);
+
+    inputManager.beginStep(1016);
+    expect(inputManager.consumePress('pin')).toBe(false);
+    inputManager.stop();
+  });
+
+  it('should ignore key repeat while held', () => {
+    const inputManager = new InputManager(KEY_BINDINGS, [], 100);
+    inputManager.start();
+    vi.spyOn(performance, 'now').mockReturnValue(1000);
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: KEY_BINDINGS.jump }));
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: KEY_BINDINGS.jump }));
+
+    inputManager.beginStep(1016);
+    expect(inputManager.consumePress('jump')).toBe(true);
+    expect(inputManager.consumePress('jump')).toBe(false);
+    expect(inputManager.getState().jump).toBe(true);
+    inputManager.stop();
+  });
+
+  it('should hand over a press that expired unused for one step only', () => {
+    const inputManager = new InputManager(KEY_BINDINGS, [], 100);
+    inputManager.start();
+    pressAt(1000, KEY_BINDINGS[moveId('pancake')]);
+
+    inputManager.beginStep(1050);
+    expect(inputManager.consumeExpiredPress(moveId('pancake'))).toBe(false);
+    inputManager.beginStep(1116);
+    expect(inputManager.consumePress(moveId('pancake'))).toBe(false);
+    expect(inputManager.consumeExpiredPress(moveId('pancake'))).toBe(true);
+    expect(inputManager.consumeExpiredPress(moveId('pancake'))).toBe(false);
+
+    pressAt(1120, KEY_BINDINGS[moveId('pancake')]);
+    inputManager.beginStep(1240);
+    inputManager.beginStep(1256);
+    expect(inputManager.consumeExpiredPress(moveId('pancake'))).toBe(false);
+    inputManager.stop();
+  });
+});
+
+describe('Press Actions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Fighters close enough to grapple
+  const createCloseState = (): GameState => {
+    const state = transitionScene(createInitialState(1, 'versus'), 'Playing');
+    return withFighters({ ...state, player: { ...getFighter(state, 'player'), x: 480 }, opponent: { ...getFighter(state, 'opponent'), x: 530 } });
+  };
+
+  const run = (state: GameState, inputManager: InputManager, stepTime: number): GameState => {
+    inputManager.beginStep(stepTime);
+    return getPressActions(inputManager, state, 'player').reduce(gameReducer, state);
+  };
+
+  it('should land a move pressed just before the other fighter starts a grapple', () => {
+    const inputManager = new InputManager(KEY_BINDINGS, [], 100);
+    inputManager.start();
+    pressAt(1000, KEY_BINDINGS[moveId('pancake')]);
+
+    let state = run(createCloseState(), inputManager, 1016);
+    expect(getFighter(state, 'player').state).toBe('Idle');
+
+    state = gameReducer(state, { type: 'ATTEMPT_GRAPPLE', initiator: 'opponent' });
+    state = run(state, inputManager, 1050);
+    expect(state.activeMove).toMatchObject({ attacker: 'player', move: 'pancake' });
+    inputManager.stop();
+  });
+
+  it('should whiff a move press once the buffer runs out with no grapple', () => {
+    const inputManager = new InputManager(KEY_BINDINGS, [], 100);
+    inputManager.start();
+    pressAt(1000, KEY_BINDINGS[moveId('pancake')]);
+
+    let state = run(createCloseState(), inputManager, 1080);
+    expect(getFighter(state, 'player').state).toBe('Idle');
+    state = run(state, inputManager, 1116);
+    expect(getFighter(state, 'player').state).toBe('Recovering');
+    expect(state.currentCallout!.text).toBe('WHIFF!');
+    inputManager.stop();
+  });
+
+  it('should whiff a standing move pressed while crouched', () => {
+    const inputManager = new InputManager(KEY_BINDINGS, [], 100);
+    inputManager.start();
+    pressAt(1000, KEY_BINDINGS[moveId('pancake')]);
+
+    const state = createCloseState();
+    const crouched = withFighters({ ...state, player: { ...getFighter(state, 'player'), state: 'Crouching' as const } });
+    expect(getFighter(run(crouched, inputManager, 1016), 'player').state).toBe('Crouching');
+    expect(getFighter(run(crouched, inputManager, 1116), 'player').state).toBe('Recovering');
+    inputManager.stop();
+  });
+
+  it('should only fire the move for your stance from a shared gamepad button', () => {
+    // X is Pancake standing, Leg Sweep crouched and Diving Elbow in the air
+    const pad: GamepadLike = {
+      connected: true,
+      buttons: Array.from({ length: 17 }, (_, i) => ({ pressed: i === 2 })),
+      axes: [0, 0],
+    };
+    const inputManager = new InputManager(KEY_BINDINGS, [new GamepadPoller(0, { getGamepads: () => [pad] })], 100);
+    inputManager.start();
+
+    const state = createCloseState();
+    const crouched = withFighters({ ...state, player: { ...getFighter(state, 'player'), state: 'Crouching' as const } });
+    expect(run(crouched, inputManager, 1000).activeMove).toMatchObject({ attacker: 'player', move: 'legSweep' });
+    expect(inputManager.consumePress(moveId('pancake'))).toBe(false);
+    expect(inputManager.consumePress(moveId('divingElbow'))).toBe(false);
+    inputManager.stop();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Beam Brawlers - Judges' Panel Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Fighter } from '../src/game/types';
+import {
+  averageScorecards,
+  getJudgingCategories,
+  getScorecard,
+  getScorecards,
+  recordJump,
+  recordJumpOver,
+  recordMove,
+  updateJudging,
+} from '../src/game/logic/judging';
+import { createFighter, startFalling } from '../src/game/logic/fighter';
+import { createInitialState } from '../src/game/logic/gameState';
+import { getFighter } from '../src/game/logic/teams';
+import { moveId } from './helpers';
+import { BEAM_LEFT, BEAM_RIGHT, DEFAULT_MATCH_CONFIG, JUDGE_PANEL, JUDGING } from '../src/game/constants';
+
+const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
+
+describe("Judges' Panel", () => {
+  it('should mark an empty routine a perfect 10 for execution and the start value for the rest', () => {
+    const card = getScorecard(createFighter('player', center, 'right', 'Peaches'));
+    expect(card.categories).toEqual({ execution: 10, difficulty: JUDGING.startValue, artistry: JUDGING.startValue });
+    expect(card.marks).toHaveLength(JUDGE_PANEL.length);
+    expect(card.total).toBeCloseTo(card.marks.reduce((sum, mark) => sum + mark, 0));
+  });
+
+  it('should take execution deductions for time off balance, wobbles and falls', () => {
+    const steady = updateJudging(createFighter('player', center, 'right', 'Peaches'), 2);
+    expect(getJudgingCategories(steady).execution).toBe(10);
+
+    const wobbly = updateJudging({ ...createFighter('player', center, 'right', 'Peaches'), balance: 10 }, 2);
+    expect(wobbly.judging.timeWobbling).toBe(2);
+    expect(getJudgingCategories(wobbly).execution).toBeCloseTo(10 - 2 * JUDGING.unbalancedDeduction - 2 * JUDGING.wobbleDeduction);
+
+    const fallen = { ...steady, falls: 2 };
+    expect(getJudgingCategories(fallen).execution).toBe(10 - 2 * JUDGING.fallDeduction);
+  });
+
+  it('should not judge a fighter who is falling off', () => {
+    const falling = startFalling(createFighter('player', center, 'right', 'Peaches'), 1);
+    expect(updateJudging(falling, 1).judging.timeJudged).toBe(0);
+  });
+
+  it('should reward move variety and edge work with difficulty', () => {
+    let fighter = createFighter('player', BEAM_LEFT + 20, 'right', 'Peaches');
+    fighter = updateJudging(fighter, 10);
+    expect(fighter.judging.timeAtEdge).toBe(10);
+
+    fighter = recordMove(recordMove(recordMove(fighter, moveId('pancake')), moveId('pancake')), moveId('legSweep'));
+    expect(fighter.judging.movesLanded).toEqual(['pancake', 'legSweep']);
+    expect(getJudgingCategories(fighter).difficulty).toBeCloseTo(JUDGING.startValue + 2 * JUDGING.moveValue + 10 * JUDGING.edgeValue);
+  });
+
+  it('should reward jumps, jump-overs and the best combo with artistry', () => {
+    let fighter = recordJumpOver(recordJump(createFighter('player', center, 'right', 'Peaches')));
+    fighter = recordMove({ ...fighter, comboCount: 3 }, moveId('pancake'));
+    fighter = recordMove({ ...fighter, comboCount: 1 }, moveId('pancake'));
+    expect(fighter.judging.bestCombo).toBe(3);
+    expect(getJudgingCategories(fighter).artistry).toBeCloseTo(
+      JUDGING.startValue + JUDGING.jumpValue + JUDGING.jumpOverValue + 3 * JUDGING.comboValue
+    );
+  });
+
+  it('should have each judge lean on a different category', () => {
+    const card = getScorecard(recordMove(createFighter('player', center, 'right', 'Peaches'), moveId('pancake')));
+    const [executionJudge, difficultyJudge] = card.marks;
+    expect(executionJudge).toBeGreaterThan(difficultyJudge);
+  });
+
+  it('should average scorecards across rounds', () => {
+    const fresh = getScorecard(createFighter('player', center, 'right', 'Peaches'));
+    const wobbly = getScorecard(updateJudging({ ...createFighter('player', center, 'right', 'Peaches'), balance: 10 }, 4));
+    const average = averageScorecards([fresh, wobbly]);
+    expect(average.categories.execution).toBeCloseTo((fresh.categories.execution + wobbly.categories.execution) / 2);
+    expect(() => averageScorecards([])).toThrow();
+  });
+
+  it('should weight scorecards when asked', () => {
+    const fresh = getScorecard(createFighter('player', center, 'right', 'Peaches'));
+    const wobbly = getScorecard(updateJudging({ ...createFighter('player', center, 'right', 'Peaches'), balance: 10 }, 4));
+    const average = averageScorecards([fresh, wobbly], [3, 1]);
+    expect(average.categories.execution).toBeCloseTo((3 * fresh.categories.execution + wobbly.categories.execution) / 4, 1);
+    expect(() => averageScorecards([fresh, wobbly], [1])).toThrow();
+  });
+
+  it("should mark a tag team on the time each partner was judged, leaving out one who never came in", () => {
+    const state = createInitialState(1, 'vsAI', { ...DEFAULT_MATCH_CONFIG, tagTeam: true });
+    const wobble = (fighter: Fighter, seconds: number) => updateJudging({ ...fighter, x: center, balance: 10 }, seconds);
+
+    // The same routine on both sides: the player tagged halfway through, the opponent never did
+    const [player1, player2] = state.teams.player;
+    const [opponent1, opponent2] = state.teams.opponent;
+    const tied = {
+      ...state,
+      teams: {
+        player: [wobble(player1, 2), wobble(player2, 2)],
+        opponent: [wobble(opponent1, 2), opponent2],
+      },
+    };
+
+    const { player, opponent } = getScorecards(tied);
+    expect(opponent).toEqual(getScorecard(getFighter(tied, 'opponent')));
+    expect(player.total).toBe(opponent.total);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Beam Brawlers - Key Binding Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getDefaultBindings,
+  loadBindings,
+  saveBindings,
+  rebind,
+  findConflicts,
+  formatKeyCode,
+} from '../src/engine/keyBindings';
+import { InputManager } from '../src/engine/input';
+import { KEY_BINDINGS, KEY_BINDINGS_KEY } from '../src/game/constants';
+
+describe('Key Bindings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should load defaults when nothing is saved', () => {
+    expect(loadBindings()).toEqual(getDefaultBindings());
+  });
+
+  it('should save and load bindings', () => {
+    const bindings = rebind(getDefaultBindings(), 'player', 'moveLeft', 'KeyQ');
+    saveBindings(bindings);
+    expect(loadBindings().player.moveLeft).toBe('KeyQ');
+  });
+
+  it('should fall back to defaults for corrupt or partial data', () => {
+    localStorage.setItem(KEY_BINDINGS_KEY, '{not json');
+    expect(loadBindings()).toEqual(getDefaultBindings());
+
+    localStorage.setItem(KEY_BINDINGS_KEY, JSON.stringify({ player: { jump: 'KeyZ', pin: 42 } }));
+    const bindings = loadBindings();
+    expect(bindings.player.jump).toBe('KeyZ');
+    expect(bindings.player.pin).toBe(KEY_BINDINGS.pin);
+  });
+
+  it('should detect conflicts within and across players', () => {
+    expect(findConflicts(getDefaultBindings())).toEqual([]);
+
+    let bindings = rebind(getDefaultBindings(), 'player', 'jump', 'KeyA');
+    expect(findConflicts(bindings)[0].code).toBe('KeyA');
+
+    bindings = rebind(getDefaultBindings(), 'opponent', 'grapple', 'Space');
+    expect(findConflicts(bindings)[0].actions).toEqual([
+      { fighter: 'player', input: 'grapple' },
+      { fighter: 'opponent', input: 'grapple' },
+    ]);
+  });
+
+  it('should format key codes for display', () => {
+    expect(formatKeyCode('KeyJ')).toBe('J');
+    expect(formatKeyCode('ArrowLeft')).toBe('←');
+    expect(formatKeyCode('Numpad0')).toBe('NUM 0');
+    expect(formatKeyCode('ShiftLeft')).toBe('SHIFT LEFT');
+  });
+});
+
+describe('InputManager Rebinding', () => {
+  it('should use new bindings at runtime', () => {
+    const inputManager = new InputManager();
+    inputManager.start();
+    inputManager.setBindings({ ...KEY_BINDINGS, moveLeft: 'KeyQ' });
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyA' }));
+    expect(inputManager.getState().moveLeft).toBe(false);
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { code: 'KeyQ' }));
+    expect(inputManager.getState().moveLeft).toBe(true);
+    inputManager.stop();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Beam Brawlers - Match Rules Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  describeMatchConfig,
+  getMatchPreset,
+  getMatchPresets,
+  loadMatchPreset,
+  loadMatchRounds,
+  loadMatchTagTeam,
+  saveMatchPreset,
+  saveMatchRounds,
+  saveMatchTagTeam,
+} from '../src/game/matchRules';
+import { DEFAULT_MATCH_CONFIG, DEFAULT_MATCH_PRESET, MATCH_PRESET_KEY, MATCH_ROUNDS_KEY } from '../src/game/constants';
+
+describe('Match Presets', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should play exhibition matches under the default rules', () => {
+    expect(getMatchPreset('exhibition').config).toEqual(DEFAULT_MATCH_CONFIG);
+    expect(new Set(getMatchPresets().map((preset) => preset.name)).size).toBe(getMatchPresets().length);
+  });
+
+  it('should describe each rule that differs between presets', () => {
+    expect(describeMatchConfig(getMatchPreset('tournament').config)).toContain('3 falls and you lose');
+    expect(describeMatchConfig(getMatchPreset('pinsOnly').config)).toEqual(
+      expect.arrayContaining(['No time limit', 'Pins only - no tap-outs'])
+    );
+  });
+
+  it('should save and load the picked preset', () => {
+    expect(loadMatchPreset()).toBe(DEFAULT_MATCH_PRESET);
+    saveMatchPreset('tournament');
+    expect(loadMatchPreset()).toBe('tournament');
+  });
+
+  it('should fall back to the default for an unknown saved preset', () => {
+    localStorage.setItem(MATCH_PRESET_KEY, 'cage-match');
+    expect(loadMatchPreset()).toBe(DEFAULT_MATCH_PRESET);
+  });
+
+  it('should save and load the picked round count, rejecting unsupported counts', () => {
+    expect(loadMatchRounds()).toBe(1);
+    saveMatchRounds(5);
+    expect(loadMatchRounds()).toBe(5);
+    localStorage.setItem(MATCH_ROUNDS_KEY, '4');
+    expect(loadMatchRounds()).toBe(1);
+  });
+
+  it('should save and load the picked format, and describe tag team rules', () => {
+    expect(loadMatchTagTeam()).toBe(false);
+    saveMatchTagTeam(true);
+    expect(loadMatchTagTeam()).toBe(true);
+    expect(describeMatchConfig({ ...DEFAULT_MATCH_CONFIG, tagTeam: true })).toContain('Tag team - two fighters a side');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Beam Brawlers - Move Registry Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseMoveDefinitions,
+  getMoveDefinitions,
+  getMoveDefinition,
+  getMoveIds,
+  getGamepadSiblings,
+} from '../src/game/logic/moveRegistry';
+import { createInputState } from '../src/game/logic/inputState';
+import { getDefaultBindings } from '../src/engine/keyBindings';
+import type { MoveType } from '../src/game/types';
+import { moveId } from './helpers';
+
+const createRawMove = (overrides: Record<string, unknown> = {}) => ({
+  id: 'dropkick',
+  name: 'Dropkick',
+  description: 'Both feet to the chest.',
+  requirements: { minBalance: 20, staminaCost: 20 },
+  timing: { duration: 0.6, counterWindow: 0.2, stunDuration: 0.8 },
+  points: 120,
+  recovery: { success: 0.2, countered: 0.3 },
+  input: { key: 'KeyU', keyP2: 'Numpad4', gamepadButton: 1 },
+  sound: 'pancake',
+  crowd: 'crowd_cheer',
+  ai: { priority: 4 },
+  ...overrides,
+});
+
+describe('Move Registry', () => {
+  it('should load the bundled moves', () => {
+    expect(getMoveIds()).toEqual([
+      'pancake',
+      'scissors',
+      'guillotine',
+      'legSweep',
+      'anklePick',
+      'divingElbow',
+      'flyingCrossbody',
+      'moonsault',
+    ]);
+    expect(getMoveIds('low')).toEqual(['legSweep', 'anklePick']);
+    expect(getMoveIds('aerial')).toEqual(['divingElbow', 'flyingCrossbody', 'moonsault']);
+    expect(getMoveDefinition(moveId('moonsault')).aerial!.requiresEdge).toBe(true);
+    expect(getMoveDefinition(moveId('scissors')).timing.balanceDrainRate).toBe(15);
+    expect(getMoveDefinition(moveId('scissors')).hold).toEqual({ escapePerPress: 0.15, escapeDecay: 0.2 });
+    expect(getMoveDefinition(moveId('pancake')).hold).toBeUndefined();
+    expect(getMoveDefinition(moveId('pancake')).timing.balanceDrainRate).toBe(0);
+  });
+
+  it('should throw for unknown moves', () => {
+    expect(() => getMoveDefinition('suplex' as MoveType)).toThrow('Unknown move type: suplex');
+  });
+
+  it('should give every move an input and a default key', () => {
+    const input = createInputState();
+    const bindings = getDefaultBindings();
+    for (const move of getMoveDefinitions()) {
+      expect(input[move.id]).toBe(false);
+      expect(bindings.player[move.id]).toBe(move.input.key);
+      expect(bindings.opponent[move.id]).toBe(move.input.keyP2);
+    }
+  });
+
+  it('should accept a new move and fill optional fields', () => {
+    const [move] = parseMoveDefinitions([createRawMove()]);
+    expect(move.id).toBe('dropkick');
+    expect(move.fallPointsRatio).toBe(0);
+    expect(move.counterMinStamina).toBe(0);
+    expect(move.stance).toBe('standing');
+  });
+
+  it('should accept an aerial without a duration or counter window', () => {
+    const [move] = parseMoveDefinitions([
+      createRawMove({
+        stance: 'aerial',
+        timing: { stunDuration: 0.8 },
+        aerial: { hitRange: 40, whiffRecovery: 0.5 },
+      }),
+    ]);
+    expect(move.timing.duration).toBe(0);
+    expect(move.timing.counterWindow).toBe(0);
+    expect(move.aerial).toMatchObject({ hitRange: 40, lunge: 0, requiresEdge: false, whiffBalanceCost: 0 });
+  });
+
+  it('should reject invalid definitions', () => {
+    expect(() => parseMoveDefinitions({})).toThrow('non-empty array');
+    expect(() => parseMoveDefinitions([createRawMove({ id: undefined })])).toThrow('missing its id');
+    expect(() => parseMoveDefinitions([createRawMove({ id: 'jump' })])).toThrow('clashes');
+    expect(() => parseMoveDefinitions([createRawMove({ points: 'lots' })])).toThrow('points must be a number');
+    expect(() => parseMoveDefinitions([
+      createRawMove({ timing: { duration: 0.5, counterWindow: 0.8, stunDuration: 1 } }),
+    ])).toThrow('counterWindow');
+    expect(() => parseMoveDefinitions([createRawMove({ stance: 'flying' })])).toThrow('stance');
+    expect(() => parseMoveDefinitions([createRawMove({ stance: 'aerial' })])).toThrow('aerial must be an object');
+    expect(() => parseMoveDefinitions([createRawMove({ hold: { escapePerPress: 0, escapeDecay: 0.2 } })])).toThrow('escapePerPress');
+    expect(() => parseMoveDefinitions([createRawMove({ submission: { rate: 1 } })])).toThrow('submission needs a hold');
+  });
+
+  it('should reject duplicate ids and keys', () => {
+    expect(() => parseMoveDefinitions([createRawMove(), createRawMove()])).toThrow('defined twice');
+    expect(() => parseMoveDefinitions([
+      createRawMove(),
+      createRawMove({ id: 'lariat', input: { key: 'KeyU', keyP2: 'Numpad6', gamepadButton: 1 } }),
+    ])).toThrow('already bound to another move');
+  });
+
+  it('should reject sounds the audio manager does not have', () => {
+    expect(() => parseMoveDefinitions([createRawMove({ sound: 'kaboom' })])).toThrow('sound must be a known sound effect');
+    expect(() => parseMoveDefinitions([createRawMove({ crowd: '' })])).toThrow('crowd must be a known sound effect');
+    expect(parseMoveDefinitions([createRawMove({ crowd: 'crowd_gasp' })])[0].crowd).toBe('crowd_gasp');
+  });
+
+  it('should reject keys and gamepad buttons the controls already use', () => {
+    expect(() => parseMoveDefinitions([
+      createRawMove({ input: { key: 'KeyW', keyP2: 'Numpad4', gamepadButton: 1 } }),
+    ])).toThrow('key KeyW is already bound to the "jump" control');
+    expect(() => parseMoveDefinitions([
+      createRawMove({ input: { key: 'KeyU', keyP2: 'NumpadEnter', gamepadButton: 1 } }),
+    ])).toThrow('"defend" control');
+    expect(() => parseMoveDefinitions([
+      createRawMove({ input: { key: 'KeyU', keyP2: 'Numpad4', gamepadButton: 5 } }),
+    ])).toThrow('gamepad button 5 is already the "grapple" control');
+  });
+
+  it('should let a gamepad button carry one move per stance', () => {
+    expect(getGamepadSiblings(moveId('pancake'))).toEqual(['legSweep', 'divingElbow']);
+    expect(getGamepadSiblings(moveId('guillotine'))).toEqual(['moonsault']);
+
+    const sweep = createRawMove({ id: 'sweep', stance: 'low', input: { key: 'KeyY', keyP2: 'Numpad6', gamepadButton: 1 } });
+    expect(parseMoveDefinitions([createRawMove(), sweep])).toHaveLength(2);
+    expect(() => parseMoveDefinitions([
+      createRawMove(),
+      createRawMove({ id: 'lariat', input: { key: 'KeyY', keyP2: 'Numpad6', gamepadButton: 1 } }),
+    ])).toThrow('gamepad button 1 is already "dropkick" in the standing stance');
+  });
+});
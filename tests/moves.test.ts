@@ -9,9 +9,28 @@ import {
   getMoveTiming,
   getMoveRequirements,
   getMoveName,
+  isInComboWindow,
+  getEscapeGain,
+  getHoldProgress,
+  getHoldEscapePoints,
+  checkAerialHit,
+  getAerialLunge,
+  canWhiff,
+  getWhiffPenalty,
+  isCriticallyWeak,
+  getSubmissionGain,
 } from '../src/game/logic/moves';
-import { createFighter, transitionState, updateBalance, updateStamina } from '../src/game/logic/fighter';
-import { MOVE_REQUIREMENTS, SCORING, BEAM_LEFT, BEAM_RIGHT, GRAPPLE_RANGE } from '../src/game/constants';
+import {
+  createFighter,
+  transitionState,
+  updateBalance,
+  updateStamina,
+  updateCrouch,
+  startJump,
+} from '../src/game/logic/fighter';
+import { SCORING, BEAM_LEFT, BEAM_RIGHT } from '../src/game/constants';
+import { getMoveDefinition } from '../src/game/logic/moveRegistry';
+import { moveId } from './helpers';
 
 describe('Move Validation', () => {
   const createGrapplingFighters = () => {
@@ -25,14 +44,14 @@ describe('Move Validation', () => {
 
   it('should allow Pancake with sufficient balance and stamina', () => {
     const { player, opponent } = createGrapplingFighters();
-    const result = validateMove(player, opponent, 'pancake');
+    const result = validateMove(player, opponent, moveId('pancake'));
     expect(result.canExecute).toBe(true);
   });
 
   it('should reject Pancake with insufficient balance', () => {
     let { player, opponent } = createGrapplingFighters();
     player = updateBalance(player, -80); // Balance = 20, need 30
-    const result = validateMove(player, opponent, 'pancake');
+    const result = validateMove(player, opponent, moveId('pancake'));
     expect(result.canExecute).toBe(false);
     expect(result.reason).toContain('balance');
   });
@@ -40,7 +59,7 @@ describe('Move Validation', () => {
   it('should reject Pancake with insufficient stamina', () => {
     let { player, opponent } = createGrapplingFighters();
     player = updateStamina(player, -90); // Stamina = 10, need 25
-    const result = validateMove(player, opponent, 'pancake');
+    const result = validateMove(player, opponent, moveId('pancake'));
     expect(result.canExecute).toBe(false);
     expect(result.reason).toContain('stamina');
   });
@@ -49,44 +68,53 @@ describe('Move Validation', () => {
     const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
     const player = createFighter('player', center - 30, 'right', 'TestPlayer'); // Idle
     const opponent = createFighter('opponent', center + 30, 'left', 'TestAI');
-    const result = validateMove(player, opponent, 'pancake');
+    const result = validateMove(player, opponent, moveId('pancake'));
     expect(result.canExecute).toBe(false);
     expect(result.reason).toContain('grappling');
   });
 
+  it('should only allow low-stance moves from a crouch', () => {
+    const { player, opponent } = createGrapplingFighters();
+    expect(validateMove(player, opponent, moveId('legSweep')).reason).toContain('crouching');
+
+    const crouched = updateCrouch(transitionState(player, 'Idle'), true);
+    expect(validateMove(crouched, opponent, moveId('legSweep')).canExecute).toBe(true);
+    expect(validateMove(crouched, opponent, moveId('pancake')).reason).toContain('grappling');
+  });
+
   it('should reject move when out of range', () => {
     const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
     let player = createFighter('player', center - 100, 'right', 'TestPlayer');
     let opponent = createFighter('opponent', center + 100, 'left', 'TestAI');
     player = transitionState(player, 'GrappleEngaged');
-    const result = validateMove(player, opponent, 'pancake');
+    const result = validateMove(player, opponent, moveId('pancake'));
     expect(result.canExecute).toBe(false);
     expect(result.reason).toContain('range');
   });
 
   it('should allow Scissors with sufficient balance (40)', () => {
     const { player, opponent } = createGrapplingFighters();
-    const result = validateMove(player, opponent, 'scissors');
+    const result = validateMove(player, opponent, moveId('scissors'));
     expect(result.canExecute).toBe(true);
   });
 
   it('should reject Scissors with insufficient balance', () => {
     let { player, opponent } = createGrapplingFighters();
     player = updateBalance(player, -70); // Balance = 30, need 40
-    const result = validateMove(player, opponent, 'scissors');
+    const result = validateMove(player, opponent, moveId('scissors'));
     expect(result.canExecute).toBe(false);
   });
 
   it('should allow Guillotine with sufficient balance (50)', () => {
     const { player, opponent } = createGrapplingFighters();
-    const result = validateMove(player, opponent, 'guillotine');
+    const result = validateMove(player, opponent, moveId('guillotine'));
     expect(result.canExecute).toBe(true);
   });
 
   it('should reject Guillotine with insufficient balance', () => {
     let { player, opponent } = createGrapplingFighters();
     player = updateBalance(player, -60); // Balance = 40, need 50
-    const result = validateMove(player, opponent, 'guillotine');
+    const result = validateMove(player, opponent, moveId('guillotine'));
     expect(result.canExecute).toBe(false);
   });
 });
@@ -97,8 +125,8 @@ describe('Move Scoring', () => {
     let player = createFighter('player', center, 'right', 'TestPlayer');
     player = updateBalance(player, -30); // Balance = 70 (below bonus threshold)
     
-    const result = calculateMoveScore('pancake', player, Date.now());
-    expect(result.points).toBe(SCORING.moves.pancake); // 200
+    const result = calculateMoveScore(moveId('pancake'), player, 10);
+    expect(result.points).toBe(getMoveDefinition(moveId('pancake')).points); // 200
     expect(result.bonuses.balance).toBe(false);
   });
 
@@ -106,9 +134,9 @@ describe('Move Scoring', () => {
     const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
     const player = createFighter('player', center, 'right', 'TestPlayer'); // Balance = 100
     
-    const result = calculateMoveScore('pancake', player, Date.now());
+    const result = calculateMoveScore(moveId('pancake'), player, 10);
     expect(result.bonuses.balance).toBe(true);
-    expect(result.points).toBeGreaterThan(SCORING.moves.pancake);
+    expect(result.points).toBeGreaterThan(getMoveDefinition(moveId('pancake')).points);
   });
 
   it('should calculate correct points for Scissors', () => {
@@ -116,8 +144,8 @@ describe('Move Scoring', () => {
     let player = createFighter('player', center, 'right', 'TestPlayer');
     player = updateBalance(player, -30);
     
-    const result = calculateMoveScore('scissors', player, Date.now());
-    expect(result.points).toBe(SCORING.moves.scissors); // 150
+    const result = calculateMoveScore(moveId('scissors'), player, 10);
+    expect(result.points).toBe(getMoveDefinition(moveId('scissors')).points); // 150
   });
 
   it('should calculate correct points for Guillotine', () => {
@@ -125,41 +153,146 @@ describe('Move Scoring', () => {
     let player = createFighter('player', center, 'right', 'TestPlayer');
     player = updateBalance(player, -30);
     
-    const result = calculateMoveScore('guillotine', player, Date.now());
-    expect(result.points).toBe(SCORING.moves.guillotine); // 250
+    const result = calculateMoveScore(moveId('guillotine'), player, 10);
+    expect(result.points).toBe(getMoveDefinition(moveId('guillotine')).points); // 250
+  });
+});
+
+describe('Combo Window', () => {
+  it('should chain moves within the combo window (seconds)', () => {
+    const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
+    let player = createFighter('player', center, 'right', 'TestPlayer');
+    player = updateBalance({ ...player, lastMoveTime: 10, comboCount: 2 }, -30);
+    
+    expect(isInComboWindow(player, 10 + SCORING.bonuses.comboWindow - 0.5)).toBe(true);
+    const result = calculateMoveScore(moveId('pancake'), player, 12);
+    expect(result.bonuses.combo).toBeCloseTo(0.2);
+    expect(result.points).toBe(Math.round(getMoveDefinition(moveId('pancake')).points * 1.2));
+  });
+
+  it('should not chain moves after the combo window', () => {
+    const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
+    const player = { ...createFighter('player', center, 'right', 'TestPlayer'), lastMoveTime: 10, comboCount: 2 };
+    expect(isInComboWindow(player, 10 + SCORING.bonuses.comboWindow + 0.1)).toBe(false);
+  });
+
+  it('should not chain without a previous move', () => {
+    const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
+    const player = createFighter('player', center, 'right', 'TestPlayer');
+    expect(isInComboWindow(player, 1)).toBe(false);
   });
 });
 
 describe('Move Configuration', () => {
   it('should return correct timing for Pancake', () => {
-    const timing = getMoveTiming('pancake');
+    const timing = getMoveTiming(moveId('pancake'));
     expect(timing.duration).toBe(0.8);
     expect(timing.counterWindow).toBe(0.3);
     expect(timing.stunDuration).toBe(1.0);
   });
 
   it('should return correct timing for Scissors', () => {
-    const timing = getMoveTiming('scissors');
-    expect(timing.duration).toBe(1.2);
-    expect(timing.balanceDrainRate).toBe(40);
+    const timing = getMoveTiming(moveId('scissors'));
+    expect(timing.duration).toBe(3.0);
+    expect(timing.balanceDrainRate).toBe(15); // per second while held
+  });
+
+  it('should scale hold escapes with stamina and hold time', () => {
+    expect(getEscapeGain(moveId('scissors'), 100)).toBeCloseTo(0.15);
+    expect(getEscapeGain(moveId('scissors'), 50)).toBeCloseTo(0.075);
+    expect(getEscapeGain(moveId('pancake'), 100)).toBe(0);
+    expect(getHoldProgress(moveId('scissors'), 0.3)).toBe(0);
+    expect(getHoldProgress(moveId('scissors'), 1.65)).toBeCloseTo(0.5);
+    expect(getHoldEscapePoints(moveId('scissors'), 0.5)).toBe(75);
   });
 
   it('should return correct timing for Guillotine', () => {
-    const timing = getMoveTiming('guillotine');
+    const timing = getMoveTiming(moveId('guillotine'));
     expect(timing.duration).toBe(1.5);
     expect(timing.stunDuration).toBe(1.2);
   });
 
   it('should return correct requirements for each move', () => {
-    expect(getMoveRequirements('pancake').minBalance).toBe(30);
-    expect(getMoveRequirements('scissors').minBalance).toBe(40);
-    expect(getMoveRequirements('guillotine').minBalance).toBe(50);
+    expect(getMoveRequirements(moveId('pancake')).minBalance).toBe(30);
+    expect(getMoveRequirements(moveId('scissors')).minBalance).toBe(40);
+    expect(getMoveRequirements(moveId('guillotine')).minBalance).toBe(50);
   });
 
   it('should return correct move names', () => {
-    expect(getMoveName('pancake')).toBe('Pancake');
-    expect(getMoveName('scissors')).toBe('Scissors');
-    expect(getMoveName('guillotine')).toBe('Guillotine');
+    expect(getMoveName(moveId('pancake'))).toBe('Pancake');
+    expect(getMoveName(moveId('scissors'))).toBe('Scissors');
+    expect(getMoveName(moveId('guillotine'))).toBe('Guillotine');
   });
 });
 
+
+describe('Aerial Moves', () => {
+  const center = (BEAM_LEFT + BEAM_RIGHT) / 2;
+
+  it('should only allow aerials mid-jump, once per jump', () => {
+    const grounded = createFighter('player', center - 100, 'right', 'TestPlayer');
+    const opponent = createFighter('opponent', center + 100, 'left', 'TestAI');
+    expect(validateMove(grounded, opponent, moveId('divingElbow')).reason).toContain('air');
+
+    const jumping = startJump(grounded);
+    expect(validateMove(jumping, opponent, moveId('divingElbow')).canExecute).toBe(true); // range is checked on landing
+    expect(validateMove({ ...jumping, currentMove: moveId('divingElbow') }, opponent, moveId('flyingCrossbody')).canExecute).toBe(false);
+  });
+
+  it('should only allow the moonsault from the edge zone', () => {
+    const opponent = createFighter('opponent', center, 'left', 'TestAI');
+    const middle = startJump(createFighter('player', center - 100, 'right', 'TestPlayer'));
+    const edge = startJump(createFighter('player', BEAM_LEFT + 40, 'right', 'TestPlayer'));
+    expect(validateMove(middle, opponent, moveId('moonsault')).reason).toContain('edge');
+    expect(validateMove(edge, opponent, moveId('moonsault')).canExecute).toBe(true);
+  });
+
+  it('should hit only a grounded opponent inside the hit range', () => {
+    const attacker = createFighter('player', center, 'right', 'TestPlayer');
+    const close = createFighter('opponent', center + 30, 'left', 'TestAI');
+    const far = createFighter('opponent', center + 100, 'left', 'TestAI');
+    expect(checkAerialHit(moveId('divingElbow'), attacker, close)).toBe(true);
+    expect(checkAerialHit(moveId('divingElbow'), attacker, far)).toBe(false);
+    expect(checkAerialHit(moveId('divingElbow'), attacker, startJump(close))).toBe(false);
+  });
+
+  it('should only lunge during an aerial that has one', () => {
+    const jumping = startJump(createFighter('player', center, 'right', 'TestPlayer'));
+    expect(getAerialLunge(jumping)).toBe(0);
+    expect(getAerialLunge({ ...jumping, currentMove: moveId('flyingCrossbody') })).toBe(250);
+    expect(getAerialLunge({ ...jumping, currentMove: moveId('divingElbow') })).toBe(0);
+  });
+});
+
+describe('Whiffs', () => {
+  it('should charge the configured whiff stamina cost', () => {
+    expect(getWhiffPenalty()).toBe(SCORING.penalties.whiffStaminaCost);
+  });
+
+  it('should only let free, grounded fighters whiff', () => {
+    const fighter = createFighter('player', 400, 'right', 'TestPlayer');
+    expect(canWhiff(fighter)).toBe(true);
+    expect(canWhiff(updateCrouch(fighter, true))).toBe(true);
+    expect(canWhiff(transitionState(fighter, 'Stunned', 1))).toBe(false);
+    expect(canWhiff(startJump(fighter))).toBe(false);
+  });
+});
+
+describe('Submissions', () => {
+  const createWornOutFighter = () =>
+    updateStamina(updateBalance(createFighter('opponent', 400, 'left', 'TestAI'), -80), -80);
+
+  it('should only count a fighter low on both balance and stamina as critically weak', () => {
+    const fighter = createFighter('opponent', 400, 'left', 'TestAI');
+    expect(isCriticallyWeak(createWornOutFighter())).toBe(true);
+    expect(isCriticallyWeak(updateBalance(fighter, -80))).toBe(false);
+    expect(isCriticallyWeak(updateStamina(fighter, -80))).toBe(false);
+  });
+
+  it('should fill the submission meter only for submission holds on a weak defender', () => {
+    const rate = getMoveDefinition(moveId('guillotine')).submission!.rate;
+    expect(getSubmissionGain(moveId('guillotine'), createWornOutFighter(), 0.5)).toBeCloseTo(rate * 0.5);
+    expect(getSubmissionGain(moveId('guillotine'), createFighter('opponent', 400, 'left', 'TestAI'), 0.5)).toBe(0);
+    expect(getSubmissionGain(moveId('pancake'), createWornOutFighter(), 0.5)).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Beam Brawlers - Seeded Random Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createRng, nextRandom, nextInt, randomAt, deriveSeed } from '../src/game/logic/random';
+import { createInitialState, resetMatch } from '../src/game/logic/gameState';
+import { AIController } from '../src/game/ai';
+import { getFighter } from '../src/game/logic/teams';
+
+describe('Seeded RNG', () => {
+  it('should produce the same sequence for the same seed', () => {
+    let a = createRng(1234);
+    let b = createRng(1234);
+    for (let i = 0; i < 20; i++) {
+      const rollA = nextRandom(a);
+      const rollB = nextRandom(b);
+      expect(rollA.value).toBe(rollB.value);
+      a = rollA.rng;
+      b = rollB.rng;
+    }
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(nextRandom(createRng(1)).value).not.toBe(nextRandom(createRng(2)).value);
+  });
+
+  it('should advance the cursor on each draw', () => {
+    const roll = nextRandom(createRng(42));
+    expect(roll.rng.cursor).toBe(1);
+    expect(roll.rng.seed).toBe(42);
+    expect(roll.value).toBe(randomAt(42, 0));
+  });
+
+  it('should stay within [0, 1)', () => {
+    let rng = createRng(99);
+    for (let i = 0; i < 1000; i++) {
+      const roll = nextRandom(rng);
+      expect(roll.value).toBeGreaterThanOrEqual(0);
+      expect(roll.value).toBeLessThan(1);
+      rng = roll.rng;
+    }
+  });
+
+  it('should draw integers below max', () => {
+    let rng = createRng(7);
+    for (let i = 0; i < 100; i++) {
+      const roll = nextInt(rng, 5);
+      expect(roll.value).toBeGreaterThanOrEqual(0);
+      expect(roll.value).toBeLessThan(5);
+      rng = roll.rng;
+    }
+  });
+});
+
+describe('Seeded Match State', () => {
+  it('should pick the same fighter names for the same seed', () => {
+    const a = createInitialState(555);
+    const b = createInitialState(555);
+    expect(getFighter(a, 'player').name).toBe(getFighter(b, 'player').name);
+    expect(getFighter(a, 'opponent').name).toBe(getFighter(b, 'opponent').name);
+    expect(getFighter(a, 'player').name).not.toBe(getFighter(a, 'opponent').name);
+    expect(a.rng).toEqual(b.rng);
+  });
+
+  it('should use an explicit seed on reset', () => {
+    const state = resetMatch(createInitialState(1), 2024);
+    expect(state.rng.seed).toBe(2024);
+  });
+
+  it('should derive the next match seed deterministically', () => {
+    const state = createInitialState(10);
+    expect(resetMatch(state).rng.seed).toBe(deriveSeed(state.rng));
+  });
+
+  it('should make the same AI jump decisions for the same seed', () => {
+    const state = createInitialState(77);
+    const decisions = (seed: number) => {
+      const ai = new AIController(seed);
+      const actions: string[] = [];
+      for (let t = 0; t < 50; t++) {
+        actions.push(ai.decide({ ...state, elapsedTime: t }).action);
+      }
+      return actions;
+    };
+    expect(decisions(3)).toEqual(decisions(3));
+  });
+});
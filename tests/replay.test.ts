@@ -0,0 +1,98 @@
+// @vitest-environment node
+/**
+ * Beam Brawlers - Replay Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ReplayRecorder,
+  ReplayPlayer,
+  serializeReplay,
+  parseReplay,
+  playReplay,
+} from '../src/game/replay';
+import { simulateMatch } from '../src/game/simulation';
+import { AIController } from '../src/game/ai';
+import { CONFIG_VERSION, MATCH_PRESETS, REPLAY_FORMAT, REPLAY_FORMAT_VERSION } from '../src/game/constants';
+import type { MatchConfig } from '../src/game/types';
+
+const recordMatch = (seed: number, config?: MatchConfig) => {
+  const recorder = new ReplayRecorder();
+  const stats = simulateMatch({
+    player: new AIController(0, 'player'),
+    opponent: new AIController(0, 'opponent'),
+    seed,
+    config,
+    recorder,
+  });
+  return { stats, replay: recorder.getReplay()! };
+};
+
+describe('Replay Recording', () => {
+  it('should record the seed, versions and actions', () => {
+    const { replay } = recordMatch(11);
+    expect(replay.format).toBe(REPLAY_FORMAT);
+    expect(replay.version).toBe(REPLAY_FORMAT_VERSION);
+    expect(replay.configVersion).toBe(CONFIG_VERSION);
+    expect(replay.seed).toBe(11);
+    expect(replay.actions[0]).toEqual({ type: 'START_GAME', seed: 11 });
+  });
+
+  it('should record the rules a match was played under', () => {
+    const config = MATCH_PRESETS.quick.config;
+    const { replay } = recordMatch(11, config);
+    expect(replay.actions[0]).toEqual({ type: 'START_GAME', seed: 11, config });
+  });
+
+  it('should ignore actions when not recording', () => {
+    const recorder = new ReplayRecorder();
+    recorder.record({ type: 'PAUSE' });
+    expect(recorder.getReplay()).toBeNull();
+  });
+});
+
+describe('Replay Playback', () => {
+  it('should reproduce the recorded match exactly', () => {
+    const { stats, replay } = recordMatch(21);
+    const finalState = playReplay(parseReplay(serializeReplay(replay)));
+    expect(finalState.scene).toBe('GameOver');
+    expect(finalState.result).toEqual(stats.result);
+  });
+
+  it('should reproduce a match played under other rules', () => {
+    const { stats, replay } = recordMatch(21, MATCH_PRESETS.tournament.config);
+    const finalState = playReplay(parseReplay(serializeReplay(replay)));
+    expect(finalState.config).toEqual(MATCH_PRESETS.tournament.config);
+    expect(finalState.result).toEqual(stats.result);
+  });
+
+  it('should step one UPDATE at a time', () => {
+    const { replay } = recordMatch(5);
+    const player = new ReplayPlayer(replay);
+    player.step();
+    expect(player.getState().scene).toBe('Countdown');
+    expect(player.getProgress()).toBeGreaterThan(0);
+    expect(player.isFinished()).toBe(false);
+  });
+});
+
+describe('Replay Parsing', () => {
+  it('should reject invalid JSON', () => {
+    expect(() => parseReplay('not json')).toThrow('not valid JSON');
+  });
+
+  it('should reject other files', () => {
+    expect(() => parseReplay('{"hello": "world"}')).toThrow('Not a Beam Brawlers replay');
+  });
+
+  it('should reject replays from another config version', () => {
+    const replay = {
+      format: REPLAY_FORMAT,
+      version: REPLAY_FORMAT_VERSION,
+      configVersion: CONFIG_VERSION + 1,
+      seed: 1,
+      actions: [],
+    };
+    expect(() => parseReplay(JSON.stringify(replay))).toThrow('game config');
+  });
+});
@@ -0,0 +1,88 @@
+// @vitest-environment node
+/**
+ * Beam Brawlers - Headless Simulator Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { simulateMatch, simulateBatch, formatBatchReport } from '../src/game/simulation';
+import { AIController } from '../src/game/ai';
+import { gameReducer } from '../src/game/gameReducer';
+import { ReplayRecorder } from '../src/game/replay';
+import { DEFAULT_MATCH_CONFIG, MATCH_PRESETS } from '../src/game/constants';
+
+const createAgents = () => ({
+  player: new AIController(0, 'player'),
+  opponent: new AIController(0, 'opponent'),
+});
+
+describe('Headless Simulator', () => {
+  it('should play a match to GameOver', () => {
+    const stats = simulateMatch({ ...createAgents(), reducer: gameReducer, seed: 1 });
+    expect(stats.result).toBeDefined();
+    expect(['pin', 'timeout', 'surrender']).toContain(stats.result.reason);
+    expect(stats.steps).toBeGreaterThan(0);
+  });
+
+  it('should be deterministic for the same seed', () => {
+    const a = simulateMatch({ ...createAgents(), seed: 42 });
+    const b = simulateMatch({ ...createAgents(), seed: 42 });
+    expect(a).toEqual(b);
+  });
+
+  it('should play a match under any rules', () => {
+    const configs = [
+      ...Object.values(MATCH_PRESETS).map((preset) => preset.config),
+      { ...DEFAULT_MATCH_CONFIG, tagTeam: true },
+      { ...DEFAULT_MATCH_CONFIG, rounds: 3 },
+    ];
+    for (const config of configs) {
+      const stats = simulateMatch({ ...createAgents(), seed: 3, config });
+      expect(stats.result).toBeDefined();
+    }
+
+    // Untimed matches get far more room than the default clock allows
+    const untimed = simulateMatch({ ...createAgents(), seed: 3, config: MATCH_PRESETS.pinsOnly.config });
+    expect(untimed.result.reason).toBe('pin');
+  });
+
+  it('should seed each agent separately', () => {
+    const agents = createAgents();
+    const playerReset = vi.spyOn(agents.player, 'reset');
+    const opponentReset = vi.spyOn(agents.opponent, 'reset');
+
+    simulateMatch({ ...agents, seed: 42 });
+    expect(playerReset).toHaveBeenCalledOnce();
+    expect(opponentReset).toHaveBeenCalledOnce();
+    expect(playerReset.mock.calls[0][0]).not.toBe(opponentReset.mock.calls[0][0]);
+  });
+
+  it('should reset the agents for each new round', () => {
+    const agents = createAgents();
+    const playerReset = vi.spyOn(agents.player, 'reset');
+    const opponentReset = vi.spyOn(agents.opponent, 'reset');
+    const recorder = new ReplayRecorder();
+
+    simulateMatch({ ...agents, seed: 3, config: { ...DEFAULT_MATCH_CONFIG, rounds: 3 }, recorder });
+    const rounds = recorder.getReplay()!.actions.filter((action) => action.type === 'NEXT_ROUND').length;
+    expect(rounds).toBeGreaterThan(0);
+    expect(playerReset).toHaveBeenCalledTimes(rounds + 1);
+    expect(opponentReset).toHaveBeenCalledTimes(rounds + 1);
+  });
+
+  it('should give mirrored agents roughly even win rates from either side', () => {
+    const report = simulateBatch({ matches: 100, seed: 1, createAgents });
+    expect(report.winRates.player).toBeGreaterThan(0.4);
+    expect(report.winRates.player).toBeLessThan(0.6);
+    expect(report.winRates.opponent).toBeGreaterThan(0.4);
+    expect(report.winRates.opponent).toBeLessThan(0.6);
+  });
+
+  it('should aggregate a batch of matches', () => {
+    const report = simulateBatch({ matches: 3, seed: 7, createAgents });
+    expect(report.matches).toBe(3);
+    expect(report.wins.player + report.wins.opponent + report.wins.draw).toBe(3);
+    expect(report.winRates.player + report.winRates.opponent + report.winRates.draw).toBeCloseTo(1);
+    expect(report.endReasons.pin + report.endReasons.timeout + report.endReasons.surrender).toBe(3);
+    expect(formatBatchReport(report)).toContain('Matches: 3');
+  });
+});
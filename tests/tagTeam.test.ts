@@ -0,0 +1,115 @@
+/**
+ * Beam Brawlers - Tag Team Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canTag, getApronX, getNextPartner, restOnBench, tagIn } from '../src/game/logic/tagTeam';
+import {
+  getBench,
+  getFighter,
+  getTeam,
+  getTeamFalls,
+  getTeamName,
+  getTeamScore,
+  setFighter,
+} from '../src/game/logic/teams';
+import { createInitialState, transitionScene } from '../src/game/logic/gameState';
+import { BEAM_LEFT, BEAM_RIGHT, DEFAULT_MATCH_CONFIG, MAX_BALANCE, TAG_REACH } from '../src/game/constants';
+import type { GameState } from '../src/game/types';
+import { withFighters } from './helpers';
+
+const createTagTeamState = (): GameState =>
+  transitionScene(createInitialState(1, 'vsAI', { ...DEFAULT_MATCH_CONFIG, tagTeam: true }), 'Playing');
+
+// The player's fighter standing within reach of the left end
+const nearHome = (state: GameState): GameState =>
+  withFighters({ ...state, player: { ...getFighter(state, 'player'), x: BEAM_LEFT + 40 } });
+
+describe('Teams', () => {
+  it('should put one fighter a side on the beam in singles', () => {
+    const state = createInitialState(1);
+    expect(state.teams.player).toHaveLength(1);
+    expect(state.active).toEqual({ player: 0, opponent: 0 });
+    expect(getBench(state, 'player')).toEqual([]);
+    expect(canTag(nearHome(transitionScene(state, 'Playing')), 'player')).toBe(false);
+  });
+
+  it('should give each fighter their own id, and only replace the one on the beam', () => {
+    const state = createTagTeamState();
+    expect(getTeam(state, 'player').map((fighter) => fighter.id)).toEqual(['player-1', 'player-2']);
+    expect(getTeam(state, 'opponent').map((fighter) => fighter.side)).toEqual(['opponent', 'opponent']);
+
+    const moved = setFighter(state, 'player', { ...getFighter(state, 'player'), x: 300 });
+    expect(moved.teams.player[0].x).toBe(300);
+    expect(moved.teams.player[1]).toBe(state.teams.player[1]);
+  });
+
+  it('should total score and falls across the team', () => {
+    const state = createTagTeamState();
+    const scored = {
+      ...state,
+      teams: {
+        ...state.teams,
+        player: [
+          { ...state.teams.player[0], score: 300, falls: 1 },
+          { ...state.teams.player[1], score: 150, falls: 1 },
+        ],
+      },
+    };
+    expect(getTeamScore(scored, 'player')).toBe(450);
+    expect(getTeamFalls(scored, 'player')).toBe(2);
+  });
+
+  it('should name a team in team order, whoever is on the beam', () => {
+    const state = createTagTeamState();
+    const [first, second] = getTeam(state, 'player');
+    expect(getTeamName(state, 'player')).toBe(`${first.name} & ${second.name}`);
+    expect(getTeamName({ ...state, active: { ...state.active, player: 1 } }, 'player')).toBe(getTeamName(state, 'player'));
+  });
+});
+
+describe('Tag Team', () => {
+  it('should give each side a partner with a distinct name, waiting on their apron', () => {
+    const state = createTagTeamState();
+    expect(getBench(state, 'player')).toHaveLength(1);
+    expect(getBench(state, 'opponent')).toHaveLength(1);
+    expect(getBench(state, 'player')[0].x).toBe(getApronX('player'));
+    expect(getBench(state, 'opponent')[0].x).toBe(getApronX('opponent'));
+    expect(getNextPartner(state, 'player')).toBe(1);
+
+    const names = [...getTeam(state, 'player'), ...getTeam(state, 'opponent')].map((fighter) => fighter.name);
+    expect(new Set(names).size).toBe(4);
+  });
+
+  it('should only allow a tag near your own end of the beam', () => {
+    const state = createTagTeamState();
+    expect(canTag(state, 'player')).toBe(false);
+    expect(canTag(nearHome(state), 'player')).toBe(true);
+    expect(canTag(withFighters({ ...state, player: { ...getFighter(state, 'player'), x: BEAM_LEFT + TAG_REACH + 1 } }), 'player')).toBe(false);
+    expect(canTag(withFighters({ ...state, opponent: { ...getFighter(state, 'opponent'), x: BEAM_RIGHT - 40 } }), 'opponent')).toBe(true);
+  });
+
+  it('should not allow a tag mid-air, tied up or on cooldown', () => {
+    const state = nearHome(createTagTeamState());
+    expect(canTag(withFighters({ ...state, player: { ...getFighter(state, 'player'), state: 'Jumping', y: -40 } }), 'player')).toBe(false);
+    expect(canTag({ ...state, isGrappling: true }, 'player')).toBe(false);
+    expect(canTag({ ...state, tagCooldown: { player: 1, opponent: 0 } }, 'player')).toBe(false);
+  });
+
+  it('should rest a waiting partner up to full', () => {
+    const state = createTagTeamState();
+    const tired = { ...getBench(state, 'player')[0], balance: 40, stamina: 20 };
+    const rested = restOnBench(tired, 1);
+    expect(rested.balance).toBeGreaterThan(40);
+    expect(rested.stamina).toBeGreaterThan(20);
+    expect(restOnBench(tired, 100).balance).toBe(MAX_BALANCE);
+  });
+
+  it('should bring a partner in where the outgoing fighter stood', () => {
+    const state = nearHome(createTagTeamState());
+    const incoming = tagIn(getBench(state, 'player')[0], getFighter(state, 'player'));
+    expect(incoming.x).toBe(getFighter(state, 'player').x);
+    expect(incoming.facing).toBe(getFighter(state, 'player').facing);
+    expect(incoming.state).toBe('Idle');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Beam Brawlers - Touch Input Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createElement } from 'react';
+import { cleanup, fireEvent, render } from '@testing-library/react';
+import { TouchInputSource } from '../src/engine/touch';
+import { TouchControls } from '../src/ui/components/TouchControls';
+import { InputManager } from '../src/engine/input';
+import { KEY_BINDINGS } from '../src/game/constants';
+
+describe('Touch Input Source', () => {
+  it('should hold a button while any finger is on it', () => {
+    const touch = new TouchInputSource();
+    touch.press('moveLeft', 1);
+    touch.press('moveLeft', 2);
+    touch.release('moveLeft', 1);
+    expect(touch.poll().state.moveLeft).toBe(true);
+
+    touch.release('moveLeft', 2);
+    expect(touch.poll().state.moveLeft).toBe(false);
+  });
+
+  it('should track several buttons at once (multi-touch)', () => {
+    const touch = new TouchInputSource();
+    touch.press('moveRight', 1);
+    touch.press('defend', 2);
+    const { state } = touch.poll();
+    expect(state.moveRight).toBe(true);
+    expect(state.defend).toBe(true);
+  });
+
+  it('should report a tap released before the next poll as just pressed', () => {
+    const touch = new TouchInputSource();
+    touch.press('grapple', 1);
+    touch.release('grapple', 1);
+
+    const result = touch.poll();
+    expect(result.justPressed).toEqual(['grapple']);
+    expect(result.state.grapple).toBe(false);
+    expect(touch.poll().justPressed).toEqual([]);
+  });
+
+  it('should feed InputManager', () => {
+    const touch = new TouchInputSource();
+    const inputManager = new InputManager(KEY_BINDINGS, [touch]);
+    inputManager.start();
+    touch.press('jump', 1);
+    inputManager.beginStep(1000);
+
+    expect(inputManager.consumePress('jump')).toBe(true);
+    expect(inputManager.getState().jump).toBe(true);
+    inputManager.stop();
+  });
+});
+
+describe('Touch Controls', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  // jsdom has no pointer capture
+  HTMLElement.prototype.hasPointerCapture ??= () => false;
+
+  const renderControls = (touch: TouchInputSource, canTag: boolean) =>
+    createElement(TouchControls, { input: touch, moveStance: null, canFinish: false, canTag });
+
+  it('should let go of a finger when its button disappears under it', () => {
+    const touch = new TouchInputSource();
+    const { getByText, rerender } = render(renderControls(touch, true));
+    fireEvent.pointerDown(getByText('Tag!'), { pointerId: 1 });
+    expect(touch.poll().justPressed).toEqual(['tag']);
+
+    // The partner drifts out of reach, then the button comes back for a fresh tap
+    rerender(renderControls(touch, false));
+    expect(touch.poll().state.tag).toBe(false);
+    rerender(renderControls(touch, true));
+    fireEvent.pointerDown(getByText('Tag!'), { pointerId: 2 });
+    expect(touch.poll().justPressed).toEqual(['tag']);
+  });
+});